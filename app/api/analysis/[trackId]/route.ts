@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { errorJson } from "../../../../lib/spotify/server";
+import { isStorableTrackId, readStoredAnalysis, writeStoredAnalysis } from "../../../../lib/analysis/store";
+import { parseTrackAnalysis } from "../../../../lib/analysis/trackAnalysis";
+
+// An hour-long local file's envelope is well under this; previews far less
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+type RouteContext = { params: Promise<{ trackId: string }> };
+
+// The body as text, or null once it's known to exceed `limit` bytes: from
+// Content-Length when it's declared, otherwise by counting as it streams
+// in, so an oversized upload is never held in memory whole
+async function readBody(request: NextRequest, limit: number): Promise<string | null> {
+  if (Number(request.headers.get("content-length")) > limit) return null;
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Both methods need a signed-in user, and the store is kept per user: an
+// analysis comes from the uploader's browser, so it's only ever served
+// back to them
+async function checkRequest(request: NextRequest, trackId: string) {
+  const token = await getToken({ req: request });
+  const userId = token?.accessToken && !token.error ? token.sub ?? token.email : null;
+  if (!userId) return { rejected: errorJson(401, "unauthorized", "Not signed in to Spotify") };
+  if (!isStorableTrackId(trackId)) return { rejected: errorJson(400, "bad_request", "Invalid track id") };
+  return { userId };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { trackId } = await params;
+  const { userId, rejected } = await checkRequest(request, trackId);
+  if (rejected) return rejected;
+
+  const analysis = await readStoredAnalysis(userId, trackId);
+  if (!analysis) return errorJson(404, "not_found", "No analysis stored for this track");
+  return NextResponse.json(analysis);
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { trackId } = await params;
+  const { userId, rejected } = await checkRequest(request, trackId);
+  if (rejected) return rejected;
+
+  const text = await readBody(request, MAX_BODY_BYTES);
+  if (text === null) return errorJson(413, "too_large", "Analysis is too large");
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return errorJson(400, "bad_request", "Body is not JSON");
+  }
+  const analysis = parseTrackAnalysis(body);
+  if (!analysis || analysis.trackId !== trackId) return errorJson(400, "bad_request", "Not a valid analysis for this track");
+
+  // The newest upload replaces the user's stored copy, e.g. once the palette is known
+  try {
+    await writeStoredAnalysis(userId, analysis);
+  } catch (error) {
+    console.error("Error storing analysis:", error);
+    return errorJson(500, "storage_error", "Could not store the analysis");
+  }
+  return new NextResponse(null, { status: 204 });
+}
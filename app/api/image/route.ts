@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorJson } from "../../../lib/spotify/server";
+
+// Spotify serves artwork from these CDNs; anything else is refused so the
+// route can't be used as an open proxy
+const ALLOWED_HOST_SUFFIXES = [".scdn.co", ".spotifycdn.com"];
+
+// Same-origin copy of album artwork, so the browser can read its pixels
+// from a canvas for palette extraction. Artwork URLs are content-addressed,
+// so responses are cached for good.
+export async function GET(request: NextRequest) {
+  const raw = request.nextUrl.searchParams.get("url");
+  let url: URL;
+  try {
+    url = new URL(raw ?? "");
+  } catch {
+    return errorJson(400, "bad_request", "Missing or invalid image url");
+  }
+  if (url.protocol !== "https:" || !ALLOWED_HOST_SUFFIXES.some((suffix) => url.hostname.endsWith(suffix))) {
+    return errorJson(400, "bad_request", "Image host not allowed");
+  }
+
+  let upstream: Response;
+  try {
+    // Redirects aren't followed: they could lead off the allowed hosts
+    upstream = await fetch(url, { redirect: "manual", next: { revalidate: false } });
+  } catch (error) {
+    console.error("Error fetching image:", error);
+    return errorJson(502, "upstream_unavailable", "Could not reach the image host");
+  }
+  if (upstream.status >= 300 && upstream.status < 400) {
+    return errorJson(502, "upstream_error", "Image host redirected elsewhere");
+  }
+  const contentType = upstream.headers.get("content-type") ?? "";
+  if (!upstream.ok || !contentType.startsWith("image/")) {
+    return errorJson(502, "upstream_error", `Image host answered ${upstream.status}`);
+  }
+
+  return new NextResponse(upstream.body, {
+    headers: {
+      "Content-Type": contentType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
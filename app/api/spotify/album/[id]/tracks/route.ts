@@ -0,0 +1,9 @@
+import { normalizeAlbumTracksPage } from "../../../../../../lib/spotify/normalize";
+import { pageParams, spotifyRoute } from "../../../../../../lib/spotify/server";
+
+// One page of an album's tracklist; pass `next` back as `cursor` for the rest.
+// Tracks come without their album, which the caller already has.
+export const GET = spotifyRoute<{ id: string }>(async (client, request, { id }) => {
+  const page = await client.getAlbumTracks(id, pageParams(request, { limit: 50 }));
+  return normalizeAlbumTracksPage(page);
+});
@@ -0,0 +1,7 @@
+import { spotifyRoute } from "../../../../../lib/spotify/server";
+import type { ArtistWithTopTracks } from "../../../../../types/spotify";
+
+export const GET = spotifyRoute<{ id: string }>(async (client, _request, { id }): Promise<ArtistWithTopTracks> => {
+  const [artist, topTracks] = await Promise.all([client.getArtist(id), client.getArtistTopTracks(id)]);
+  return { ...artist, top_tracks: topTracks.tracks };
+});
@@ -0,0 +1,11 @@
+import { SpotifyApiError } from "../../../../../../lib/spotify/client";
+import { spotifyRoute } from "../../../../../../lib/spotify/server";
+
+// Starts playback of the given URIs on one of the user's devices
+export const PUT = spotifyRoute(async (client, request) => {
+  const { deviceId, uris } = (await request.json().catch(() => ({}))) as { deviceId?: string; uris?: string[] };
+  if (!deviceId || !Array.isArray(uris) || uris.length === 0) {
+    throw new SpotifyApiError(400, "bad_request", "deviceId and uris are required");
+  }
+  await client.startPlayback(deviceId, uris);
+});
@@ -0,0 +1,3 @@
+import { pageParams, spotifyRoute } from "../../../../../lib/spotify/server";
+
+export const GET = spotifyRoute((client, request) => client.getMyPlaylists(pageParams(request)));
@@ -0,0 +1,12 @@
+import { normalizeRecentlyPlayedPage } from "../../../../../lib/spotify/normalize";
+import { pageParams, spotifyRoute } from "../../../../../lib/spotify/server";
+
+// Most recent plays first; pass `next` back as `cursor` for older ones
+export const GET = spotifyRoute(async (client, request) => {
+  const { limit } = pageParams(request, { limit: 50 });
+  const page = await client.getRecentlyPlayed({
+    limit,
+    before: request.nextUrl.searchParams.get("cursor") ?? undefined,
+  });
+  return normalizeRecentlyPlayedPage(page);
+});
@@ -0,0 +1,8 @@
+import { normalizeSavedTracksPage } from "../../../../../lib/spotify/normalize";
+import { pageParams, spotifyRoute } from "../../../../../lib/spotify/server";
+
+// One page of the user's Liked Songs; pass `next` back as `cursor` for more
+export const GET = spotifyRoute(async (client, request) => {
+  const page = await client.getSavedTracks(pageParams(request, { limit: 50 }));
+  return normalizeSavedTracksPage(page);
+});
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { errorResponse, getAccessToken } from "../../../../../lib/spotify/server";
+import { SpotifyApiError } from "../../../../../lib/spotify/client";
+import { missingScopes } from "../../../../../lib/spotify/scopes";
+
+// The single exception to the access token never reaching the browser: the
+// Web Playback SDK authenticates from the page and can't be proxied. The
+// client only asks for it once the user has chosen the SDK device, and it's
+// refused to sessions known to lack `streaming`, the scope the SDK needs.
+// Everything else goes through the server-side client.
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (token?.accessToken && missingScopes(token.scope?.split(" "), ["streaming"]).length > 0) {
+    return errorResponse(new SpotifyApiError(403, "insufficient_scope", "Spotify playback needs the streaming scope"));
+  }
+  const accessToken = await getAccessToken(request);
+  if (!accessToken) {
+    return errorResponse(new SpotifyApiError(401, "unauthorized", "Not signed in to Spotify"));
+  }
+  return NextResponse.json({ accessToken }, { headers: { "Cache-Control": "no-store" } });
+}
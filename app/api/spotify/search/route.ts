@@ -0,0 +1,20 @@
+import { SpotifyApiError } from "../../../../lib/spotify/client";
+import { pageParams, spotifyRoute } from "../../../../lib/spotify/server";
+import type { SearchType } from "../../../../types/spotify";
+
+const SEARCH_TYPES: SearchType[] = ["track", "album", "artist", "playlist", "show", "audiobook"];
+
+export const GET = spotifyRoute((client, request) => {
+  const params = request.nextUrl.searchParams;
+  const query = params.get("q")?.trim();
+  if (!query) {
+    throw new SpotifyApiError(400, "bad_request", "Missing search query");
+  }
+  const types = (params.get("type") ?? "track,playlist")
+    .split(",")
+    .filter((type): type is SearchType => SEARCH_TYPES.includes(type as SearchType));
+  if (types.length === 0) {
+    throw new SpotifyApiError(400, "bad_request", `Search type must be one of ${SEARCH_TYPES.join(", ")}`);
+  }
+  return client.search(query, types, pageParams(request));
+});
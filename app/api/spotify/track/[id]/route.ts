@@ -0,0 +1,3 @@
+import { spotifyRoute } from "../../../../../lib/spotify/server";
+
+export const GET = spotifyRoute<{ id: string }>((client, _request, { id }) => client.getTrack(id));
@@ -0,0 +1,29 @@
+"use client";
+import { signIn, useSession } from "next-auth/react";
+import { useEffect, useRef } from "react";
+import { RECONNECTED_MESSAGE } from "../../../lib/spotify/session";
+
+// Opened as a popup by the session banner: signs in again, then tells the
+// page that opened it and closes, so that page keeps its playback and search
+export default function Reconnect() {
+  const { data: session, status } = useSession();
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (session && !session.error) {
+      window.opener?.postMessage(RECONNECTED_MESSAGE, window.location.origin);
+      window.close();
+      return;
+    }
+    if (started.current) return;
+    started.current = true;
+    signIn("spotify", { callbackUrl: "/auth/reconnect" });
+  }, [session, status]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-black">
+      <div className="text-gray-400">Reconnecting to Spotify...</div>
+    </div>
+  );
+}
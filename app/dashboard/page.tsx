@@ -1,183 +1,183 @@
 "use client";
 import { useSession } from "next-auth/react";
-import { useState, useRef, useEffect } from "react";
+import { useState, useEffect } from "react";
+import Link from "next/link";
 import { Canvas } from "@react-three/fiber";
 import { Visualizer } from "../../components/Visualizer";
+import { ScenePicker } from "../../components/ScenePicker";
+import { PlaybackBackendToggle } from "../../components/PlaybackBackendToggle";
+import { WaveformSeekBar, type SeekBarView } from "../../components/WaveformSeekBar";
+import { ExportPanel } from "../../components/ExportPanel";
+import { PresetPanel } from "../../components/PresetPanel";
+import { ChoreographyPanel } from "../../components/ChoreographyPanel";
+import { PlaylistDetail } from "../../components/PlaylistDetail";
+import { AlbumDetail } from "../../components/AlbumDetail";
+import { ArtistDetail } from "../../components/ArtistDetail";
+import { MediaCard } from "../../components/MediaCard";
+import { LibraryView, type LibraryKind } from "../../components/LibraryView";
+import { SEARCH_TABS, SearchTabResults, type SearchTab } from "../../components/SearchTabResults";
+import { QueueList } from "../../components/QueueList";
+import { TransportControls, VolumeControl } from "../../components/TransportControls";
+import { FrameStatsProbe, PerformanceOverlay, createFrameStats } from "../../components/PerformanceOverlay";
+import { usePlayer } from "../../components/PlayerProvider";
+import { loadPreference, savePreference } from "../../lib/preferences";
+import { decodePreset } from "../../lib/presets/schema";
+import { nextIndex, nextRepeatMode } from "../../lib/playback/queue";
+import { createFileTrack, isLocalTrack, microphoneTrack, type LocalTrack } from "../../lib/localTracks";
+import { isSupportedAudioFile, SUPPORTED_AUDIO_EXTENSIONS } from "../../lib/audio/waveform";
+import { useTrackWaveform } from "../../lib/audio/useTrackWaveform";
+import { formatDuration, formatKey } from "../../lib/format";
+import { describeSpotifyError, fetchSpotify } from "../../lib/spotify/api";
+import { missingScopes, SPOTIFY_SCOPES } from "../../lib/spotify/scopes";
+import type { Artist, Playlist, SearchResponse, SimplifiedAlbum, Track } from "../../types/spotify";
 
-interface Track {
-  id: string;
-  name: string;
-  artists: { name: string; id: string }[];
-  album: { 
-    name: string; 
-    images?: { url: string; height?: number; width?: number }[];
-    id: string;
-  };
-  preview_url: string | null;
-  external_urls: { spotify: string };
-  duration_ms?: number;
-  popularity?: number;
-  explicit?: boolean;
-}
-
-interface Playlist {
-  id: string;
-  name: string;
-  description: string;
-  images?: { url: string; height?: number; width?: number }[];
-  tracks: { total: number };
-  external_urls: { spotify: string };
-  owner?: {
-    display_name: string;
-    id: string;
-  };
-  public?: boolean;
-  collaborative?: boolean;
-}
+// What the main pane shows instead of search results after a drill-in
+type DetailView =
+  | { kind: "playlist"; playlist: Playlist }
+  | { kind: "album"; id: string }
+  | { kind: "artist"; id: string }
+  | { kind: "library"; library: LibraryKind };
 
 export default function Dashboard() {
   const { data: session } = useSession();
+  const {
+    userKey,
+    queue,
+    dispatchQueue,
+    currentTrack,
+    playback,
+    isPlaying,
+    audioEngine,
+    preferredBackend,
+    selectBackend,
+    preset,
+    applySharedPreset,
+    changePreset,
+    selectScene,
+    trackFeatures,
+    visualMapping,
+    visualPalette,
+    visualizerSource,
+    trackAnalysis,
+    choreography,
+    activeChoreography,
+    playTrack,
+    playAll,
+    addToQueue,
+    jumpTo,
+    skipNext,
+    skipPrevious,
+    togglePlayPause,
+  } = usePlayer();
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<{
     tracks: Track[];
     playlists: Playlist[];
-  }>({ tracks: [], playlists: [] });
-  const [currentTrack, setCurrentTrack] = useState<Track | null>(null);
-  const [selectedPlaylist, setSelectedPlaylist] = useState<Playlist | null>(null);
-  const [playlistTracks, setPlaylistTracks] = useState<Track[]>([]);
-  const [isPlaying, setIsPlaying] = useState(false);
+    albums: SimplifiedAlbum[];
+    artists: Artist[];
+  }>({ tracks: [], playlists: [], albums: [], artists: [] });
+  const [localTracks, setLocalTracks] = useState<LocalTrack[]>([]);
+  const [draggingFiles, setDraggingFiles] = useState(false);
+  const [detail, setDetail] = useState<DetailView | null>(null);
+  const [submittedQuery, setSubmittedQuery] = useState("");
   const [loading, setLoading] = useState(false);
-  const [loadingPlaylist, setLoadingPlaylist] = useState(false);
-  const [activeTab, setActiveTab] = useState("All");
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<SearchTab>("All");
+  const [showPresets, setShowPresets] = useState(false);
+  const [showChoreography, setShowChoreography] = useState(false);
+  const [presetNotice, setPresetNotice] = useState<string | null>(null);
+  const [tempo, setTempo] = useState<number | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [frameStats] = useState(createFrameStats);
+  const waveform = useTrackWaveform(currentTrack);
+  const [seekBarView, setSeekBarView] = useState<SeekBarView>("waveform");
+
+  useEffect(() => {
+    setSeekBarView(loadPreference<SeekBarView>(userKey, "seekBarView", "waveform"));
+  }, [userKey]);
+
+  const selectSeekBarView = (view: SeekBarView) => {
+    setSeekBarView(view);
+    savePreference(userKey, "seekBarView", view);
+  };
+
+  const playabilityLabel = (track: Track) => {
+    if (playback.deviceStatus === "ready") return "Full track";
+    return track.preview_url ? "Audio" : "Demo";
+  };
+
+  // A shared preset link replaces the active preset once, then leaves the URL
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const shared = url.searchParams.get("preset");
+    if (!shared) return;
+    try {
+      const sharedPreset = decodePreset(shared);
+      applySharedPreset(sharedPreset);
+      setPresetNotice(`Loaded shared preset "${sharedPreset.name}"`);
+    } catch (error) {
+      console.error("Error loading shared preset:", error);
+      setPresetNotice((error as Error).message);
+    }
+    setShowPresets(true);
+    url.searchParams.delete("preset");
+    window.history.replaceState(null, "", url.toString());
+  }, [applySharedPreset]);
 
   const searchSpotify = async (query: string) => {
-    if (!query.trim() || !session?.accessToken) return;
+    if (!query.trim()) return;
     
     setLoading(true);
+    setSearchError(null);
+    setDetail(null);
+    setSubmittedQuery(query);
     try {
-      const response = await fetch(
-        `https://api.spotify.com/v1/search?q=${encodeURIComponent(query)}&type=track,playlist&limit=20`,
-        {
-          headers: {
-            Authorization: `Bearer ${session.accessToken}`,
-          },
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        
-        // Filter and sort tracks, handling null entries and missing data
-        const tracks = (data.tracks?.items || [])
-          .filter((track: any) => track && track.id && track.name) // Filter out null/invalid entries
-          .sort((a: Track, b: Track) => {
-            if (a.preview_url && !b.preview_url) return -1;
-            if (!a.preview_url && b.preview_url) return 1;
-            return 0;
-          });
-        
-        // Filter playlists, handling null entries and missing data
-        const playlists = (data.playlists?.items || [])
-          .filter((playlist: any) => playlist && playlist.id && playlist.name); // Filter out null/invalid entries
-        
-        console.log(`Found ${tracks.length} tracks, ${tracks.filter((t: Track) => t.preview_url).length} with previews`);
-        console.log(`Found ${playlists.length} playlists`);
-        
-        setSearchResults({
-          tracks,
-          playlists,
+      const data = await fetchSpotify<SearchResponse>("/search", {
+        q: query,
+        type: "track,playlist,album,artist",
+        limit: 20,
+      });
+
+      // Search pages can contain null entries; drop them and sort tracks
+      // with previews first
+      const tracks = (data.tracks?.items ?? [])
+        .filter((track): track is Track => track !== null)
+        .sort((a, b) => {
+          if (a.preview_url && !b.preview_url) return -1;
+          if (!a.preview_url && b.preview_url) return 1;
+          return 0;
         });
-      } else if (response.status === 401) {
-        // Token expired, user needs to sign in again
-        alert("Your session has expired. Please sign in again.");
-        window.location.href = "/";
-      }
+      const playlists = (data.playlists?.items ?? []).filter((playlist): playlist is Playlist => playlist !== null);
+      const albums = (data.albums?.items ?? []).filter((album): album is SimplifiedAlbum => album !== null);
+      const artists = (data.artists?.items ?? []).filter((artist): artist is Artist => artist !== null);
+
+      setSearchResults({
+        tracks,
+        playlists,
+        albums,
+        artists,
+      });
     } catch (error) {
       console.error("Search error:", error);
+      setSearchError(describeSpotifyError(error));
     } finally {
       setLoading(false);
     }
   };
 
-  const playTrack = (track: Track) => {
-    console.log("Selecting track:", track.name, "Preview URL:", track.preview_url);
-    
-    // Always set the current track, regardless of preview availability
-    setCurrentTrack(track);
-    
-    if (track.preview_url && audioRef.current) {
-      // If preview is available, play it
-      audioRef.current.src = track.preview_url;
-      audioRef.current.play().catch(error => {
-        console.error("Error playing audio:", error);
-        setIsPlaying(false);
-      });
-      setIsPlaying(true);
-    } else {
-      // If no preview, just select the track but don't play audio
-      setIsPlaying(false);
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current.src = "";
-      }
-      
-      if (!track.preview_url) {
-        console.log(`No preview available for "${track.name}", but track selected for visualization`);
-      }
-    }
-  };
+  const addLocalFiles = async (files: FileList | File[]) => {
+    const supported = Array.from(files).filter(isSupportedAudioFile);
+    if (supported.length === 0) return;
 
-  const togglePlayPause = () => {
-    if (audioRef.current) {
-      if (isPlaying) {
-        audioRef.current.pause();
-      } else {
-        audioRef.current.play();
-      }
-      setIsPlaying(!isPlaying);
-    }
+    const created = await Promise.all(supported.map(createFileTrack));
+    setLocalTracks((tracks) => [
+      ...tracks,
+      ...created.filter((track) => !tracks.some((existing) => existing.id === track.id)),
+    ]);
+    playTrack(created[0]);
   };
 
-  const selectPlaylist = async (playlist: Playlist) => {
-    setSelectedPlaylist(playlist);
-    setLoadingPlaylist(true);
-    
-    try {
-      const response = await fetch(`/api/spotify/playlist/${playlist.id}`);
-      if (response.ok) {
-        const data = await response.json();
-        const tracks = data.items
-          .filter((item: any) => item.track && item.track.preview_url)
-          .map((item: any) => item.track);
-        setPlaylistTracks(tracks);
-      }
-    } catch (error) {
-      console.error("Error fetching playlist tracks:", error);
-    } finally {
-      setLoadingPlaylist(false);
-    }
-  };
-
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (audio) {
-      const handleEnded = () => setIsPlaying(false);
-      const handlePause = () => setIsPlaying(false);
-      const handlePlay = () => setIsPlaying(true);
-
-      audio.addEventListener("ended", handleEnded);
-      audio.addEventListener("pause", handlePause);
-      audio.addEventListener("play", handlePlay);
-
-      return () => {
-        audio.removeEventListener("ended", handleEnded);
-        audio.removeEventListener("pause", handlePause);
-        audio.removeEventListener("play", handlePlay);
-      };
-    }
-  }, []);
-
   if (!session) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-black">
@@ -186,38 +186,48 @@ export default function Dashboard() {
     );
   }
 
-  // Handle token refresh errors
-  if (session.error === "RefreshAccessTokenError") {
-    console.log("Session has refresh error:", session.error);
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-black">
-        <div className="text-center space-y-4">
-          <div className="text-xl text-red-400">Session expired</div>
-          <p className="text-gray-400">Please sign in again to continue</p>
-          <button
-            onClick={() => window.location.href = "/"}
-            className="px-6 py-3 bg-green-500 hover:bg-green-600 text-white rounded-full font-medium transition-colors"
-          >
-            Sign In Again
-          </button>
+  return (
+    <div
+      className="relative h-screen bg-black text-white flex flex-col"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        setDraggingFiles(true);
+      }}
+      onDragLeave={(e) => {
+        if (e.currentTarget === e.target) setDraggingFiles(false);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDraggingFiles(false);
+        addLocalFiles(e.dataTransfer.files);
+      }}
+    >
+      {draggingFiles && (
+        <div className="absolute inset-0 z-50 bg-black/80 border-4 border-dashed border-green-500 flex items-center justify-center pointer-events-none">
+          <p className="text-2xl font-bold text-white">Drop audio files to visualize</p>
         </div>
-      </div>
-    );
-  }
-
-  const tabs = ["All", "Playlists", "Albums", "Artists", "Songs", "Podcasts & Shows", "Profiles", "Audiobooks"];
+      )}
 
-  return (
-    <div className="h-screen bg-black text-white flex flex-col">
       {/* Top Navigation Bar */}
       <div className="flex items-center justify-between p-4 bg-black">
         <div className="flex items-center space-x-4">
-          <button className="w-8 h-8 bg-black rounded-full flex items-center justify-center">
+          <button
+            onClick={skipPrevious}
+            disabled={!currentTrack}
+            className="w-8 h-8 bg-black rounded-full flex items-center justify-center disabled:opacity-50"
+            title="Previous track"
+          >
             <svg className="w-4 h-4 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" />
             </svg>
           </button>
-          <button className="w-8 h-8 bg-black rounded-full flex items-center justify-center">
+          <button
+            onClick={() => skipNext()}
+            disabled={nextIndex(queue) === -1}
+            className="w-8 h-8 bg-black rounded-full flex items-center justify-center disabled:opacity-50"
+            title="Next track"
+          >
             <svg className="w-4 h-4 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
             </svg>
@@ -292,7 +302,12 @@ export default function Dashboard() {
           {/* Navigation Menu */}
           <div className="space-y-2">
             <h3 className="text-sm font-semibold text-gray-400 mb-3">Library</h3>
-            <button className="flex items-center space-x-3 w-full text-left py-2 px-3 rounded hover:bg-gray-800 transition-colors">
+            <button
+              onClick={() => setDetail({ kind: "library", library: "recent" })}
+              className={`flex items-center space-x-3 w-full text-left py-2 px-3 rounded hover:bg-gray-800 transition-colors ${
+                detail?.kind === "library" && detail.library === "recent" ? "bg-gray-800" : ""
+              }`}
+            >
               <div className="w-6 h-6 bg-gradient-to-br from-purple-600 to-blue-600 rounded flex items-center justify-center">
                 <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
                   <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
@@ -301,7 +316,12 @@ export default function Dashboard() {
               <span className="text-gray-300">Recently Played</span>
             </button>
             
-            <button className="flex items-center space-x-3 w-full text-left py-2 px-3 rounded hover:bg-gray-800 transition-colors">
+            <button
+              onClick={() => setDetail({ kind: "library", library: "liked" })}
+              className={`flex items-center space-x-3 w-full text-left py-2 px-3 rounded hover:bg-gray-800 transition-colors ${
+                detail?.kind === "library" && detail.library === "liked" ? "bg-gray-800" : ""
+              }`}
+            >
               <div className="w-6 h-6 bg-gradient-to-br from-green-600 to-green-400 rounded flex items-center justify-center">
                 <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
                   <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
@@ -310,6 +330,40 @@ export default function Dashboard() {
               <span className="text-gray-300">Liked Songs</span>
             </button>
           </div>
+
+          {/* Local Sources */}
+          <div className="space-y-2 mt-8">
+            <h3 className="text-sm font-semibold text-gray-400 mb-3">Local</h3>
+            <label className="flex items-center space-x-3 w-full text-left py-2 px-3 rounded hover:bg-gray-800 transition-colors cursor-pointer">
+              <div className="w-6 h-6 bg-gradient-to-br from-orange-500 to-pink-500 rounded flex items-center justify-center">
+                <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
+                  <path d="M18 3a1 1 0 00-1.196-.98l-10 2A1 1 0 006 5v9.114A4.369 4.369 0 005 14c-1.657 0-3 .895-3 2s1.343 2 3 2 3-.895 3-2V7.82l8-1.6v5.894A4.37 4.37 0 0015 12c-1.657 0-3 .895-3 2s1.343 2 3 2 3-.895 3-2V3z" />
+                </svg>
+              </div>
+              <span className="text-gray-300">Open audio files</span>
+              <input
+                type="file"
+                accept={[...SUPPORTED_AUDIO_EXTENSIONS.map((extension) => `.${extension}`), "audio/*"].join(",")}
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files) addLocalFiles(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <button
+              onClick={() => playTrack(microphoneTrack)}
+              className="flex items-center space-x-3 w-full text-left py-2 px-3 rounded hover:bg-gray-800 transition-colors"
+            >
+              <div className="w-6 h-6 bg-gradient-to-br from-red-600 to-orange-400 rounded flex items-center justify-center">
+                <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 006 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" clipRule="evenodd" />
+                </svg>
+              </div>
+              <span className="text-gray-300">Microphone / Line-in</span>
+            </button>
+          </div>
         </div>
 
         {/* Main Content */}
@@ -317,10 +371,13 @@ export default function Dashboard() {
           {/* Tab Navigation */}
           <div className="sticky top-0 bg-gradient-to-b from-gray-900 to-transparent p-6 pb-4">
             <div className="flex space-x-4 overflow-x-auto">
-              {tabs.map((tab) => (
+              {SEARCH_TABS.map((tab) => (
                 <button
                   key={tab}
-                  onClick={() => setActiveTab(tab)}
+                  onClick={() => {
+                    setActiveTab(tab);
+                    setDetail(null);
+                  }}
                   className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${
                     activeTab === tab
                       ? "bg-white text-black"
@@ -335,97 +392,333 @@ export default function Dashboard() {
 
           {/* Content */}
           <div className="px-6 pb-6">
-            {loading && (
-              <div className="text-center py-8">
-                <div className="text-lg text-gray-400">Searching...</div>
-              </div>
-            )}
+            {detail?.kind === "playlist" ? (
+              <PlaylistDetail
+                playlist={detail.playlist}
+                currentTrackId={currentTrack?.id}
+                onPlay={playTrack}
+                onPlayAll={playAll}
+                onQueue={addToQueue}
+                onBack={() => setDetail(null)}
+              />
+            ) : detail?.kind === "album" ? (
+              <AlbumDetail
+                albumId={detail.id}
+                currentTrackId={currentTrack?.id}
+                onPlay={playTrack}
+                onPlayAll={playAll}
+                onQueue={addToQueue}
+                onBack={() => setDetail(null)}
+              />
+            ) : detail?.kind === "artist" ? (
+              <ArtistDetail
+                artistId={detail.id}
+                currentTrackId={currentTrack?.id}
+                onPlay={playTrack}
+                onPlayAll={playAll}
+                onQueue={addToQueue}
+                onBack={() => setDetail(null)}
+              />
+            ) : detail?.kind === "library" ? (
+              <LibraryView
+                kind={detail.library}
+                missingScopes={missingScopes(session.scopes, SPOTIFY_SCOPES)}
+                currentTrackId={currentTrack?.id}
+                onPlay={playTrack}
+                onPlayAll={playAll}
+                onQueue={addToQueue}
+                onBack={() => setDetail(null)}
+              />
+            ) : activeTab === "All" ? (
+              <>
+                {loading && (
+                  <div className="text-center py-8">
+                    <div className="text-lg text-gray-400">Searching...</div>
+                  </div>
+                )}
 
-            {/* Top Result */}
-            {searchResults.tracks.length > 0 && (
-              <div className="mb-8">
-                <h2 className="text-2xl font-bold text-white mb-6">Top result</h2>
-                <div className="bg-gray-800 rounded-lg p-6 hover:bg-gray-700 transition-colors cursor-pointer max-w-sm"
-                     onClick={() => playTrack(searchResults.tracks[0])}>
-                  <div className="w-20 h-20 bg-gray-700 rounded mb-4 flex items-center justify-center">
-                    {searchResults.tracks[0]?.album?.images?.[0]?.url ? (
-                      <img
-                        src={searchResults.tracks[0].album.images[0].url}
-                        alt={searchResults.tracks[0].album.name || "Album cover"}
-                        className="w-20 h-20 rounded object-cover"
-                      />
-                    ) : (
-                      <svg className="w-10 h-10 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217z" clipRule="evenodd" />
-                      </svg>
-                    )}
+                {searchError && !loading && (
+                  <div className="text-center py-8">
+                    <div className="text-sm text-red-400">{searchError}</div>
                   </div>
-                  <h3 className="text-white font-bold text-xl mb-2">{searchResults.tracks[0].name}</h3>
-                  <p className="text-gray-400 text-sm">
-                    {searchResults.tracks[0].artists?.map((artist) => artist.name).join(", ") || "Unknown Artist"}
-                  </p>
-                                     <div className="flex items-center mt-4">
-                     {searchResults.tracks[0].preview_url ? (
-                       <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse mr-2" title="Has audio preview"></div>
-                     ) : (
-                       <div className="w-2 h-2 bg-blue-500 rounded-full mr-2" title="Demo visualization"></div>
-                     )}
-                     <span className="text-xs text-gray-400">
-                       {searchResults.tracks[0].preview_url ? "SONG • Audio" : "SONG • Demo"}
-                     </span>
-                   </div>
-                </div>
-              </div>
-            )}
+                )}
 
-            {/* Songs */}
-            {searchResults.tracks.length > 1 && (
-              <div className="mb-8">
-                <h2 className="text-2xl font-bold text-white mb-6">Songs</h2>
-                <div className="space-y-2">
-                  {searchResults.tracks.slice(1, 5).map((track, index) => (
-                    <div
-                      key={track.id}
-                      className="flex items-center space-x-4 p-2 rounded hover:bg-gray-800 transition-colors cursor-pointer"
-                      onClick={() => playTrack(track)}
-                    >
-                      <div className="w-12 h-12 bg-gray-700 rounded flex items-center justify-center">
-                        {track?.album?.images?.[0]?.url ? (
+                {/* Local Files */}
+                {localTracks.length > 0 && (
+                  <div className="mb-8">
+                    <h2 className="text-2xl font-bold text-white mb-6">Local files</h2>
+                    <div className="space-y-2">
+                      {localTracks.map((track) => (
+                        <div
+                          key={track.id}
+                          className={`flex items-center space-x-4 p-2 rounded hover:bg-gray-800 transition-colors cursor-pointer ${
+                            currentTrack?.id === track.id ? "bg-gray-800" : ""
+                          }`}
+                          onClick={() => playTrack(track)}
+                        >
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate text-white">{track.name}</p>
+                            <p className="text-sm text-gray-400 truncate">{track.album.name}</p>
+                          </div>
+                          <span className="text-sm text-gray-400 tabular-nums">
+                            {track.duration_ms ? formatDuration(track.duration_ms) : "--:--"}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Top Result */}
+                {searchResults.tracks.length > 0 && (
+                  <div className="mb-8">
+                    <h2 className="text-2xl font-bold text-white mb-6">Top result</h2>
+                    <div className="bg-gray-800 rounded-lg p-6 hover:bg-gray-700 transition-colors cursor-pointer max-w-sm"
+                         onClick={() => playTrack(searchResults.tracks[0])}>
+                      <div className="w-20 h-20 bg-gray-700 rounded mb-4 flex items-center justify-center">
+                        {searchResults.tracks[0]?.album?.images?.[0]?.url ? (
                           <img
-                            src={track.album.images[0].url}
-                            alt={track.album.name || "Album cover"}
-                            className="w-12 h-12 rounded object-cover"
+                            src={searchResults.tracks[0].album.images[0].url}
+                            alt={searchResults.tracks[0].album.name || "Album cover"}
+                            className="w-20 h-20 rounded object-cover"
                           />
                         ) : (
-                          <svg className="w-6 h-6 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
+                          <svg className="w-10 h-10 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
                             <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217z" clipRule="evenodd" />
                           </svg>
                         )}
                       </div>
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium truncate text-white">{track.name}</p>
-                        <p className="text-sm text-gray-400 truncate">
-                          {track.artists?.map((artist) => artist.name).join(", ") || "Unknown Artist"}
-                        </p>
-                      </div>
-                                             <div className="flex items-center space-x-2">
-                         {track.preview_url ? (
-                           <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" title="Has audio preview"></div>
+                      <h3 className="text-white font-bold text-xl mb-2">{searchResults.tracks[0].name}</h3>
+                      <p className="text-gray-400 text-sm">
+                        {searchResults.tracks[0].artists?.map((artist) => artist.name).join(", ") || "Unknown Artist"}
+                      </p>
+                                         <div className="flex items-center mt-4">
+                         {playback.canPlay(searchResults.tracks[0]) ? (
+                           <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse mr-2" title="Has audio"></div>
                          ) : (
-                           <div className="w-2 h-2 bg-blue-500 rounded-full" title="Demo visualization"></div>
+                           <div className="w-2 h-2 bg-blue-500 rounded-full mr-2" title="Demo visualization"></div>
                          )}
+                         <span className="text-xs text-gray-400">
+                           SONG • {playabilityLabel(searchResults.tracks[0])}
+                         </span>
+                         <button
+                           onClick={(e) => {
+                             e.stopPropagation();
+                             addToQueue([searchResults.tracks[0]]);
+                           }}
+                           className="ml-auto text-xs text-gray-400 hover:text-white"
+                           title="Add to queue"
+                         >
+                           + Queue
+                         </button>
                        </div>
                     </div>
-                  ))}
-                </div>
-              </div>
+                  </div>
+                )}
+
+                {/* Songs */}
+                {searchResults.tracks.length > 1 && (
+                  <div className="mb-8">
+                    <h2 className="text-2xl font-bold text-white mb-6">Songs</h2>
+                    <div className="space-y-2">
+                      {searchResults.tracks.slice(1, 5).map((track, index) => (
+                        <div
+                          key={track.id}
+                          className="flex items-center space-x-4 p-2 rounded hover:bg-gray-800 transition-colors cursor-pointer"
+                          onClick={() => playTrack(track)}
+                        >
+                          <div className="w-12 h-12 bg-gray-700 rounded flex items-center justify-center">
+                            {track?.album?.images?.[0]?.url ? (
+                              <img
+                                src={track.album.images[0].url}
+                                alt={track.album.name || "Album cover"}
+                                className="w-12 h-12 rounded object-cover"
+                              />
+                            ) : (
+                              <svg className="w-6 h-6 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217z" clipRule="evenodd" />
+                              </svg>
+                            )}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate text-white">{track.name}</p>
+                            <p className="text-sm text-gray-400 truncate">
+                              {track.artists?.map((artist) => artist.name).join(", ") || "Unknown Artist"}
+                            </p>
+                          </div>
+                                                 <div className="flex items-center space-x-2">
+                             <button
+                               onClick={(e) => {
+                                 e.stopPropagation();
+                                 addToQueue([track]);
+                               }}
+                               className="text-xs text-gray-500 hover:text-white"
+                               title="Add to queue"
+                             >
+                               + Queue
+                             </button>
+                             {playback.canPlay(track) ? (
+                               <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" title="Has audio"></div>
+                             ) : (
+                               <div className="w-2 h-2 bg-blue-500 rounded-full" title="Demo visualization"></div>
+                             )}
+                           </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Artists */}
+                {searchResults.artists.length > 0 && (
+                  <div className="mb-8">
+                    <h2 className="text-2xl font-bold text-white mb-6">Artists</h2>
+                    <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+                      {searchResults.artists.slice(0, 4).map((artist) => (
+                        <MediaCard
+                          key={artist.id}
+                          title={artist.name}
+                          subtitle="Artist"
+                          imageUrl={artist.images?.[0]?.url}
+                          round
+                          onClick={() => setDetail({ kind: "artist", id: artist.id })}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Albums */}
+                {searchResults.albums.length > 0 && (
+                  <div className="mb-8">
+                    <h2 className="text-2xl font-bold text-white mb-6">Albums</h2>
+                    <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+                      {searchResults.albums.slice(0, 4).map((album) => (
+                        <MediaCard
+                          key={album.id}
+                          title={album.name}
+                          subtitle={album.artists.map((artist) => artist.name).join(", ")}
+                          imageUrl={album.images[0]?.url}
+                          onClick={() => setDetail({ kind: "album", id: album.id })}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Playlists */}
+                {searchResults.playlists.length > 0 && (
+                  <div className="mb-8">
+                    <h2 className="text-2xl font-bold text-white mb-6">Playlists</h2>
+                    <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+                      {searchResults.playlists.map((playlist) => (
+                        <MediaCard
+                          key={playlist.id}
+                          title={playlist.name}
+                          subtitle={`By ${playlist.owner.display_name ?? playlist.owner.id}`}
+                          imageUrl={playlist.images?.[0]?.url}
+                          onClick={() => setDetail({ kind: "playlist", playlist })}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            ) : (
+              <SearchTabResults
+                tab={activeTab}
+                query={submittedQuery}
+                currentTrackId={currentTrack?.id}
+                onPlay={playTrack}
+                onQueue={addToQueue}
+                onOpenPlaylist={(playlist) => setDetail({ kind: "playlist", playlist })}
+                onOpenAlbum={(id) => setDetail({ kind: "album", id })}
+                onOpenArtist={(id) => setDetail({ kind: "artist", id })}
+              />
             )}
           </div>
         </div>
 
         {/* Right Sidebar - Visualizer */}
         <div className="w-80 bg-gray-950 p-6 flex flex-col">
-          <h2 className="text-xl font-bold text-white mb-4">Visualizer</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-white">Visualizer</h2>
+            {currentTrack && (
+              <div className="flex items-center space-x-2">
+                {trackFeatures && (
+                  <span
+                    className="text-xs text-gray-400"
+                    title={`Track features (${trackFeatures.source}): energy ${trackFeatures.energy.toFixed(2)}, valence ${trackFeatures.valence.toFixed(2)}, danceability ${trackFeatures.danceability.toFixed(2)}`}
+                  >
+                    {formatKey(trackFeatures.key, trackFeatures.mode)}
+                  </span>
+                )}
+                <span className="text-xs text-gray-400 tabular-nums" title="Estimated tempo">
+                  {tempo ? `${tempo} BPM` : "— BPM"}
+                </span>
+                <button
+                  onClick={() => setShowStats(!showStats)}
+                  className={`px-2 py-0.5 text-[10px] rounded-full transition-colors ${
+                    showStats ? "bg-green-500 text-black" : "bg-gray-800 text-gray-400 hover:bg-gray-700"
+                  }`}
+                  title="Show frame rate"
+                >
+                  FPS
+                </button>
+                {currentTrack.id !== microphoneTrack.id && (
+                  <button
+                    onClick={() => setShowExport(true)}
+                    className="px-2 py-0.5 text-[10px] rounded-full bg-gray-800 text-gray-400 hover:bg-gray-700 transition-colors"
+                    title="Export video or image sequence"
+                  >
+                    Export
+                  </button>
+                )}
+                <Link
+                  href={`/visualize/${encodeURIComponent(currentTrack.id)}`}
+                  className="px-2 py-0.5 text-[10px] rounded-full bg-gray-800 text-gray-400 hover:bg-gray-700 transition-colors"
+                  title="Open the full-screen presentation view"
+                >
+                  Present
+                </Link>
+              </div>
+            )}
+          </div>
+
+          {/* Scene Picker */}
+          <div className="mb-4">
+            <div className="flex items-start justify-between space-x-2">
+              <ScenePicker value={preset.sceneId} onChange={selectScene} />
+              <button
+                onClick={() => {
+                  setShowPresets(!showPresets);
+                  setShowChoreography(false);
+                }}
+                className={`shrink-0 px-2 py-1 text-xs rounded-full transition-colors ${
+                  showPresets ? "bg-green-500 text-black" : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                }`}
+                title="Edit visual preset"
+              >
+                Tune
+              </button>
+              {currentTrack && currentTrack.id !== microphoneTrack.id && (
+                <button
+                  onClick={() => {
+                    setShowChoreography(!showChoreography);
+                    setShowPresets(false);
+                  }}
+                  className={`shrink-0 px-2 py-1 text-xs rounded-full transition-colors ${
+                    showChoreography || activeChoreography
+                      ? "bg-green-500 text-black"
+                      : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                  }`}
+                  title="Scene changes that follow the track's sections"
+                >
+                  Choreo
+                </button>
+              )}
+            </div>
+          </div>
           
           {/* Current Track Info */}
           {currentTrack && (
@@ -447,7 +740,7 @@ export default function Dashboard() {
               </div>
               
                              <div className="flex items-center justify-center space-x-3">
-                 {currentTrack.preview_url ? (
+                 {playback.canPlay(currentTrack) ? (
                    <button
                      onClick={togglePlayPause}
                      className="w-8 h-8 bg-green-500 hover:bg-green-600 rounded-full flex items-center justify-center transition-colors"
@@ -477,16 +770,26 @@ export default function Dashboard() {
           )}
 
                      {/* 3D Visualizer */}
-           <div className="flex-1 bg-black rounded-lg overflow-hidden">
+           <div className="relative flex-1 bg-black rounded-lg overflow-hidden">
              {currentTrack ? (
-               <Canvas camera={{ position: [0, 0, 5] }}>
-                 <ambientLight intensity={0.5} />
-                 <pointLight position={[10, 10, 10]} />
-                 <Visualizer 
-                   audioElement={audioRef.current} 
-                   demoMode={!currentTrack.preview_url || !isPlaying}
-                 />
-               </Canvas>
+               <>
+                 <Canvas camera={{ position: [0, 0, 5] }}>
+                   <ambientLight intensity={0.5} />
+                   <pointLight position={[10, 10, 10]} />
+                   <Visualizer 
+                     source={visualizerSource}
+                     preset={preset}
+                     mapping={visualMapping}
+                     palette={visualPalette}
+                     analysis={trackAnalysis}
+                     choreography={activeChoreography}
+                     getPosition={playback.getPosition}
+                     onTempoChange={setTempo}
+                   />
+                   {showStats && <FrameStatsProbe stats={frameStats} />}
+                 </Canvas>
+                 {showStats && <PerformanceOverlay stats={frameStats} />}
+               </>
              ) : (
                <div className="h-full flex items-center justify-center text-gray-400">
                  <div className="text-center">
@@ -496,6 +799,14 @@ export default function Dashboard() {
                </div>
              )}
            </div>
+
+          <QueueList
+            queue={queue}
+            onJump={jumpTo}
+            onRemove={(index) => dispatchQueue({ type: "remove", index })}
+            onMove={(from, to) => dispatchQueue({ type: "move", from, to })}
+            onClear={() => dispatchQueue({ type: "clearUpcoming" })}
+          />
         </div>
       </div>
 
@@ -516,44 +827,94 @@ export default function Dashboard() {
                 <p className="text-gray-400 text-xs truncate">
                   {currentTrack.artists.map((artist) => artist.name).join(", ")}
                 </p>
+                {playback.inputError && <p className="text-red-400 text-xs truncate">{playback.inputError}</p>}
               </div>
             </div>
             
-            <div className="flex items-center space-x-4 flex-1 justify-center">
-              <button
-                onClick={togglePlayPause}
-                className="w-8 h-8 bg-white hover:scale-105 rounded-full flex items-center justify-center transition-transform"
-              >
-                {isPlaying ? (
-                  <svg className="w-4 h-4 text-black" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
-                  </svg>
-                ) : (
-                  <svg className="w-4 h-4 text-black ml-0.5" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
-                  </svg>
-                )}
-              </button>
+            <div className="flex flex-col items-center space-y-1 flex-1 max-w-md">
+              <TransportControls
+                isPlaying={isPlaying}
+                shuffle={queue.shuffle}
+                repeat={queue.repeat}
+                hasPrevious={Boolean(currentTrack)}
+                hasNext={nextIndex(queue) !== -1}
+                onTogglePlay={togglePlayPause}
+                onPrevious={skipPrevious}
+                onNext={() => skipNext()}
+                onToggleShuffle={() => dispatchQueue({ type: "setShuffle", enabled: !queue.shuffle })}
+                onCycleRepeat={() => dispatchQueue({ type: "setRepeat", mode: nextRepeatMode(queue.repeat) })}
+              />
+              <WaveformSeekBar
+                duration={playback.state.duration || currentTrack.duration_ms || 0}
+                getPosition={playback.getPosition}
+                waveform={waveform}
+                view={seekBarView}
+                onViewChange={selectSeekBarView}
+                onSeek={playback.backend && playback.backend !== "microphone" ? playback.seek : undefined}
+                liveEngine={playback.backend === "microphone" ? audioEngine : null}
+              />
             </div>
             
             <div className="flex items-center space-x-3 flex-1 justify-end">
-              <a
-                href={currentTrack.external_urls.spotify}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-gray-400 hover:text-white transition-colors"
-              >
-                <svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
-                  <path d="M12 0C5.4 0 0 5.4 0 12s5.4 12 12 12 12-5.4 12-12S18.66 0 12 0zm5.521 17.34c-.24.359-.66.48-1.021.24-2.82-1.74-6.36-2.101-10.561-1.141-.418.122-.779-.179-.899-.539-.12-.421.18-.78.54-.9 4.56-1.021 8.52-.6 11.64 1.32.42.18.479.659.301 1.02zm1.44-3.3c-.301.42-.841.6-1.262.3-3.239-1.98-8.159-2.58-11.939-1.38-.479.12-1.02-.12-1.14-.6-.12-.48.12-1.021.6-1.141C9.6 9.9 15 10.561 18.72 12.84c.361.181.54.78.241 1.2zm.12-3.36C15.24 8.4 8.82 8.16 5.16 9.301c-.6.179-1.2-.181-1.38-.721-.18-.601.18-1.2.72-1.381 4.26-1.26 11.28-1.02 15.721 1.621.539.3.719 1.02.42 1.56-.299.421-1.02.599-1.559.3z"/>
-                </svg>
-              </a>
+              {playback.backend !== "microphone" && (
+                <VolumeControl volume={playback.volume} onChange={playback.setVolume} />
+              )}
+              {!isLocalTrack(currentTrack) && (
+                <>
+                  <PlaybackBackendToggle
+                    value={preferredBackend}
+                    onChange={selectBackend}
+                    deviceStatus={playback.deviceStatus}
+                    deviceError={playback.deviceError}
+                  />
+                  <a
+                    href={currentTrack.external_urls.spotify}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-gray-400 hover:text-white transition-colors"
+                  >
+                    <svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
+                      <path d="M12 0C5.4 0 0 5.4 0 12s5.4 12 12 12 12-5.4 12-12S18.66 0 12 0zm5.521 17.34c-.24.359-.66.48-1.021.24-2.82-1.74-6.36-2.101-10.561-1.141-.418.122-.779-.179-.899-.539-.12-.421.18-.78.54-.9 4.56-1.021 8.52-.6 11.64 1.32.42.18.479.659.301 1.02zm1.44-3.3c-.301.42-.841.6-1.262.3-3.239-1.98-8.159-2.58-11.939-1.38-.479.12-1.02-.12-1.14-.6-.12-.48.12-1.021.6-1.141C9.6 9.9 15 10.561 18.72 12.84c.361.181.54.78.241 1.2zm.12-3.36C15.24 8.4 8.82 8.16 5.16 9.301c-.6.179-1.2-.181-1.38-.721-.18-.601.18-1.2.72-1.381 4.26-1.26 11.28-1.02 15.721 1.621.539.3.719 1.02.42 1.56-.299.421-1.02.599-1.559.3z"/>
+                    </svg>
+                  </a>
+                </>
+              )}
             </div>
           </div>
         </div>
       )}
 
-      {/* Hidden Audio Element */}
-      <audio ref={audioRef} crossOrigin="anonymous" />
+      {showExport && currentTrack && (
+        <ExportPanel
+          track={currentTrack}
+          audioUrl={currentTrack.preview_url}
+          preset={preset}
+          mapping={visualMapping}
+          palette={visualPalette}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showPresets && (
+        <PresetPanel
+          preset={preset}
+          userKey={userKey}
+          onChange={changePreset}
+          onClose={() => setShowPresets(false)}
+          notice={presetNotice}
+        />
+      )}
+
+      {showChoreography && currentTrack && (
+        <ChoreographyPanel
+          controller={choreography}
+          trackName={currentTrack.name}
+          active={activeChoreography !== null}
+          getPosition={playback.getPosition}
+          onSeek={playback.backend && playback.backend !== "microphone" ? playback.seek : undefined}
+          onClose={() => setShowChoreography(false)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
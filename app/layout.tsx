@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { SessionWrapper } from "../components/SessionWrapper";
+import { PlayerProvider } from "../components/PlayerProvider";
+import { SessionBanner } from "../components/SessionBanner";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -29,7 +31,10 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <SessionWrapper>
-          {children}
+          <PlayerProvider>
+            {children}
+            <SessionBanner />
+          </PlayerProvider>
         </SessionWrapper>
       </body>
     </html>
@@ -0,0 +1,367 @@
+"use client";
+import { useSession } from "next-auth/react";
+import { useParams, useRouter } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Canvas } from "@react-three/fiber";
+import { Visualizer } from "../../../components/Visualizer";
+import { ScenePicker } from "../../../components/ScenePicker";
+import { TransportControls, VolumeControl } from "../../../components/TransportControls";
+import { usePlayer } from "../../../components/PlayerProvider";
+import { scenes } from "../../../components/scenes";
+import { loadPreference, savePreference } from "../../../lib/preferences";
+import { nextIndex, nextRepeatMode } from "../../../lib/playback/queue";
+import type { TrackFeatures } from "../../../lib/audio/trackFeatures";
+import { formatKey } from "../../../lib/format";
+import { describeSpotifyError, fetchSpotify } from "../../../lib/spotify/api";
+import type { Track } from "../../../types/spotify";
+
+// Controls fade out after this long without the mouse moving
+const IDLE_MS = 2500;
+
+interface PresentationSettings {
+  showTitle: boolean;
+  showCaption: boolean;
+  caption: string; // shown instead of the generated caption when set
+}
+
+const DEFAULT_SETTINGS: PresentationSettings = { showTitle: true, showCaption: false, caption: "" };
+
+const SHORTCUTS: [string, string][] = [
+  ["Space", "Play / pause"],
+  ["← →", "Previous / next track"],
+  ["↑ ↓", "Volume"],
+  ["S / Shift+S", "Next / previous scene"],
+  ["F", "Fullscreen"],
+  ["T", "Track title"],
+  ["C", "Captions"],
+];
+
+// Describes the music rather than the words: tempo, key and a rough mood
+function featureCaption(features: TrackFeatures | null, tempo: number | null): string {
+  const parts: string[] = [];
+  const bpm = tempo ?? (features ? Math.round(features.tempo) : null);
+  if (bpm) parts.push(`${bpm} BPM`);
+  if (features) {
+    parts.push(formatKey(features.key, features.mode));
+    const energy = features.energy > 0.66 ? "High energy" : features.energy < 0.33 ? "Calm" : "Steady";
+    const mood = features.valence > 0.6 ? "bright" : features.valence < 0.4 ? "dark" : "balanced";
+    parts.push(`${energy}, ${mood}`);
+  }
+  return parts.join(" · ");
+}
+
+export default function Presentation() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const { trackId: encodedId } = useParams<{ trackId: string }>();
+  const trackId = decodeURIComponent(encodedId);
+  const player = usePlayer();
+  const {
+    userKey,
+    queue,
+    dispatchQueue,
+    currentTrack,
+    playback,
+    isPlaying,
+    preset,
+    selectScene,
+    trackFeatures,
+    visualMapping,
+    visualPalette,
+    visualizerSource,
+    trackAnalysis,
+    activeChoreography,
+    skipNext,
+    skipPrevious,
+    togglePlayPause,
+  } = player;
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [tempo, setTempo] = useState<number | null>(null);
+  const [settings, setSettings] = useState<PresentationSettings>(DEFAULT_SETTINGS);
+  const [controlsVisible, setControlsVisible] = useState(true);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const idleTimer = useRef<number | null>(null);
+  const overControls = useRef(false);
+  // Effects below only need the latest values, not to rerun on every render
+  const playerRef = useRef(player);
+  playerRef.current = player;
+
+  useEffect(() => {
+    setSettings(loadPreference(userKey, "presentation", DEFAULT_SETTINGS));
+  }, [userKey]);
+
+  const updateSettings = (changes: Partial<PresentationSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    savePreference(userKey, "presentation", next);
+  };
+
+  // Opening a link to a track that isn't playing starts it. Local files and
+  // live input only exist in the tab that added them.
+  useEffect(() => {
+    const { currentTrack, playTrack } = playerRef.current;
+    setLoadError(null);
+    if (currentTrack?.id === trackId) return;
+    if (trackId.startsWith("local:")) {
+      setLoadError("Local audio can't be reopened from a link. Add it again from the dashboard.");
+      return;
+    }
+
+    let cancelled = false;
+    fetchSpotify<Track>(`/track/${encodeURIComponent(trackId)}`)
+      .then((track) => {
+        if (!cancelled) playTrack(track);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error loading track for presentation:", error);
+        setLoadError(describeSpotifyError(error));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [trackId]);
+
+  // Skipping tracks from here keeps the URL pointing at what's playing
+  const shownTrackId = useRef(currentTrack?.id);
+  useEffect(() => {
+    if (!currentTrack || shownTrackId.current === currentTrack.id) return;
+    shownTrackId.current = currentTrack.id;
+    if (currentTrack.id !== trackId) router.replace(`/visualize/${encodeURIComponent(currentTrack.id)}`);
+  }, [currentTrack, trackId, router]);
+
+  const showControls = () => {
+    setControlsVisible(true);
+    if (idleTimer.current !== null) window.clearTimeout(idleTimer.current);
+    idleTimer.current = window.setTimeout(() => {
+      if (!overControls.current) setControlsVisible(false);
+    }, IDLE_MS);
+  };
+
+  useEffect(() => {
+    const onFullscreenChange = () => setIsFullscreen(Boolean(document.fullscreenElement));
+    document.addEventListener("fullscreenchange", onFullscreenChange);
+    return () => {
+      document.removeEventListener("fullscreenchange", onFullscreenChange);
+      if (idleTimer.current !== null) window.clearTimeout(idleTimer.current);
+    };
+  }, []);
+
+  const toggleFullscreen = () => {
+    const request = document.fullscreenElement ? document.exitFullscreen() : document.documentElement.requestFullscreen();
+    request.catch((error) => {
+      console.error("Error toggling fullscreen:", error);
+    });
+  };
+
+  const cycleScene = (step: number) => {
+    const index = scenes.findIndex((scene) => scene.id === preset.sceneId);
+    selectScene(scenes[(index + step + scenes.length) % scenes.length].id);
+  };
+
+  // Latest handler on every render so shortcuts never act on stale state
+  const onKeyRef = useRef<(event: KeyboardEvent) => void>(() => {});
+  onKeyRef.current = (event: KeyboardEvent) => {
+    const target = event.target as HTMLElement | null;
+    if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return;
+    if (event.metaKey || event.ctrlKey || event.altKey) return;
+
+    switch (event.key) {
+      case " ":
+        togglePlayPause();
+        break;
+      case "ArrowRight":
+        skipNext();
+        break;
+      case "ArrowLeft":
+        skipPrevious();
+        break;
+      case "ArrowUp":
+        playback.setVolume(Math.min(1, playback.volume + 0.1));
+        break;
+      case "ArrowDown":
+        playback.setVolume(Math.max(0, playback.volume - 0.1));
+        break;
+      case "s":
+      case "S":
+        cycleScene(event.shiftKey ? -1 : 1);
+        break;
+      case "f":
+      case "F":
+        toggleFullscreen();
+        break;
+      case "t":
+      case "T":
+        updateSettings({ showTitle: !settings.showTitle });
+        break;
+      case "c":
+      case "C":
+        updateSettings({ showCaption: !settings.showCaption });
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    showControls();
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => onKeyRef.current(event);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-black">
+        <div className="text-xl text-white">Please sign in to access the visualizer</div>
+      </div>
+    );
+  }
+
+  const caption = settings.caption.trim() || featureCaption(trackFeatures, tempo);
+  const ready = currentTrack?.id === trackId;
+
+  return (
+    <div
+      className={`fixed inset-0 bg-black text-white ${controlsVisible ? "" : "cursor-none"}`}
+      onMouseMove={showControls}
+      onClick={showControls}
+    >
+      {ready && currentTrack ? (
+        <Canvas camera={{ position: [0, 0, 5] }}>
+          <ambientLight intensity={0.5} />
+          <pointLight position={[10, 10, 10]} />
+          <Visualizer
+            source={visualizerSource}
+            preset={preset}
+            mapping={visualMapping}
+            palette={visualPalette}
+            analysis={trackAnalysis}
+            choreography={activeChoreography}
+            getPosition={playback.getPosition}
+            onTempoChange={setTempo}
+          />
+        </Canvas>
+      ) : (
+        <div className="h-full flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <p className={loadError ? "text-red-400" : "text-gray-400"}>{loadError ?? "Loading track..."}</p>
+            {loadError && (
+              <Link href="/dashboard" className="text-sm text-green-500 hover:text-green-400">
+                Back to dashboard
+              </Link>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Title and captions stay up when the controls hide */}
+      {ready && currentTrack && (settings.showTitle || (settings.showCaption && caption)) && (
+        <div className="absolute left-8 bottom-8 max-w-[60%] pointer-events-none space-y-2 drop-shadow-lg">
+          {settings.showTitle && (
+            <div className="flex items-center space-x-4">
+              {currentTrack.album?.images?.[0] && (
+                <img src={currentTrack.album.images[0].url} alt={currentTrack.album.name} className="w-16 h-16 rounded" />
+              )}
+              <div className="min-w-0">
+                <p className="text-3xl font-bold truncate">{currentTrack.name}</p>
+                <p className="text-lg text-gray-300 truncate">
+                  {currentTrack.artists.map((artist) => artist.name).join(", ")}
+                </p>
+              </div>
+            </div>
+          )}
+          {settings.showCaption && caption && <p className="text-base text-gray-300 tracking-wide">{caption}</p>}
+        </div>
+      )}
+
+      {/* Overlay Controls */}
+      <div
+        className={`absolute inset-x-0 top-0 p-4 bg-gradient-to-b from-black/80 to-transparent transition-opacity duration-500 ${
+          controlsVisible ? "opacity-100" : "opacity-0 pointer-events-none"
+        }`}
+        onMouseEnter={() => (overControls.current = true)}
+        onMouseLeave={() => (overControls.current = false)}
+      >
+        <div className="flex items-start justify-between space-x-4">
+          <Link href="/dashboard" className="shrink-0 text-sm text-gray-300 hover:text-white" title="Back to dashboard">
+            ← Dashboard
+          </Link>
+          <ScenePicker value={preset.sceneId} onChange={selectScene} />
+          <div className="flex items-center space-x-2 shrink-0">
+            <button
+              onClick={() => updateSettings({ showTitle: !settings.showTitle })}
+              className={`px-2 py-1 text-xs rounded-full transition-colors ${
+                settings.showTitle ? "bg-white text-black" : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+              }`}
+              title="Show track title (T)"
+            >
+              Title
+            </button>
+            <button
+              onClick={() => updateSettings({ showCaption: !settings.showCaption })}
+              className={`px-2 py-1 text-xs rounded-full transition-colors ${
+                settings.showCaption ? "bg-white text-black" : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+              }`}
+              title="Show captions (C)"
+            >
+              Captions
+            </button>
+            <input
+              type="text"
+              value={settings.caption}
+              onChange={(e) => updateSettings({ caption: e.target.value })}
+              placeholder="Custom caption"
+              className="w-40 px-3 py-1 bg-gray-800 border border-gray-700 rounded-full focus:outline-none focus:ring-2 focus:ring-green-500 placeholder-gray-500 text-white text-xs"
+            />
+            <button
+              onClick={toggleFullscreen}
+              className="px-2 py-1 text-xs rounded-full bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors"
+              title="Toggle fullscreen (F)"
+            >
+              {isFullscreen ? "Exit fullscreen" : "Fullscreen"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {currentTrack && (
+        <div
+          className={`absolute right-0 bottom-0 p-6 flex flex-col items-end space-y-3 transition-opacity duration-500 ${
+            controlsVisible ? "opacity-100" : "opacity-0 pointer-events-none"
+          }`}
+          onMouseEnter={() => (overControls.current = true)}
+          onMouseLeave={() => (overControls.current = false)}
+        >
+          <div className="flex items-center space-x-4 bg-black/60 rounded-full px-4 py-2">
+            <TransportControls
+              isPlaying={isPlaying}
+              shuffle={queue.shuffle}
+              repeat={queue.repeat}
+              hasPrevious={Boolean(currentTrack)}
+              hasNext={nextIndex(queue) !== -1}
+              onTogglePlay={togglePlayPause}
+              onPrevious={skipPrevious}
+              onNext={() => skipNext()}
+              onToggleShuffle={() => dispatchQueue({ type: "setShuffle", enabled: !queue.shuffle })}
+              onCycleRepeat={() => dispatchQueue({ type: "setRepeat", mode: nextRepeatMode(queue.repeat) })}
+            />
+            {playback.backend !== "microphone" && (
+              <VolumeControl volume={playback.volume} onChange={playback.setVolume} />
+            )}
+          </div>
+          <dl className="grid grid-cols-[auto_auto] gap-x-3 text-[10px] text-gray-400">
+            {SHORTCUTS.map(([keys, action]) => (
+              <div key={keys} className="contents">
+                <dt className="text-right font-mono text-gray-300">{keys}</dt>
+                <dd>{action}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
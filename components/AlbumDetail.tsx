@@ -0,0 +1,70 @@
+"use client";
+import { useMemo } from "react";
+import { useSpotifyResource } from "../lib/spotify/useSpotifyResource";
+import { useTrackPages } from "../lib/spotify/useTrackPages";
+import { withAlbum } from "../lib/spotify/normalize";
+import { CollectionHeader } from "./CollectionHeader";
+import { TrackList } from "./TrackList";
+import { LoadMore } from "./LoadMore";
+import type { Album, SimplifiedTrack, Track } from "../types/spotify";
+
+interface AlbumDetailProps {
+  albumId: string;
+  currentTrackId?: string;
+  onPlay: (track: Track) => void;
+  onPlayAll: (tracks: Track[]) => void;
+  onQueue: (tracks: Track[]) => void;
+  onBack: () => void;
+}
+
+export function AlbumDetail({ albumId, currentTrackId, onPlay, onPlayAll, onQueue, onBack }: AlbumDetailProps) {
+  const { data: album, loading, error } = useSpotifyResource<Album>(`/album/${encodeURIComponent(albumId)}`);
+  // The album only embeds its first page of tracks; longer ones page in,
+  // without the album, which is put back here
+  const pages = useTrackPages<SimplifiedTrack>(`/album/${encodeURIComponent(albumId)}/tracks`);
+  const items = useMemo(
+    () => (album ? pages.items.map((item) => ({ ...item, track: withAlbum(item.track, album) })) : []),
+    [album, pages.items]
+  );
+
+  if (!album) {
+    return (
+      <div className="mb-8">
+        <button onClick={onBack} className="text-sm text-gray-400 hover:text-white mb-4">
+          ← Back
+        </button>
+        {loading && <p className="text-sm text-gray-400 py-4">Loading album...</p>}
+        {error && <p className="text-sm text-red-400 py-4">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-8">
+      <CollectionHeader
+        kind={album.album_type}
+        title={album.name}
+        imageUrl={album.images[0]?.url}
+        meta={
+          <>
+            <span className="text-white">{album.artists.map((artist) => artist.name).join(", ")}</span> •{" "}
+            {album.release_date.slice(0, 4)} • {album.total_tracks} tracks
+          </>
+        }
+        tracks={items.filter((item) => item.playable).map((item) => item.track)}
+        note={pages.hasMore ? `${pages.items.length} of ${pages.total} loaded` : undefined}
+        onPlayAll={onPlayAll}
+        onQueue={onQueue}
+        onBack={onBack}
+      />
+      <TrackList items={items} currentTrackId={currentTrackId} onPlay={onPlay} onQueue={onQueue} />
+      <LoadMore
+        hasMore={pages.hasMore}
+        loading={pages.loading}
+        error={pages.error}
+        onLoadMore={pages.loadMore}
+        loadingLabel="Loading tracks..."
+      />
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+import { useMemo } from "react";
+import { useSpotifyResource } from "../lib/spotify/useSpotifyResource";
+import { isTrackPlayable } from "../lib/spotify/normalize";
+import { CollectionHeader } from "./CollectionHeader";
+import { TrackList } from "./TrackList";
+import type { ArtistWithTopTracks, Track } from "../types/spotify";
+
+interface ArtistDetailProps {
+  artistId: string;
+  currentTrackId?: string;
+  onPlay: (track: Track) => void;
+  onPlayAll: (tracks: Track[]) => void;
+  onQueue: (tracks: Track[]) => void;
+  onBack: () => void;
+}
+
+export function ArtistDetail({ artistId, currentTrackId, onPlay, onPlayAll, onQueue, onBack }: ArtistDetailProps) {
+  const { data: artist, loading, error } = useSpotifyResource<ArtistWithTopTracks>(
+    `/artist/${encodeURIComponent(artistId)}`
+  );
+  const items = useMemo(
+    () => (artist?.top_tracks ?? []).map((track) => ({ track, playable: isTrackPlayable(track) })),
+    [artist]
+  );
+
+  if (!artist) {
+    return (
+      <div className="mb-8">
+        <button onClick={onBack} className="text-sm text-gray-400 hover:text-white mb-4">
+          ← Back
+        </button>
+        {loading && <p className="text-sm text-gray-400 py-4">Loading artist...</p>}
+        {error && <p className="text-sm text-red-400 py-4">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-8">
+      <CollectionHeader
+        kind="Artist"
+        title={artist.name}
+        imageUrl={artist.images?.[0]?.url}
+        roundImage
+        description={artist.genres?.slice(0, 3).join(", ")}
+        meta={artist.followers ? `${artist.followers.total.toLocaleString()} followers` : null}
+        tracks={items.filter((item) => item.playable).map((item) => item.track)}
+        onPlayAll={onPlayAll}
+        onQueue={onQueue}
+        onBack={onBack}
+      />
+      <h3 className="text-lg font-bold text-white mb-3">Popular</h3>
+      <TrackList items={items} currentTrackId={currentTrackId} onPlay={onPlay} onQueue={onQueue} />
+    </div>
+  );
+}
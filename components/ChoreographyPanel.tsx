@@ -0,0 +1,304 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { Section, Slider, selectClass } from "./PanelControls";
+import { scenes } from "./scenes";
+import { formatDuration } from "../lib/format";
+import { parseChoreography, SECTION_LABELS, type Choreography, type ChoreographyCue, type SectionLabel } from "../lib/choreography/schema";
+import { downloadChoreography, readChoreographyFile } from "../lib/choreography/storage";
+import type { ChoreographyController } from "../lib/choreography/useChoreography";
+
+interface ChoreographyPanelProps {
+  controller: ChoreographyController;
+  trackName: string;
+  // Whether the timeline lines up with the audio that's playing
+  active: boolean;
+  getPosition: () => number;
+  onSeek?: (positionMs: number) => void;
+  onClose: () => void;
+}
+
+const LABEL_COLORS: Record<SectionLabel, string> = {
+  intro: "bg-sky-700",
+  verse: "bg-gray-600",
+  chorus: "bg-green-600",
+  drop: "bg-rose-600",
+  breakdown: "bg-indigo-700",
+  outro: "bg-sky-900",
+};
+
+// Editor for the current track's timeline. Edits apply live and stay a draft
+// until saved; reset goes back to the one generated from the analysis.
+export function ChoreographyPanel({ controller, trackName, active, getPosition, onSeek, onClose }: ChoreographyPanelProps) {
+  const { choreography } = controller;
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const playhead = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!choreography) return;
+    let frame = requestAnimationFrame(function tick() {
+      const progress = Math.min(1, getPosition() / 1000 / choreography.duration);
+      if (playhead.current) playhead.current.style.left = `${progress * 100}%`;
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [choreography, getPosition]);
+
+  // Runs edits back through the parser so cues stay clamped and in order
+  const apply = (next: Choreography) => controller.update(parseChoreography(next));
+
+  const updateCue = (index: number, value: Partial<ChoreographyCue>) => {
+    if (!choreography) return;
+    apply({
+      ...choreography,
+      cues: choreography.cues.map((cue, i) => (i === index ? { ...cue, ...value } : cue)),
+    });
+  };
+
+  const removeCue = (index: number) => {
+    if (!choreography || choreography.cues.length < 2) return;
+    apply({ ...choreography, cues: choreography.cues.filter((_, i) => i !== index) });
+  };
+
+  // Copies whatever cue is playing, so the new one starts as a no-op
+  const addCue = () => {
+    if (!choreography) return;
+    const time = Math.min(choreography.duration, getPosition() / 1000);
+    const current = [...choreography.cues].reverse().find((cue) => cue.time <= time) ?? choreography.cues[0];
+    apply({ ...choreography, cues: [...choreography.cues, { ...current, time, transition: 1 }] });
+    setMessage(`Added a cue at ${formatDuration(time * 1000)}`);
+  };
+
+  const save = () => {
+    controller.save();
+    setMessage("Saved for this track");
+  };
+
+  const reset = () => {
+    controller.reset();
+    setMessage("Back to the generated timeline");
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file || !choreography) return;
+    try {
+      const imported = await readChoreographyFile(file);
+      // Imported cue times only make sense against audio of the same length
+      if (Math.abs(imported.duration - choreography.duration) > 1) {
+        setMessage(`${file.name} is for a ${formatDuration(imported.duration * 1000)} track`);
+        return;
+      }
+      controller.update({ ...imported, trackId: choreography.trackId, duration: choreography.duration });
+      setMessage(`Imported ${file.name}`);
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-80 bg-gray-950 border-l border-gray-800 z-40 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <h2 className="text-lg font-bold text-white">Choreography</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close choreography editor">
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        {message && <p className="text-xs text-gray-300 bg-gray-800 rounded px-2 py-1">{message}</p>}
+
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={controller.enabled}
+            onChange={(event) => controller.setEnabled(event.target.checked)}
+          />
+          <span>Follow the track&apos;s structure</span>
+        </label>
+
+        {!choreography ? (
+          <p className="text-xs text-gray-400">
+            Choreography needs an analysis of the track&apos;s audio. It&apos;s built from the preview or a local file
+            once one has loaded.
+          </p>
+        ) : (
+          <>
+            {controller.enabled && !active && (
+              <p className="text-xs text-yellow-400">
+                This timeline was made from the preview and doesn&apos;t line up with the audio playing now.
+              </p>
+            )}
+
+            <Section title={trackName}>
+              <div
+                className="relative flex h-6 rounded overflow-hidden bg-gray-800 cursor-pointer"
+                onClick={(event) => {
+                  if (!onSeek) return;
+                  const bounds = event.currentTarget.getBoundingClientRect();
+                  const fraction = (event.clientX - bounds.left) / bounds.width;
+                  onSeek(Math.max(0, fraction) * choreography.duration * 1000);
+                }}
+                title={onSeek ? "Click to seek" : undefined}
+              >
+                {choreography.cues.map((cue, index) => {
+                  const end = choreography.cues[index + 1]?.time ?? choreography.duration;
+                  return (
+                    <div
+                      key={index}
+                      className={`${LABEL_COLORS[cue.label]} border-r border-gray-950 text-[10px] text-white/80 px-1 truncate`}
+                      style={{ width: `${((end - cue.time) / choreography.duration) * 100}%` }}
+                      title={`${cue.label} · ${formatDuration(cue.time * 1000)}`}
+                    >
+                      {cue.label}
+                    </div>
+                  );
+                })}
+                <div ref={playhead} className="absolute inset-y-0 w-px bg-white pointer-events-none" />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={save}
+                  disabled={controller.saved && !controller.edited}
+                  className="px-3 py-1 text-xs rounded-full bg-green-500 hover:bg-green-600 text-black disabled:opacity-50"
+                >
+                  Save
+                </button>
+                {(controller.saved || controller.edited) && (
+                  <button onClick={reset} className="px-3 py-1 text-xs rounded-full bg-gray-800 hover:bg-gray-700 text-gray-300">
+                    Reset
+                  </button>
+                )}
+                <button onClick={addCue} className="px-3 py-1 text-xs rounded-full bg-gray-800 hover:bg-gray-700 text-gray-300">
+                  Add cue here
+                </button>
+                <button
+                  onClick={() => downloadChoreography(choreography, trackName)}
+                  className="px-3 py-1 text-xs rounded-full bg-gray-800 hover:bg-gray-700 text-gray-300"
+                >
+                  Export
+                </button>
+                <button
+                  onClick={() => fileInput.current?.click()}
+                  className="px-3 py-1 text-xs rounded-full bg-gray-800 hover:bg-gray-700 text-gray-300"
+                >
+                  Import
+                </button>
+                <input
+                  ref={fileInput}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(event) => {
+                    importFile(event.target.files?.[0]);
+                    event.target.value = "";
+                  }}
+                />
+              </div>
+            </Section>
+
+            {choreography.cues.map((cue, index) => (
+              <Section key={index} title={`Cue ${index + 1} · ${formatDuration(cue.time * 1000)}`}>
+                <div className="flex space-x-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={choreography.duration}
+                    step={0.1}
+                    value={Number(cue.time.toFixed(1))}
+                    disabled={index === 0}
+                    onChange={(event) => updateCue(index, { time: Number(event.target.value) })}
+                    className="w-20 bg-gray-800 text-white text-sm rounded px-2 py-1 disabled:opacity-50"
+                    aria-label="Start time in seconds"
+                  />
+                  <select
+                    value={cue.label}
+                    onChange={(event) => updateCue(index, { label: event.target.value as SectionLabel })}
+                    className={selectClass}
+                  >
+                    {SECTION_LABELS.map((label) => (
+                      <option key={label} value={label}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <select
+                  value={cue.sceneId}
+                  onChange={(event) => updateCue(index, { sceneId: event.target.value })}
+                  className={selectClass}
+                >
+                  {scenes.map((scene) => (
+                    <option key={scene.id} value={scene.id}>
+                      {scene.name}
+                    </option>
+                  ))}
+                </select>
+                {index > 0 && (
+                  <Slider
+                    label="Crossfade"
+                    value={cue.transition}
+                    min={0}
+                    max={10}
+                    step={0.1}
+                    onChange={(transition) => updateCue(index, { transition })}
+                    format={(value) => `${value.toFixed(1)}s`}
+                  />
+                )}
+                <Slider
+                  label="Camera distance"
+                  value={cue.camera.distance}
+                  min={1}
+                  max={30}
+                  step={0.1}
+                  onChange={(distance) => updateCue(index, { camera: { ...cue.camera, distance } })}
+                />
+                <Slider
+                  label="Camera height"
+                  value={cue.camera.height}
+                  min={-10}
+                  max={10}
+                  step={0.1}
+                  onChange={(height) => updateCue(index, { camera: { ...cue.camera, height } })}
+                />
+                <Slider
+                  label="Orbit speed"
+                  value={cue.camera.orbitSpeed}
+                  min={-2}
+                  max={2}
+                  step={0.01}
+                  onChange={(orbitSpeed) => updateCue(index, { camera: { ...cue.camera, orbitSpeed } })}
+                />
+                <Slider
+                  label="Hue shift"
+                  value={cue.hueShift}
+                  min={-0.5}
+                  max={0.5}
+                  step={0.01}
+                  onChange={(hueShift) => updateCue(index, { hueShift })}
+                />
+                <div className="flex gap-2">
+                  {onSeek && (
+                    <button
+                      onClick={() => onSeek(cue.time * 1000)}
+                      className="px-3 py-1 text-xs rounded-full bg-gray-800 hover:bg-gray-700 text-gray-300"
+                    >
+                      Jump to
+                    </button>
+                  )}
+                  {choreography.cues.length > 1 && (
+                    <button
+                      onClick={() => removeCue(index)}
+                      className="px-3 py-1 text-xs rounded-full bg-gray-800 hover:bg-gray-700 text-gray-300"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </Section>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
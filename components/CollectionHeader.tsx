@@ -0,0 +1,70 @@
+"use client";
+import type { ReactNode } from "react";
+import type { Track } from "../types/spotify";
+
+interface CollectionHeaderProps {
+  kind: string;
+  title: string;
+  imageUrl?: string;
+  roundImage?: boolean;
+  description?: string;
+  meta: ReactNode;
+  tracks: Track[]; // playable tracks the actions apply to
+  note?: ReactNode;
+  onPlayAll: (tracks: Track[]) => void;
+  onQueue: (tracks: Track[]) => void;
+  onBack: () => void;
+}
+
+// Cover, title and play-all/queue actions at the top of a drill-in view
+export function CollectionHeader({
+  kind,
+  title,
+  imageUrl,
+  roundImage = false,
+  description,
+  meta,
+  tracks,
+  note,
+  onPlayAll,
+  onQueue,
+  onBack,
+}: CollectionHeaderProps) {
+  const imageShape = roundImage ? "rounded-full" : "rounded";
+  return (
+    <>
+      <button onClick={onBack} className="text-sm text-gray-400 hover:text-white mb-4">
+        ← Back
+      </button>
+      <div className="flex items-end space-x-6 mb-6">
+        <div className={`w-40 h-40 bg-gray-800 shadow-lg flex-shrink-0 ${imageShape}`}>
+          {imageUrl && <img src={imageUrl} alt={title} className={`w-40 h-40 object-cover ${imageShape}`} />}
+        </div>
+        <div className="min-w-0">
+          <p className="text-xs uppercase tracking-wide text-gray-400">{kind}</p>
+          <h2 className="text-3xl font-bold text-white truncate mb-2">{title}</h2>
+          {description && <p className="text-sm text-gray-400 line-clamp-2 mb-2">{description}</p>}
+          <p className="text-sm text-gray-400">{meta}</p>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-3 mb-4">
+        <button
+          onClick={() => onPlayAll(tracks)}
+          disabled={tracks.length === 0}
+          className="px-5 py-2 rounded-full bg-green-500 hover:bg-green-600 disabled:bg-gray-700 disabled:text-gray-400 text-black text-sm font-medium transition-colors"
+        >
+          Play all
+        </button>
+        <button
+          onClick={() => onQueue(tracks)}
+          disabled={tracks.length === 0}
+          className="px-5 py-2 rounded-full bg-gray-800 hover:bg-gray-700 disabled:text-gray-500 text-gray-200 text-sm font-medium transition-colors"
+        >
+          Add to queue
+        </button>
+        {note && <span className="text-xs text-gray-500">{note}</span>}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,265 @@
+"use client";
+import { Canvas, type RootState } from "@react-three/fiber";
+import { useEffect, useRef, useState } from "react";
+import { Visualizer } from "./Visualizer";
+import { analyzeAudioBuffer } from "../lib/audio/offlineAnalysis";
+import { PrecomputedSource } from "../lib/audio/PrecomputedSource";
+import { SyntheticSource, signatureFromTrack, type TrackLike } from "../lib/audio/SyntheticSource";
+import type { SignalSource } from "../lib/audio/SignalSource";
+import { decodeAudioUrl } from "../lib/audio/waveform";
+import {
+  exportVisualization,
+  isWebCodecsSupported,
+  type ExportFormat,
+  type ExportSettings,
+} from "../lib/export/exportVisualization";
+import type { PaletteTheme } from "../lib/palette/extract";
+import type { VisualPreset } from "../lib/presets/schema";
+import type { VisualMapping } from "../lib/visualMapping";
+
+interface ExportPanelProps {
+  track: TrackLike & { name: string };
+  audioUrl: string | null;
+  preset: VisualPreset;
+  mapping?: VisualMapping | null;
+  palette?: PaletteTheme | null;
+  onClose: () => void;
+}
+
+const RESOLUTIONS = [
+  { label: "720p", width: 1280, height: 720 },
+  { label: "1080p", width: 1920, height: 1080 },
+  { label: "Square", width: 1080, height: 1080 },
+  { label: "Vertical", width: 1080, height: 1920 },
+];
+
+type ExportStatus =
+  | { stage: "idle" }
+  | { stage: "preparing" }
+  | { stage: "rendering"; frame: number; frameCount: number }
+  | { stage: "done"; url: string; fileName: string }
+  | { stage: "error"; message: string };
+
+function safeFileName(name: string) {
+  return name.replace(/[^a-z0-9-_ ]/gi, "").trim().replace(/\s+/g, "-") || "vizify";
+}
+
+export function ExportPanel({ track, audioUrl, preset, mapping, palette, onClose }: ExportPanelProps) {
+  const [format, setFormat] = useState<ExportFormat>(isWebCodecsSupported() ? "webm" : "png-zip");
+  const [resolution, setResolution] = useState(RESOLUTIONS[0]);
+  const [fps, setFps] = useState(30);
+  const [duration, setDuration] = useState(15);
+  const [status, setStatus] = useState<ExportStatus>({ stage: "idle" });
+  const [job, setJob] = useState<{ source: SignalSource; settings: ExportSettings; audio: AudioBuffer | null } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the panel cancels a running export
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    if (status.stage !== "done") return;
+    return () => URL.revokeObjectURL(status.url);
+  }, [status]);
+
+  const start = async () => {
+    setStatus({ stage: "preparing" });
+    try {
+      // Analyse the whole clip up front at the export frame rate, so every
+      // rendered frame lines up with exactly one analysis frame
+      const audio = audioUrl ? await decodeAudioUrl(audioUrl) : null;
+      const clipDuration = audio ? Math.min(duration, audio.duration) : duration;
+      const source = audio
+        ? new PrecomputedSource(
+            analyzeAudioBuffer(audio, {
+              fps,
+              fftSize: preset.audio.fftSize,
+              smoothingTimeConstant: preset.audio.smoothing,
+            })
+          )
+        : new SyntheticSource(signatureFromTrack(track), preset.audio.fftSize);
+      setJob({
+        source,
+        audio,
+        settings: { format, width: resolution.width, height: resolution.height, fps, duration: clipDuration },
+      });
+    } catch (error) {
+      setStatus({ stage: "error", message: (error as Error).message });
+    }
+  };
+
+  // Runs once the offscreen canvas exists
+  const render = async (state: RootState) => {
+    if (!job) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      // Give the scene's frame subscribers a tick to register
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const blob = await exportVisualization(
+        { canvas: state.gl.domElement, renderFrame: (time) => state.advance(time) },
+        job.settings,
+        {
+          audio: job.audio,
+          signal: controller.signal,
+          onProgress: ({ frame, frameCount }) => setStatus({ stage: "rendering", frame, frameCount }),
+        }
+      );
+      const extension = job.settings.format === "webm" ? "webm" : "zip";
+      setStatus({
+        stage: "done",
+        url: URL.createObjectURL(blob),
+        fileName: `${safeFileName(track.name)}-${preset.sceneId}.${extension}`,
+      });
+    } catch (error) {
+      if ((error as Error).name !== "AbortError") {
+        setStatus({ stage: "error", message: (error as Error).message });
+      }
+    } finally {
+      abortRef.current = null;
+      setJob(null);
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    setJob(null);
+    setStatus({ stage: "idle" });
+  };
+
+  const busy = status.stage === "preparing" || status.stage === "rendering";
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 flex items-center justify-center">
+      <div className="bg-gray-900 rounded-lg p-6 w-96 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-white">Export visualization</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" disabled={busy}>
+            ✕
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 truncate">
+          {track.name} • {audioUrl ? "from audio" : "synthetic (no audio available)"}
+        </p>
+
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <label className="space-y-1">
+            <span className="text-gray-400">Format</span>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              disabled={busy}
+              className="w-full bg-gray-800 rounded px-2 py-1 text-white"
+            >
+              <option value="webm" disabled={!isWebCodecsSupported()}>WebM video</option>
+              <option value="png-zip">PNG sequence (zip)</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400">Resolution</span>
+            <select
+              value={resolution.label}
+              onChange={(e) => setResolution(RESOLUTIONS.find((r) => r.label === e.target.value) ?? RESOLUTIONS[0])}
+              disabled={busy}
+              className="w-full bg-gray-800 rounded px-2 py-1 text-white"
+            >
+              {RESOLUTIONS.map((r) => (
+                <option key={r.label} value={r.label}>
+                  {r.label} ({r.width}×{r.height})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400">Frame rate</span>
+            <select
+              value={fps}
+              onChange={(e) => setFps(Number(e.target.value))}
+              disabled={busy}
+              className="w-full bg-gray-800 rounded px-2 py-1 text-white"
+            >
+              <option value={24}>24 fps</option>
+              <option value={30}>30 fps</option>
+              <option value={60}>60 fps</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400">Length (seconds)</span>
+            <input
+              type="number"
+              min={1}
+              max={600}
+              value={duration}
+              onChange={(e) => setDuration(Math.max(1, Number(e.target.value)))}
+              disabled={busy}
+              className="w-full bg-gray-800 rounded px-2 py-1 text-white"
+            />
+          </label>
+        </div>
+
+        {status.stage === "rendering" && (
+          <div className="space-y-1">
+            <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-green-500"
+                style={{ width: `${(status.frame / status.frameCount) * 100}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-400 tabular-nums">
+              Frame {status.frame} / {status.frameCount}
+            </p>
+          </div>
+        )}
+        {status.stage === "preparing" && <p className="text-xs text-gray-400">Analysing audio…</p>}
+        {status.stage === "error" && <p className="text-xs text-red-400">{status.message}</p>}
+
+        <div className="flex justify-end space-x-2">
+          {busy ? (
+            <button onClick={cancel} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-full text-sm text-white">
+              Cancel
+            </button>
+          ) : status.stage === "done" ? (
+            <a
+              href={status.url}
+              download={status.fileName}
+              className="px-4 py-2 bg-green-500 hover:bg-green-600 rounded-full text-sm font-medium text-black"
+            >
+              Download
+            </a>
+          ) : (
+            <button onClick={start} className="px-4 py-2 bg-green-500 hover:bg-green-600 rounded-full text-sm font-medium text-black">
+              Export
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Offscreen canvas at the exact output size, driven frame by frame */}
+      {job && (
+        <div
+          style={{ position: "fixed", left: -100000, top: 0, width: job.settings.width, height: job.settings.height }}
+        >
+          <Canvas
+            frameloop="never"
+            dpr={1}
+            gl={{ preserveDrawingBuffer: true }}
+            camera={{ position: [0, 0, 5] }}
+            onCreated={render}
+          >
+            <ambientLight intensity={0.5} />
+            <pointLight position={[10, 10, 10]} />
+            <Visualizer
+              source={job.source}
+              preset={preset}
+              mapping={mapping}
+              palette={palette}
+              adaptiveQuality={false}
+            />
+          </Canvas>
+        </div>
+      )}
+    </div>
+  );
+}
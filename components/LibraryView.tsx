@@ -0,0 +1,71 @@
+"use client";
+import { signIn } from "next-auth/react";
+import { useTrackPages } from "../lib/spotify/useTrackPages";
+import { CollectionHeader } from "./CollectionHeader";
+import { TrackList } from "./TrackList";
+import { LoadMore } from "./LoadMore";
+import type { Track } from "../types/spotify";
+
+export type LibraryKind = "recent" | "liked";
+
+const LIBRARIES: Record<LibraryKind, { title: string; path: string; scope: string; unit: string }> = {
+  recent: { title: "Recently Played", path: "/me/recently-played", scope: "user-read-recently-played", unit: "plays" },
+  liked: { title: "Liked Songs", path: "/me/tracks", scope: "user-library-read", unit: "songs" },
+};
+
+interface LibraryViewProps {
+  kind: LibraryKind;
+  // Scopes the session is known to lack, from `missingScopes`
+  missingScopes: string[];
+  currentTrackId?: string;
+  onPlay: (track: Track) => void;
+  onPlayAll: (tracks: Track[]) => void;
+  onQueue: (tracks: Track[]) => void;
+  onBack: () => void;
+}
+
+export function LibraryView({ kind, missingScopes, currentTrackId, onPlay, onPlayAll, onQueue, onBack }: LibraryViewProps) {
+  const library = LIBRARIES[kind];
+  const knownMissing = missingScopes.includes(library.scope);
+  const { items, total, loading, error, errorCode, hasMore, loadMore } = useTrackPages(knownMissing ? null : library.path);
+  const needsConsent = knownMissing || errorCode === "insufficient_scope";
+  const playableTracks = items.filter((item) => item.playable).map((item) => item.track);
+
+  return (
+    <div className="mb-8">
+      <CollectionHeader
+        kind="Library"
+        title={library.title}
+        meta={total !== null ? `${total} ${library.unit}` : `${items.length} ${library.unit}`}
+        tracks={playableTracks}
+        note={hasMore && total !== null ? `${items.length} of ${total} loaded` : undefined}
+        onPlayAll={onPlayAll}
+        onQueue={onQueue}
+        onBack={onBack}
+      />
+
+      {needsConsent ? (
+        <div className="bg-gray-900 border border-gray-800 rounded-lg p-6 text-center space-y-3">
+          <p className="text-white font-medium">Vizify needs permission to read your {library.title.toLowerCase()}</p>
+          <p className="text-sm text-gray-400">
+            Your current sign-in predates this feature. Sign in again to grant access.
+          </p>
+          <button
+            onClick={() => signIn("spotify", { callbackUrl: window.location.href })}
+            className="px-6 py-2 bg-green-500 hover:bg-green-600 text-black rounded-full text-sm font-medium transition-colors"
+          >
+            Grant access
+          </button>
+        </div>
+      ) : (
+        <>
+          <TrackList items={items} currentTrackId={currentTrackId} onPlay={onPlay} onQueue={onQueue} />
+          {!loading && !error && items.length === 0 && (
+            <p className="text-sm text-gray-400 py-8 text-center">Nothing here yet</p>
+          )}
+          <LoadMore hasMore={hasMore} loading={loading} error={error} onLoadMore={loadMore} loadingLabel="Loading tracks..." />
+        </>
+      )}
+    </div>
+  );
+}
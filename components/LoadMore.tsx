@@ -0,0 +1,44 @@
+"use client";
+import { useEffect, useRef } from "react";
+
+interface LoadMoreProps {
+  hasMore: boolean;
+  loading: boolean;
+  error: string | null;
+  onLoadMore: () => void;
+  loadingLabel?: string;
+}
+
+// Footer for paged lists: fetches the next page as it scrolls into view,
+// with a button as the fallback and retry
+export function LoadMore({ hasMore, loading, error, onLoadMore, loadingLabel = "Loading..." }: LoadMoreProps) {
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const node = sentinel.current;
+    // After a failure, wait for an explicit retry instead of re-fetching
+    if (!node || !hasMore || error) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+    });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasMore, error, onLoadMore]);
+
+  return (
+    <>
+      {error && <p className="text-sm text-red-400 py-4">{error}</p>}
+      {loading && <p className="text-sm text-gray-400 py-4">{loadingLabel}</p>}
+      {hasMore && !loading && (
+        <div ref={sentinel} className="py-4 text-center">
+          <button
+            onClick={onLoadMore}
+            className="px-4 py-2 rounded-full text-sm bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
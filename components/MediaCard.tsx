@@ -0,0 +1,41 @@
+"use client";
+
+interface MediaCardProps {
+  title: string;
+  subtitle?: string;
+  imageUrl?: string;
+  round?: boolean;
+  selected?: boolean;
+  // Cards either drill in within the app or link out to Spotify
+  onClick?: () => void;
+  href?: string;
+}
+
+export function MediaCard({ title, subtitle, imageUrl, round = false, selected = false, onClick, href }: MediaCardProps) {
+  const shape = round ? "rounded-full" : "rounded";
+  const content = (
+    <>
+      <div className={`aspect-square bg-gray-700 mb-3 overflow-hidden ${shape}`}>
+        {imageUrl && <img src={imageUrl} alt={title} className="w-full h-full object-cover" />}
+      </div>
+      <p className="font-medium truncate text-white text-sm">{title}</p>
+      {subtitle && <p className="text-xs text-gray-400 truncate">{subtitle}</p>}
+    </>
+  );
+  const className = `block p-3 rounded-lg hover:bg-gray-800 transition-colors cursor-pointer ${
+    selected ? "bg-gray-800" : "bg-gray-900"
+  }`;
+
+  if (href) {
+    return (
+      <a href={href} target="_blank" rel="noopener noreferrer" className={className}>
+        {content}
+      </a>
+    );
+  }
+  return (
+    <div className={className} onClick={onClick}>
+      {content}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+import type { ReactNode } from "react";
+
+// Building blocks shared by the side-panel editors
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  format?: (value: number) => string;
+}
+
+export function Slider({ label, value, min, max, step, onChange, format = (v) => v.toFixed(2) }: SliderProps) {
+  return (
+    <label className="block">
+      <div className="flex justify-between text-xs text-gray-400 mb-1">
+        <span>{label}</span>
+        <span className="tabular-nums">{format(value)}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+        className="w-full accent-green-500"
+      />
+    </label>
+  );
+}
+
+export function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-3">
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+export const selectClass = "w-full bg-gray-800 text-white text-sm rounded px-2 py-1";
@@ -0,0 +1,68 @@
+"use client";
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useRef } from "react";
+
+export interface FrameStats {
+  fps: number;
+  frameTime: number; // mean ms per frame over the last window
+  worstFrameTime: number; // slowest frame in the last window, ms
+  drawCalls: number;
+  triangles: number;
+}
+
+const WINDOW_SECONDS = 0.5;
+
+export function createFrameStats(): FrameStats {
+  return { fps: 0, frameTime: 0, worstFrameTime: 0, drawCalls: 0, triangles: 0 };
+}
+
+// Lives inside the <Canvas> and writes timings into `stats` in place
+export function FrameStatsProbe({ stats }: { stats: FrameStats }) {
+  const sample = useRef({ elapsed: 0, frames: 0, worst: 0 });
+
+  useFrame((state, delta) => {
+    const current = sample.current;
+    current.elapsed += delta;
+    current.frames++;
+    current.worst = Math.max(current.worst, delta);
+
+    if (current.elapsed >= WINDOW_SECONDS) {
+      stats.fps = current.frames / current.elapsed;
+      stats.frameTime = (current.elapsed / current.frames) * 1000;
+      stats.worstFrameTime = current.worst * 1000;
+      stats.drawCalls = state.gl.info.render.calls;
+      stats.triangles = state.gl.info.render.triangles;
+      current.elapsed = 0;
+      current.frames = 0;
+      current.worst = 0;
+    }
+  });
+
+  return null;
+}
+
+// Sits over the canvas and redraws its text directly, outside React
+export function PerformanceOverlay({ stats }: { stats: FrameStats }) {
+  const textRef = useRef<HTMLPreElement>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (!textRef.current) return;
+      textRef.current.textContent = [
+        `${stats.fps.toFixed(0)} fps`,
+        `${stats.frameTime.toFixed(1)} ms avg`,
+        `${stats.worstFrameTime.toFixed(1)} ms worst`,
+        `${stats.drawCalls} calls`,
+        `${stats.triangles} tris`,
+      ].join("\n");
+    }, WINDOW_SECONDS * 1000);
+    return () => clearInterval(interval);
+  }, [stats]);
+
+  return (
+    <pre
+      ref={textRef}
+      className="absolute top-2 left-2 px-2 py-1 bg-black/70 rounded text-[10px] leading-tight text-green-400 font-mono pointer-events-none"
+    />
+  );
+}
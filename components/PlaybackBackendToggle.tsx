@@ -0,0 +1,50 @@
+"use client";
+import type { DeviceStatus } from "../lib/playback/SpotifyDevicePlayer";
+import type { PreferredBackend } from "../lib/playback/types";
+
+interface PlaybackBackendToggleProps {
+  value: PreferredBackend;
+  onChange: (kind: PreferredBackend) => void;
+  deviceStatus: DeviceStatus;
+  deviceError: string | null;
+}
+
+const statusLabels: Record<DeviceStatus, string> = {
+  idle: "",
+  connecting: "Connecting…",
+  ready: "Full tracks",
+  unavailable: "Unavailable",
+};
+
+export function PlaybackBackendToggle({ value, onChange, deviceStatus, deviceError }: PlaybackBackendToggleProps) {
+  const options: { kind: PreferredBackend; label: string }[] = [
+    { kind: "preview", label: "Preview" },
+    { kind: "spotify", label: "Spotify" },
+  ];
+
+  return (
+    <div className="flex items-center space-x-2">
+      <div className="flex bg-gray-800 rounded-full p-0.5">
+        {options.map(({ kind, label }) => (
+          <button
+            key={kind}
+            onClick={() => onChange(kind)}
+            className={`px-2 py-0.5 text-xs rounded-full transition-colors ${
+              value === kind ? "bg-white text-black" : "text-gray-400 hover:text-white"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {value === "spotify" && deviceStatus !== "idle" && (
+        <span
+          className={`text-xs ${deviceStatus === "unavailable" ? "text-red-400" : "text-gray-400"}`}
+          title={deviceError ?? undefined}
+        >
+          {statusLabels[deviceStatus]}
+        </span>
+      )}
+    </div>
+  );
+}
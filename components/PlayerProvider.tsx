@@ -0,0 +1,294 @@
+"use client";
+import { useSession } from "next-auth/react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+  useState,
+  type Dispatch,
+  type ReactNode,
+} from "react";
+import { DEFAULT_SCENE_ID } from "./scenes";
+import { loadPreference, savePreference } from "../lib/preferences";
+import { useAudioEngine } from "../lib/audio/useAudioEngine";
+import type { AudioEngine } from "../lib/audio/AudioEngine";
+import { SyntheticSource, signatureFromTrack } from "../lib/audio/SyntheticSource";
+import { withClock, type SignalSource } from "../lib/audio/SignalSource";
+import { useTrackFeatures } from "../lib/audio/useTrackFeatures";
+import type { TrackFeatures } from "../lib/audio/trackFeatures";
+import { mapFeaturesToVisuals, type VisualMapping } from "../lib/visualMapping";
+import { paletteImageUrl, usePalette } from "../lib/palette/usePalette";
+import type { PaletteTheme } from "../lib/palette/extract";
+import { useTrackAnalysis } from "../lib/analysis/useTrackAnalysis";
+import type { TrackAnalysis } from "../lib/analysis/trackAnalysis";
+import type { Choreography } from "../lib/choreography/schema";
+import { useChoreography, type ChoreographyController } from "../lib/choreography/useChoreography";
+import { DEFAULT_PRESET, type VisualPreset } from "../lib/presets/schema";
+import { loadActivePreset, saveActivePreset } from "../lib/presets/storage";
+import { usePlayback, type PlaybackController } from "../lib/playback/usePlayback";
+import type { PreferredBackend } from "../lib/playback/types";
+import {
+  createQueue,
+  currentQueueTrack,
+  nextIndex,
+  previousIndex,
+  queueReducer,
+  type QueueAction,
+  type QueueState,
+} from "../lib/playback/queue";
+import type { LocalTrack } from "../lib/localTracks";
+import { fetchSpotify } from "../lib/spotify/api";
+import type { Track } from "../types/spotify";
+
+type PlayerTrack = Track | LocalTrack;
+
+export interface PlayerContextValue {
+  userKey: string;
+  queue: QueueState<PlayerTrack>;
+  dispatchQueue: Dispatch<QueueAction<PlayerTrack>>;
+  currentTrack: PlayerTrack | null;
+  playback: PlaybackController;
+  isPlaying: boolean;
+  audioEngine: AudioEngine;
+  preferredBackend: PreferredBackend;
+  selectBackend: (kind: PreferredBackend) => void;
+  preset: VisualPreset;
+  // Replaces the preset for this session only, as a share link does;
+  // changePreset also saves it
+  applySharedPreset: (preset: VisualPreset) => void;
+  changePreset: (preset: VisualPreset) => void;
+  selectScene: (id: string) => void;
+  trackFeatures: TrackFeatures | null;
+  visualMapping: VisualMapping | null;
+  visualPalette: PaletteTheme | null;
+  visualizerSource: SignalSource | null;
+  // The track's analysis while it lines up with what's playing
+  trackAnalysis: TrackAnalysis | null;
+  choreography: ChoreographyController;
+  // The timeline to play, when it's on and fits the audio that's playing
+  activeChoreography: Choreography | null;
+  playTrack: (track: PlayerTrack) => void;
+  playAll: (tracks: Track[]) => void;
+  addToQueue: (tracks: Track[]) => void;
+  jumpTo: (index: number) => void;
+  skipNext: (auto?: boolean) => void;
+  skipPrevious: () => void;
+  togglePlayPause: () => void;
+}
+
+const PlayerContext = createContext<PlayerContextValue | null>(null);
+
+// The queue, the audio element and everything derived from the playing
+// track live above the routes, so moving between the dashboard and the
+// presentation view doesn't interrupt playback.
+export function PlayerProvider({ children }: { children: ReactNode }) {
+  const { data: session, status: sessionStatus } = useSession();
+  const userKey = session?.user?.email ?? session?.user?.name ?? "anonymous";
+  const [queue, dispatchQueue] = useReducer(queueReducer<PlayerTrack>, undefined, createQueue<PlayerTrack>);
+  const currentTrack = currentQueueTrack(queue);
+  const [preset, setPreset] = useState<VisualPreset>(DEFAULT_PRESET);
+  // The user whose stored preset is showing, and a shared one that arrived
+  // before it loaded. Pages' effects run before this provider's, so a share
+  // link is always read before the stored preset would replace it.
+  const presetLoadedFor = useRef<string | null>(null);
+  const pendingSharedPreset = useRef<VisualPreset | null>(null);
+  const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
+  const audioEngine = useAudioEngine(audioElement);
+  const [preferredBackend, setPreferredBackend] = useState<PreferredBackend>("preview");
+  const getAccessToken = useCallback(async () => {
+    const { accessToken } = await fetchSpotify<{ accessToken: string }>("/player/token");
+    return accessToken;
+  }, []);
+  const playback = usePlayback({
+    audioElement,
+    engine: audioEngine,
+    getAccessToken,
+    preferred: preferredBackend,
+    onEnded: () => skipNext(true),
+  });
+  const isPlaying = playback.state.isPlaying;
+  const trackFeatures = useTrackFeatures(currentTrack);
+  const artworkPalette = usePalette(paletteImageUrl(currentTrack?.album.images));
+  const analysis = useTrackAnalysis(currentTrack, artworkPalette, userKey);
+  const visualMapping = useMemo(() => (trackFeatures ? mapFeaturesToVisuals(trackFeatures) : null), [trackFeatures]);
+  // Demo audio follows the real features once they're known, so a mellow
+  // track doesn't get a pounding synthetic beat
+  const { fftSize, smoothing } = preset.audio;
+  const demoSource = useMemo(() => {
+    if (!currentTrack) return null;
+    const measured = trackFeatures && trackFeatures.source !== "estimate" ? trackFeatures : null;
+    return new SyntheticSource(
+      signatureFromTrack(
+        currentTrack,
+        measured ? { tempo: measured.tempo, energy: measured.energy, key: measured.key, mode: measured.mode } : {}
+      ),
+      fftSize
+    );
+  }, [currentTrack, trackFeatures, fftSize]);
+  const customPalette = preset.palette.source === "custom" ? preset.palette.colors : null;
+  const visualPalette = useMemo(() => {
+    if (customPalette) return { colors: customPalette };
+    return preset.palette.source === "artwork" ? artworkPalette : null;
+  }, [customPalette, preset.palette.source, artworkPalette]);
+
+  useEffect(() => {
+    audioEngine.configure({ fftSize, smoothingTimeConstant: smoothing });
+  }, [audioEngine, fftSize, smoothing]);
+  const { backend, getPosition } = playback;
+  // Whole tracks on the SDK device can't be analysed, so the synthetic
+  // source follows the device's playback position instead
+  const visualizerSource = useMemo(() => {
+    if ((backend === "preview" || backend === "microphone") && isPlaying) return audioEngine;
+    if (backend === "spotify" && demoSource) return withClock(demoSource, () => getPosition() / 1000);
+    return demoSource;
+  }, [backend, isPlaying, audioEngine, demoSource, getPosition]);
+  // Analyses come from the preview audio, so they don't match whole tracks
+  // on the SDK device
+  const trackAnalysis = backend === "preview" ? analysis : null;
+  const choreography = useChoreography(userKey, currentTrack?.id ?? null, analysis, preset);
+  const playingDuration = playback.state.duration || currentTrack?.duration_ms || 0;
+  const activeChoreography =
+    choreography.enabled &&
+    choreography.choreography &&
+    Math.abs(choreography.choreography.duration * 1000 - playingDuration) < 1000
+      ? choreography.choreography
+      : null;
+
+  // Waits for the session, so a returning user's preset loads once rather
+  // than after an anonymous one
+  useEffect(() => {
+    if (sessionStatus === "loading") return;
+    // Scene choice predates presets; it seeds the preset for returning users
+    const stored = loadActivePreset(userKey, { ...DEFAULT_PRESET, sceneId: loadPreference(userKey, "scene", DEFAULT_SCENE_ID) });
+    setPreset(pendingSharedPreset.current ?? stored);
+    pendingSharedPreset.current = null;
+    presetLoadedFor.current = userKey;
+    setPreferredBackend(loadPreference<PreferredBackend>(userKey, "playbackBackend", "preview"));
+  }, [userKey, sessionStatus]);
+
+  const applySharedPreset = useCallback(
+    (next: VisualPreset) => {
+      if (presetLoadedFor.current === userKey && sessionStatus !== "loading") setPreset(next);
+      else pendingSharedPreset.current = next;
+    },
+    [userKey, sessionStatus]
+  );
+
+  const selectBackend = (kind: PreferredBackend) => {
+    setPreferredBackend(kind);
+    savePreference(userKey, "playbackBackend", kind);
+  };
+
+  const changePreset = (next: VisualPreset) => {
+    setPreset(next);
+    saveActivePreset(userKey, next);
+  };
+
+  const selectScene = (id: string) => {
+    changePreset({ ...preset, sceneId: id });
+  };
+
+  const startPlayback = (track: PlayerTrack) => {
+    // Tracks nothing can play are still selected and visualized from the
+    // synthetic source
+    playback.play(track).catch((error) => {
+      console.error("Error playing track:", error);
+    });
+  };
+
+  const playTrack = (track: PlayerTrack) => {
+    dispatchQueue({ type: "play", track });
+    startPlayback(track);
+  };
+
+  const playAll = (tracks: Track[]) => {
+    if (tracks.length === 0) return;
+    dispatchQueue({ type: "replace", tracks });
+    startPlayback(tracks[0]);
+  };
+
+  const addToQueue = (tracks: Track[]) => {
+    dispatchQueue({ type: "enqueue", tracks });
+  };
+
+  const jumpTo = (index: number) => {
+    const track = queue.items[index];
+    if (!track) return;
+    dispatchQueue({ type: "jump", index });
+    startPlayback(track);
+  };
+
+  // Auto-advance skips what nothing can play; pressing next doesn't, since
+  // those tracks still visualize from the synthetic source
+  const skipNext = (auto = false) => {
+    const index = nextIndex(queue, { auto, isPlayable: auto ? playback.canPlay : undefined });
+    if (index === -1) return;
+    jumpTo(index);
+  };
+
+  const skipPrevious = () => {
+    // Like most players, "previous" restarts a track that's been playing a while
+    if (playback.getPosition() > 3000) {
+      playback.seek(0).catch((error) => {
+        console.error("Error seeking:", error);
+      });
+      return;
+    }
+    const index = previousIndex(queue);
+    if (index !== -1) jumpTo(index);
+  };
+
+  const togglePlayPause = () => {
+    playback.togglePlayPause().catch((error) => {
+      console.error("Error toggling playback:", error);
+    });
+  };
+
+  const value: PlayerContextValue = {
+    userKey,
+    queue,
+    dispatchQueue,
+    currentTrack,
+    playback,
+    isPlaying,
+    audioEngine,
+    preferredBackend,
+    selectBackend,
+    preset,
+    applySharedPreset,
+    changePreset,
+    selectScene,
+    trackFeatures,
+    visualMapping,
+    visualPalette,
+    visualizerSource,
+    trackAnalysis,
+    choreography,
+    activeChoreography,
+    playTrack,
+    playAll,
+    addToQueue,
+    jumpTo,
+    skipNext,
+    skipPrevious,
+    togglePlayPause,
+  };
+
+  return (
+    <PlayerContext.Provider value={value}>
+      {children}
+      {/* Hidden Audio Element */}
+      <audio ref={setAudioElement} crossOrigin="anonymous" />
+    </PlayerContext.Provider>
+  );
+}
+
+export function usePlayer(): PlayerContextValue {
+  const player = useContext(PlayerContext);
+  if (!player) throw new Error("usePlayer must be used inside a PlayerProvider");
+  return player;
+}
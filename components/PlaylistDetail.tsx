@@ -0,0 +1,64 @@
+"use client";
+import { useTrackPages } from "../lib/spotify/useTrackPages";
+import { CollectionHeader } from "./CollectionHeader";
+import { TrackList } from "./TrackList";
+import { LoadMore } from "./LoadMore";
+import type { Playlist, Track } from "../types/spotify";
+
+interface PlaylistDetailProps {
+  playlist: Playlist;
+  currentTrackId?: string;
+  onPlay: (track: Track) => void;
+  onPlayAll: (tracks: Track[]) => void;
+  onQueue: (tracks: Track[]) => void;
+  onBack: () => void;
+}
+
+// Playlist descriptions arrive as HTML fragments with entity-encoded text
+function plainDescription(description: string | null) {
+  if (!description) return "";
+  const text = description.replace(/<[^>]*>/g, "");
+  if (typeof DOMParser === "undefined") return text;
+  return new DOMParser().parseFromString(text, "text/html").documentElement.textContent ?? text;
+}
+
+export function PlaylistDetail({ playlist, currentTrackId, onPlay, onPlayAll, onQueue, onBack }: PlaylistDetailProps) {
+  const { items, total, loading, error, hasMore, loadMore } = useTrackPages(`/playlist/${encodeURIComponent(playlist.id)}`);
+  const playableTracks = items.filter((item) => item.playable).map((item) => item.track);
+
+  return (
+    <div className="mb-8">
+      <CollectionHeader
+        kind="Playlist"
+        title={playlist.name}
+        imageUrl={playlist.images?.[0]?.url}
+        description={plainDescription(playlist.description)}
+        meta={
+          <>
+            {playlist.owner.external_urls?.spotify ? (
+              <a
+                href={playlist.owner.external_urls.spotify}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-white hover:underline"
+              >
+                {playlist.owner.display_name ?? playlist.owner.id}
+              </a>
+            ) : (
+              playlist.owner.display_name ?? playlist.owner.id
+            )}{" "}
+            • {total ?? playlist.tracks.total} tracks
+          </>
+        }
+        tracks={playableTracks}
+        note={hasMore ? `${items.length} of ${total} loaded` : undefined}
+        onPlayAll={onPlayAll}
+        onQueue={onQueue}
+        onBack={onBack}
+      />
+
+      <TrackList items={items} currentTrackId={currentTrackId} onPlay={onPlay} onQueue={onQueue} />
+      <LoadMore hasMore={hasMore} loading={loading} error={error} onLoadMore={loadMore} loadingLabel="Loading tracks..." />
+    </div>
+  );
+}
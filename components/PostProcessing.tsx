@@ -0,0 +1,169 @@
+"use client";
+import { useFrame, useThree } from "@react-three/fiber";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Vector2, type WebGLRenderer } from "three";
+import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js";
+import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js";
+import { AfterimagePass } from "three/examples/jsm/postprocessing/AfterimagePass.js";
+import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPass.js";
+import { ShaderPass } from "three/examples/jsm/postprocessing/ShaderPass.js";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js";
+import { modulationLevel, type AudioFrame } from "./scenes";
+import type { EffectSettings, PostEffect, QualityTier, VisualPreset } from "../lib/presets/schema";
+
+type ResolvedTier = Exclude<QualityTier, "auto">;
+
+// What each tier can afford. Bloom's blur chain is the expensive part, so
+// low drops it and medium runs it at half resolution.
+const TIERS: Record<ResolvedTier, { effects: PostEffect[]; bloomScale: number }> = {
+  off: { effects: [], bloomScale: 0 },
+  low: { effects: ["trails", "chromaticAberration", "vignette"], bloomScale: 0 },
+  medium: { effects: ["bloom", "trails", "chromaticAberration", "vignette", "grain"], bloomScale: 0.5 },
+  high: { effects: ["bloom", "trails", "chromaticAberration", "vignette", "grain"], bloomScale: 1 },
+};
+
+const DOWNGRADE: Record<ResolvedTier, ResolvedTier> = { high: "medium", medium: "low", low: "off", off: "off" };
+
+// About three seconds' worth of frames under 30fps before auto steps down
+const SLOW_FRAME = 1 / 30;
+const SLOW_FRAME_LIMIT = 90;
+
+// Chromatic aberration, vignette and film grain in a single pass
+const FinishShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    uAberration: { value: 0 },
+    uVignette: { value: 0 },
+    uGrain: { value: 0 },
+    uTime: { value: 0 },
+  },
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform float uAberration;
+    uniform float uVignette;
+    uniform float uGrain;
+    uniform float uTime;
+    varying vec2 vUv;
+
+    float random(vec2 p) {
+      return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+    }
+
+    void main() {
+      // Red and blue pulled apart radially, more towards the edges
+      vec2 offset = (vUv - 0.5) * uAberration * 0.03;
+      vec4 base = texture2D(tDiffuse, vUv);
+      vec3 color = vec3(texture2D(tDiffuse, vUv + offset).r, base.g, texture2D(tDiffuse, vUv - offset).b);
+      color *= 1.0 - uVignette * smoothstep(0.3, 0.85, distance(vUv, vec2(0.5)));
+      color += (random(vUv + fract(uTime)) - 0.5) * uGrain * 0.3;
+      gl_FragColor = vec4(color, 1.0);
+    }
+  `,
+};
+
+// Best guess from the GPU and device before any frames have been timed.
+// Software rasterizers (no GPU, remote desktops, CI) get the cheapest tier.
+function detectTier(gl: WebGLRenderer): ResolvedTier {
+  const context = gl.getContext();
+  const debugInfo = context.getExtension("WEBGL_debug_renderer_info");
+  const renderer = debugInfo ? String(context.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL)) : "";
+  const cores = navigator.hardwareConcurrency ?? 4;
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 4;
+
+  if (/swiftshader|llvmpipe|softpipe|software|basic render/i.test(renderer)) return "low";
+  if (cores <= 2 || memory <= 2) return "low";
+  if (/mali|adreno|powervr|apple gpu/i.test(renderer) || cores <= 4) return "medium";
+  return "high";
+}
+
+interface PostProcessingProps {
+  frame: AudioFrame;
+  settings: VisualPreset["postProcessing"];
+  // Off for offline rendering, where frame times say nothing about the GPU
+  adaptive?: boolean;
+}
+
+// Takes over rendering from the Canvas and runs the scene through the
+// effect chain. Each effect's strength is its amount, pushed up per frame
+// by its modulation source.
+export function PostProcessing({ frame, settings, adaptive = true }: PostProcessingProps) {
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const camera = useThree((state) => state.camera);
+  const size = useThree((state) => state.size);
+  const dpr = useThree((state) => state.viewport.dpr);
+  const [autoTier, setAutoTier] = useState<ResolvedTier>(() => (adaptive ? detectTier(gl) : "high"));
+  const slowFrames = useRef(0);
+  const tier = TIERS[settings.quality === "auto" ? autoTier : settings.quality];
+
+  const chain = useMemo(() => {
+    const composer = new EffectComposer(gl);
+    const trails = new AfterimagePass();
+    const bloom = new UnrealBloomPass(new Vector2(256, 256), 0, 0.6, 0.15);
+    const finish = new ShaderPass(FinishShader);
+    composer.addPass(new RenderPass(scene, camera));
+    composer.addPass(trails);
+    composer.addPass(bloom);
+    composer.addPass(finish);
+    composer.addPass(new OutputPass());
+    return { composer, trails, bloom, finish };
+  }, [gl, scene, camera]);
+
+  useEffect(() => () => chain.composer.dispose(), [chain]);
+
+  useEffect(() => {
+    const { composer, bloom } = chain;
+    composer.setPixelRatio(dpr);
+    composer.setSize(size.width, size.height);
+    if (tier.bloomScale > 0) {
+      bloom.setSize(size.width * dpr * tier.bloomScale, size.height * dpr * tier.bloomScale);
+    }
+  }, [chain, size.width, size.height, dpr, tier.bloomScale]);
+
+  const strength = (effect: PostEffect, { amount, modulation }: EffectSettings) => {
+    if (!tier.effects.includes(effect) || amount === 0) return 0;
+    return amount * (1 + modulation.amount * modulationLevel(frame, modulation.source));
+  };
+
+  // Positive priority: runs after every scene has updated, and replaces
+  // the Canvas's own render
+  useFrame((state, delta) => {
+    if (adaptive && settings.quality === "auto" && autoTier !== "off") {
+      slowFrames.current = delta > SLOW_FRAME ? slowFrames.current + 1 : Math.max(0, slowFrames.current - 1);
+      if (slowFrames.current > SLOW_FRAME_LIMIT) {
+        slowFrames.current = 0;
+        setAutoTier(DOWNGRADE[autoTier]);
+      }
+    }
+
+    if (tier.effects.length === 0) {
+      state.gl.render(scene, camera);
+      return;
+    }
+
+    const { composer, trails, bloom, finish } = chain;
+    const trailStrength = Math.min(1, strength("trails", settings.trails));
+    trails.enabled = trailStrength > 0;
+    trails.damp = 0.8 + trailStrength * 0.17;
+
+    bloom.strength = strength("bloom", settings.bloom) * 1.5;
+    bloom.enabled = bloom.strength > 0;
+
+    const uniforms = finish.uniforms;
+    uniforms.uAberration.value = strength("chromaticAberration", settings.chromaticAberration);
+    uniforms.uVignette.value = Math.min(1, strength("vignette", settings.vignette));
+    uniforms.uGrain.value = strength("grain", settings.grain);
+    uniforms.uTime.value = frame.time;
+
+    composer.render(delta);
+  }, 1);
+
+  return null;
+}
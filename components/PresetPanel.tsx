@@ -0,0 +1,460 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { Section, Slider, selectClass } from "./PanelControls";
+import { scenes } from "./scenes";
+import { BUILT_IN_PRESETS } from "../lib/presets/builtins";
+import {
+  FFT_SIZES,
+  MODULATION_SOURCES,
+  POST_EFFECTS,
+  QUALITY_TIERS,
+  encodePreset,
+  type BandMapping,
+  type BandTarget,
+  type EffectSettings,
+  type FftSize,
+  type ModulationSource,
+  type PaletteSource,
+  type PostEffect,
+  type QualityTier,
+  type VisualPreset,
+} from "../lib/presets/schema";
+import {
+  deletePresetFromLibrary,
+  downloadPreset,
+  loadSavedPresets,
+  readPresetFile,
+  savePresetToLibrary,
+} from "../lib/presets/storage";
+
+interface PresetPanelProps {
+  preset: VisualPreset;
+  userKey: string;
+  onChange: (preset: VisualPreset) => void;
+  onClose: () => void;
+  // Message to show on open, e.g. why a shared preset couldn't be loaded
+  notice?: string | null;
+}
+
+interface ModulationControlProps {
+  label: string;
+  mapping: BandMapping;
+  onChange: (mapping: Partial<BandMapping>) => void;
+}
+
+function ModulationControl({ label, mapping, onChange }: ModulationControlProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>{label}</span>
+        <select
+          value={mapping.source}
+          onChange={(event) => onChange({ source: event.target.value as ModulationSource })}
+          className="bg-gray-800 text-white text-xs rounded px-2 py-0.5"
+        >
+          {MODULATION_SOURCES.map((source) => (
+            <option key={source} value={source}>
+              {source}
+            </option>
+          ))}
+        </select>
+      </div>
+      {mapping.source !== "none" && (
+        <Slider
+          label="Amount"
+          value={mapping.amount}
+          min={0}
+          max={2}
+          step={0.05}
+          onChange={(amount) => onChange({ amount })}
+        />
+      )}
+    </div>
+  );
+}
+
+const BAND_LABELS: Record<BandTarget, string> = {
+  intensity: "Reactivity",
+  speed: "Motion",
+  bloom: "Glow",
+};
+
+const EFFECT_LABELS: Record<PostEffect, string> = {
+  bloom: "Bloom",
+  trails: "Trails",
+  chromaticAberration: "Chromatic aberration",
+  vignette: "Vignette",
+  grain: "Film grain",
+};
+
+const QUALITY_LABELS: Record<QualityTier, string> = {
+  auto: "Auto (adapts to this device)",
+  off: "Off",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+// Live editor for the active preset. Every change applies immediately;
+// saving, exporting and sharing work on whatever is currently shown.
+export function PresetPanel({ preset, userKey, onChange, onClose, notice }: PresetPanelProps) {
+  const [saved, setSaved] = useState<VisualPreset[]>([]);
+  const [message, setMessage] = useState<string | null>(notice ?? null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setSaved(loadSavedPresets(userKey));
+  }, [userKey]);
+
+  useEffect(() => {
+    if (notice) setMessage(notice);
+  }, [notice]);
+
+  const update = <K extends keyof VisualPreset>(key: K, value: Partial<VisualPreset[K]>) => {
+    const current = preset[key];
+    onChange({
+      ...preset,
+      [key]: typeof current === "object" && current !== null ? { ...current, ...value } : value,
+    });
+  };
+
+  const updateBand = (target: BandTarget, value: Partial<BandMapping>) => {
+    update("bands", { [target]: { ...preset.bands[target], ...value } });
+  };
+
+  const updateEffect = (effect: PostEffect, value: Partial<EffectSettings>) => {
+    update("postProcessing", { [effect]: { ...preset.postProcessing[effect], ...value } });
+  };
+
+  const choosePreset = (name: string) => {
+    const chosen = [...saved, ...BUILT_IN_PRESETS].find((candidate) => candidate.name === name);
+    if (chosen) onChange(chosen);
+  };
+
+  const save = () => {
+    setSaved(savePresetToLibrary(userKey, preset));
+    setMessage(`Saved "${preset.name}"`);
+  };
+
+  const remove = () => {
+    setSaved(deletePresetFromLibrary(userKey, preset.name));
+    setMessage(`Deleted "${preset.name}"`);
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = await readPresetFile(file);
+      onChange(imported);
+      setMessage(`Imported "${imported.name}"`);
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+  };
+
+  const copyShareLink = async () => {
+    const url = new URL(window.location.href);
+    url.searchParams.set("preset", encodePreset(preset));
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setMessage("Share link copied");
+    } catch (error) {
+      console.error("Error copying share link:", error);
+      window.prompt("Copy this link to share the preset", url.toString());
+    }
+  };
+
+  const isSaved = saved.some((candidate) => candidate.name === preset.name);
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-80 bg-gray-950 border-l border-gray-800 z-40 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <h2 className="text-lg font-bold text-white">Preset</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close preset editor">
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        {message && <p className="text-xs text-gray-300 bg-gray-800 rounded px-2 py-1">{message}</p>}
+
+        <Section title="Library">
+          <select value="" onChange={(event) => choosePreset(event.target.value)} className={selectClass}>
+            <option value="" disabled>
+              Load a preset…
+            </option>
+            <optgroup label="Built in">
+              {BUILT_IN_PRESETS.map((candidate) => (
+                <option key={candidate.name} value={candidate.name}>
+                  {candidate.name}
+                </option>
+              ))}
+            </optgroup>
+            {saved.length > 0 && (
+              <optgroup label="Saved">
+                {saved.map((candidate) => (
+                  <option key={candidate.name} value={candidate.name}>
+                    {candidate.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          <input
+            value={preset.name}
+            onChange={(event) => onChange({ ...preset, name: event.target.value })}
+            className="w-full bg-gray-800 text-white text-sm rounded px-2 py-1"
+            placeholder="Preset name"
+            maxLength={60}
+          />
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={save}
+              disabled={!preset.name.trim()}
+              className="px-3 py-1 text-xs rounded-full bg-green-500 hover:bg-green-600 text-black disabled:opacity-50"
+            >
+              Save
+            </button>
+            {isSaved && (
+              <button onClick={remove} className="px-3 py-1 text-xs rounded-full bg-gray-800 hover:bg-gray-700 text-gray-300">
+                Delete
+              </button>
+            )}
+            <button
+              onClick={() => downloadPreset(preset)}
+              className="px-3 py-1 text-xs rounded-full bg-gray-800 hover:bg-gray-700 text-gray-300"
+            >
+              Export
+            </button>
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="px-3 py-1 text-xs rounded-full bg-gray-800 hover:bg-gray-700 text-gray-300"
+            >
+              Import
+            </button>
+            <button
+              onClick={copyShareLink}
+              className="px-3 py-1 text-xs rounded-full bg-gray-800 hover:bg-gray-700 text-gray-300"
+            >
+              Share link
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => {
+                importFile(event.target.files?.[0]);
+                event.target.value = "";
+              }}
+            />
+          </div>
+        </Section>
+
+        <Section title="Scene">
+          <select
+            value={preset.sceneId}
+            onChange={(event) => onChange({ ...preset, sceneId: event.target.value })}
+            className={selectClass}
+          >
+            {scenes.map((scene) => (
+              <option key={scene.id} value={scene.id}>
+                {scene.name}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-2 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={preset.scene.density === null}
+              onChange={(event) =>
+                update("scene", {
+                  density: event.target.checked
+                    ? null
+                    : scenes.find((scene) => scene.id === preset.sceneId)?.defaultConfig.density ?? 32,
+                })
+              }
+            />
+            <span>Automatic detail (bars, rings, particles)</span>
+          </label>
+          {preset.scene.density !== null && (
+            <Slider
+              label="Detail"
+              value={preset.scene.density}
+              min={preset.sceneId === "particle-field" ? 200 : 8}
+              max={preset.sceneId === "particle-field" ? 4000 : 256}
+              step={preset.sceneId === "particle-field" ? 100 : 1}
+              onChange={(density) => update("scene", { density })}
+              format={(value) => String(value)}
+            />
+          )}
+          <Slider label="Speed" value={preset.scene.speed} min={0} max={4} step={0.05} onChange={(speed) => update("scene", { speed })} />
+          <Slider
+            label="Intensity"
+            value={preset.scene.intensity}
+            min={0}
+            max={4}
+            step={0.05}
+            onChange={(intensity) => update("scene", { intensity })}
+          />
+        </Section>
+
+        <Section title="Palette">
+          <select
+            value={preset.palette.source}
+            onChange={(event) => update("palette", { source: event.target.value as PaletteSource })}
+            className={selectClass}
+          >
+            <option value="artwork">From album artwork</option>
+            <option value="track">From the track&apos;s mood and key</option>
+            <option value="custom">Custom colors</option>
+          </select>
+          {preset.palette.source === "custom" && (
+            <div className="flex space-x-2">
+              {preset.palette.colors.map((color, index) => (
+                <input
+                  key={index}
+                  type="color"
+                  value={color}
+                  onChange={(event) =>
+                    update("palette", {
+                      colors: preset.palette.colors.map((existing, i) => (i === index ? event.target.value : existing)),
+                    })
+                  }
+                  className="w-8 h-8 bg-transparent rounded cursor-pointer"
+                  aria-label={`Palette color ${index + 1}`}
+                />
+              ))}
+            </div>
+          )}
+          <Slider
+            label="Saturation"
+            value={preset.scene.saturation}
+            min={0}
+            max={2}
+            step={0.05}
+            onChange={(saturation) => update("scene", { saturation })}
+          />
+          <Slider
+            label="Color spread"
+            value={preset.scene.hueSpread}
+            min={0}
+            max={4}
+            step={0.05}
+            onChange={(hueSpread) => update("scene", { hueSpread })}
+          />
+        </Section>
+
+        <Section title="Audio analysis">
+          <label className="block text-xs text-gray-400">
+            <span className="block mb-1">FFT size</span>
+            <select
+              value={preset.audio.fftSize}
+              onChange={(event) => update("audio", { fftSize: Number(event.target.value) as FftSize })}
+              className={selectClass}
+            >
+              {FFT_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size} ({size / 2} bins)
+                </option>
+              ))}
+            </select>
+          </label>
+          <Slider
+            label="Smoothing"
+            value={preset.audio.smoothing}
+            min={0}
+            max={0.99}
+            step={0.01}
+            onChange={(smoothing) => update("audio", { smoothing })}
+          />
+        </Section>
+
+        <Section title="Camera">
+          <Slider
+            label="Distance"
+            value={preset.camera.distance}
+            min={1}
+            max={30}
+            step={0.1}
+            onChange={(distance) => update("camera", { distance })}
+          />
+          <Slider
+            label="Field of view"
+            value={preset.camera.fov}
+            min={20}
+            max={120}
+            step={1}
+            onChange={(fov) => update("camera", { fov })}
+            format={(value) => `${value}°`}
+          />
+          <Slider
+            label="Height"
+            value={preset.camera.height}
+            min={-10}
+            max={10}
+            step={0.1}
+            onChange={(height) => update("camera", { height })}
+          />
+          <Slider
+            label="Orbit"
+            value={preset.camera.orbitSpeed}
+            min={-2}
+            max={2}
+            step={0.05}
+            onChange={(orbitSpeed) => update("camera", { orbitSpeed })}
+          />
+        </Section>
+
+        <Section title="Post-processing">
+          <label className="block text-xs text-gray-400">
+            <span className="block mb-1">Quality</span>
+            <select
+              value={preset.postProcessing.quality}
+              onChange={(event) => update("postProcessing", { quality: event.target.value as QualityTier })}
+              className={selectClass}
+            >
+              {QUALITY_TIERS.map((tier) => (
+                <option key={tier} value={tier}>
+                  {QUALITY_LABELS[tier]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {POST_EFFECTS.map((effect) => (
+            <div key={effect} className="space-y-2">
+              <Slider
+                label={EFFECT_LABELS[effect]}
+                value={preset.postProcessing[effect].amount}
+                min={0}
+                max={1}
+                step={0.01}
+                onChange={(amount) => updateEffect(effect, { amount })}
+              />
+              {preset.postProcessing[effect].amount > 0 && (
+                <ModulationControl
+                  label="Driven by"
+                  mapping={preset.postProcessing[effect].modulation}
+                  onChange={(modulation) =>
+                    updateEffect(effect, { modulation: { ...preset.postProcessing[effect].modulation, ...modulation } })
+                  }
+                />
+              )}
+            </div>
+          ))}
+        </Section>
+
+        <Section title="Band mappings">
+          {(Object.keys(BAND_LABELS) as BandTarget[]).map((target) => (
+            <ModulationControl
+              key={target}
+              label={BAND_LABELS[target]}
+              mapping={preset.bands[target]}
+              onChange={(mapping) => updateBand(target, mapping)}
+            />
+          ))}
+        </Section>
+      </div>
+    </div>
+  );
+}
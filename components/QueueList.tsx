@@ -0,0 +1,118 @@
+"use client";
+import { useState } from "react";
+import type { PlayableTrack } from "../lib/playback/types";
+import type { QueueState } from "../lib/playback/queue";
+
+interface QueueTrack extends PlayableTrack {
+  name: string;
+  artists: { name: string }[];
+}
+
+interface QueueListProps<T extends QueueTrack> {
+  queue: QueueState<T>;
+  onJump: (index: number) => void;
+  onRemove: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+  onClear: () => void;
+}
+
+// The tracks after the loaded one, reorderable by dragging; indexes passed
+// back are queue indexes
+export function QueueList<T extends QueueTrack>({ queue, onJump, onRemove, onMove, onClear }: QueueListProps<T>) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const upcoming = queue.items.slice(queue.index + 1);
+  if (upcoming.length === 0) return null;
+
+  const first = queue.index + 1;
+  const last = queue.items.length - 1;
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400">
+          Up next · {upcoming.length}
+          {queue.shuffle && " · shuffled"}
+        </h3>
+        <button onClick={onClear} className="text-xs text-gray-500 hover:text-white">
+          Clear
+        </button>
+      </div>
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {upcoming.map((track, offset) => {
+          const index = first + offset;
+          return (
+            <div
+              key={`${track.id}:${index}`}
+              draggable
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move";
+                setDragIndex(index);
+              }}
+              onDragOver={(event) => {
+                if (dragIndex === null) return;
+                event.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (dragIndex !== null) onMove(dragIndex, index);
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              className={`group flex items-center space-x-2 px-2 py-1 rounded hover:bg-gray-800 cursor-pointer ${
+                dropIndex === index && dragIndex !== index ? "ring-1 ring-green-500" : ""
+              } ${dragIndex === index ? "opacity-50" : ""}`}
+              onClick={() => onJump(index)}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">{track.name}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {track.artists.map((artist) => artist.name).join(", ")}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100">
+                <button
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onMove(index, index - 1);
+                  }}
+                  disabled={index === first}
+                  className="text-xs text-gray-500 hover:text-white disabled:text-gray-700"
+                  title="Move up"
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onMove(index, index + 1);
+                  }}
+                  disabled={index === last}
+                  className="text-xs text-gray-500 hover:text-white disabled:text-gray-700"
+                  title="Move down"
+                >
+                  ▼
+                </button>
+                <button
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onRemove(index);
+                  }}
+                  className="text-xs text-gray-500 hover:text-white"
+                  title="Remove from queue"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
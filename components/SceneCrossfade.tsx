@@ -0,0 +1,95 @@
+"use client";
+import { createPortal, useFrame, useThree } from "@react-three/fiber";
+import { useEffect, useMemo, useState, type MutableRefObject, type ReactNode } from "react";
+import { HalfFloatType, Scene, ShaderMaterial, WebGLRenderTarget } from "three";
+
+interface SceneCrossfadeProps {
+  // Read every frame: 1 shows the outgoing scene fully, 0 hides it
+  opacity: MutableRefObject<number>;
+  children: ReactNode;
+}
+
+// Full-screen quad straight in clip space, so it covers the view from any
+// camera. Tone mapping and color space match the built-in materials.
+const vertexShader = /* glsl */ `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform sampler2D tScene;
+  uniform float uOpacity;
+  varying vec2 vUv;
+  void main() {
+    vec4 color = texture2D(tScene, vUv);
+    gl_FragColor = vec4(color.rgb, color.a * uOpacity);
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
+
+// Keeps the outgoing scene of a transition alive in its own three.js scene,
+// renders it to a texture with the main camera and lays that over the
+// incoming scene while it fades out
+export function SceneCrossfade({ opacity, children }: SceneCrossfadeProps) {
+  const camera = useThree((state) => state.camera);
+  const size = useThree((state) => state.size);
+  const dpr = useThree((state) => state.viewport.dpr);
+  const [portal] = useState(() => new Scene());
+  const target = useMemo(() => new WebGLRenderTarget(1, 1, { type: HalfFloatType }), []);
+  const material = useMemo(
+    () =>
+      new ShaderMaterial({
+        uniforms: { tScene: { value: target.texture }, uOpacity: { value: 0 } },
+        vertexShader,
+        fragmentShader,
+        transparent: true,
+        depthTest: false,
+        depthWrite: false,
+      }),
+    [target]
+  );
+
+  useEffect(
+    () => () => {
+      target.dispose();
+      material.dispose();
+    },
+    [target, material]
+  );
+
+  useEffect(() => {
+    target.setSize(size.width * dpr, size.height * dpr);
+  }, [target, size.width, size.height, dpr]);
+
+  // Before the main render, which must stay automatic when post-processing
+  // is off, so the priority stays below zero
+  useFrame(({ gl }) => {
+    material.uniforms.uOpacity.value = opacity.current;
+    const previous = gl.getRenderTarget();
+    gl.setRenderTarget(target);
+    gl.clear();
+    gl.render(portal, camera);
+    gl.setRenderTarget(previous);
+  }, -0.5);
+
+  return (
+    <>
+      {createPortal(
+        <>
+          {/* The page's lights live in the main scene, so the portal needs its own */}
+          <ambientLight intensity={0.5} />
+          <pointLight position={[10, 10, 10]} />
+          {children}
+        </>,
+        portal
+      )}
+      <mesh frustumCulled={false} renderOrder={1000} material={material}>
+        <planeGeometry args={[2, 2]} />
+      </mesh>
+    </>
+  );
+}
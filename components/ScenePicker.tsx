@@ -0,0 +1,27 @@
+"use client";
+import { scenes } from "./scenes";
+
+interface ScenePickerProps {
+  value: string;
+  onChange: (sceneId: string) => void;
+}
+
+export function ScenePicker({ value, onChange }: ScenePickerProps) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {scenes.map((scene) => (
+        <button
+          key={scene.id}
+          onClick={() => onChange(scene.id)}
+          className={`px-2 py-1 text-xs rounded-full transition-colors ${
+            value === scene.id
+              ? "bg-white text-black"
+              : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+          }`}
+        >
+          {scene.name}
+        </button>
+      ))}
+    </div>
+  );
+}
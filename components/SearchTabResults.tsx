@@ -0,0 +1,180 @@
+"use client";
+import { useMemo } from "react";
+import { useSearchPages } from "../lib/spotify/useSearchPages";
+import { isTrackPlayable } from "../lib/spotify/normalize";
+import { MediaCard } from "./MediaCard";
+import { TrackList } from "./TrackList";
+import { LoadMore } from "./LoadMore";
+import type { Playlist, PublicUser, SearchType, Track } from "../types/spotify";
+
+export const SEARCH_TABS = [
+  "All",
+  "Playlists",
+  "Albums",
+  "Artists",
+  "Songs",
+  "Podcasts & Shows",
+  "Profiles",
+  "Audiobooks",
+] as const;
+
+export type SearchTab = (typeof SEARCH_TABS)[number];
+
+// Spotify search has no user type, so profiles are gathered from the
+// owners of matching playlists
+const TAB_TYPES: Record<Exclude<SearchTab, "All">, SearchType> = {
+  Playlists: "playlist",
+  Albums: "album",
+  Artists: "artist",
+  Songs: "track",
+  "Podcasts & Shows": "show",
+  Profiles: "playlist",
+  Audiobooks: "audiobook",
+};
+
+interface SearchTabResultsProps {
+  tab: Exclude<SearchTab, "All">;
+  query: string;
+  currentTrackId?: string;
+  onPlay: (track: Track) => void;
+  onQueue: (tracks: Track[]) => void;
+  onOpenPlaylist: (playlist: Playlist) => void;
+  onOpenAlbum: (id: string) => void;
+  onOpenArtist: (id: string) => void;
+}
+
+const GRID = "grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4";
+
+export function SearchTabResults({
+  tab,
+  query,
+  currentTrackId,
+  onPlay,
+  onQueue,
+  onOpenPlaylist,
+  onOpenAlbum,
+  onOpenArtist,
+}: SearchTabResultsProps) {
+  const type = TAB_TYPES[tab];
+  const tracks = useSearchPages(query, type === "track" ? "track" : null);
+  const albums = useSearchPages(query, type === "album" ? "album" : null);
+  const artists = useSearchPages(query, type === "artist" ? "artist" : null);
+  const playlists = useSearchPages(query, type === "playlist" ? "playlist" : null);
+  const shows = useSearchPages(query, type === "show" ? "show" : null);
+  const audiobooks = useSearchPages(query, type === "audiobook" ? "audiobook" : null);
+  const pages = { track: tracks, album: albums, artist: artists, playlist: playlists, show: shows, audiobook: audiobooks }[type];
+
+  const profiles = useMemo(() => {
+    const owners = new Map<string, PublicUser>();
+    playlists.items.forEach((playlist) => owners.set(playlist.owner.id, playlist.owner));
+    return [...owners.values()];
+  }, [playlists.items]);
+
+  if (!query.trim()) {
+    return <p className="text-sm text-gray-400 py-8 text-center">Search to see {tab.toLowerCase()}</p>;
+  }
+
+  return (
+    <div className="mb-8">
+      {tab === "Songs" && (
+        <TrackList
+          items={tracks.items.map((track) => ({ track, playable: isTrackPlayable(track) }))}
+          currentTrackId={currentTrackId}
+          onPlay={onPlay}
+          onQueue={onQueue}
+        />
+      )}
+
+      {tab === "Playlists" && (
+        <div className={GRID}>
+          {playlists.items.map((playlist) => (
+            <MediaCard
+              key={playlist.id}
+              title={playlist.name}
+              subtitle={`By ${playlist.owner.display_name ?? playlist.owner.id}`}
+              imageUrl={playlist.images?.[0]?.url}
+              onClick={() => onOpenPlaylist(playlist)}
+            />
+          ))}
+        </div>
+      )}
+
+      {tab === "Albums" && (
+        <div className={GRID}>
+          {albums.items.map((album) => (
+            <MediaCard
+              key={album.id}
+              title={album.name}
+              subtitle={`${album.release_date.slice(0, 4)} • ${album.artists.map((artist) => artist.name).join(", ")}`}
+              imageUrl={album.images[0]?.url}
+              onClick={() => onOpenAlbum(album.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {tab === "Artists" && (
+        <div className={GRID}>
+          {artists.items.map((artist) => (
+            <MediaCard
+              key={artist.id}
+              title={artist.name}
+              subtitle="Artist"
+              imageUrl={artist.images?.[0]?.url}
+              round
+              onClick={() => onOpenArtist(artist.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {tab === "Podcasts & Shows" && (
+        <div className={GRID}>
+          {shows.items.map((show) => (
+            <MediaCard
+              key={show.id}
+              title={show.name}
+              subtitle={show.publisher}
+              imageUrl={show.images[0]?.url}
+              href={show.external_urls.spotify}
+            />
+          ))}
+        </div>
+      )}
+
+      {tab === "Audiobooks" && (
+        <div className={GRID}>
+          {audiobooks.items.map((audiobook) => (
+            <MediaCard
+              key={audiobook.id}
+              title={audiobook.name}
+              subtitle={audiobook.authors.map((author) => author.name).join(", ")}
+              imageUrl={audiobook.images[0]?.url}
+              href={audiobook.external_urls.spotify}
+            />
+          ))}
+        </div>
+      )}
+
+      {tab === "Profiles" && (
+        <div className={GRID}>
+          {profiles.map((profile) => (
+            <MediaCard
+              key={profile.id}
+              title={profile.display_name ?? profile.id}
+              subtitle="Profile"
+              imageUrl={profile.images?.[0]?.url}
+              round
+              href={profile.external_urls.spotify}
+            />
+          ))}
+        </div>
+      )}
+
+      {!pages.loading && !pages.error && pages.items.length === 0 && (
+        <p className="text-sm text-gray-400 py-8 text-center">No {tab.toLowerCase()} found for “{query}”</p>
+      )}
+      <LoadMore hasMore={pages.hasMore} loading={pages.loading} error={pages.error} onLoadMore={pages.loadMore} />
+    </div>
+  );
+}
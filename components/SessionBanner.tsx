@@ -0,0 +1,39 @@
+"use client";
+import { useSession } from "next-auth/react";
+import { usePathname } from "next/navigation";
+import { useEffect, useState } from "react";
+import { isSessionExpired, onSessionExpiredChange, reconnectSpotify } from "../lib/spotify/session";
+
+// Shown over any page once the Spotify session can't be refreshed. It
+// doesn't block anything: local files and previews keep playing, and
+// reconnecting happens in a popup so nothing on the page is lost.
+export function SessionBanner() {
+  const { data: session, update } = useSession();
+  const pathname = usePathname();
+  const [expired, setExpired] = useState(isSessionExpired);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => onSessionExpiredChange(setExpired), []);
+
+  useEffect(() => {
+    if (expired) setDismissed(false);
+  }, [expired]);
+
+  const needsReconnect = expired || session?.error === "RefreshAccessTokenError";
+  if (!session || !needsReconnect || dismissed || pathname === "/auth/reconnect") return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-3 bg-gray-900 border border-gray-700 rounded-full pl-4 pr-2 py-2 shadow-lg">
+      <span className="text-sm text-gray-300">Your Spotify session has expired.</span>
+      <button
+        onClick={() => reconnectSpotify(() => update())}
+        className="px-3 py-1 text-xs rounded-full bg-green-500 hover:bg-green-600 text-black font-medium"
+      >
+        Reconnect
+      </button>
+      <button onClick={() => setDismissed(true)} className="text-gray-400 hover:text-white px-1" aria-label="Dismiss">
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 "use client";
 import { SessionProvider } from "next-auth/react";
 
+// Polling the session refreshes the Spotify token server-side; every four
+// minutes keeps it inside the five-minute refresh margin, so it's renewed
+// before it ever expires
+const SESSION_REFETCH_SECONDS = 4 * 60;
+
 export function SessionWrapper({ children }: { children: React.ReactNode }) {
-  return <SessionProvider>{children}</SessionProvider>;
+  return <SessionProvider refetchInterval={SESSION_REFETCH_SECONDS}>{children}</SessionProvider>;
 } 
\ No newline at end of file
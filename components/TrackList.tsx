@@ -0,0 +1,54 @@
+"use client";
+import { formatDuration } from "../lib/format";
+import type { Track } from "../types/spotify";
+
+export interface TrackListItem {
+  track: Track;
+  playable: boolean;
+}
+
+interface TrackListProps {
+  items: TrackListItem[];
+  currentTrackId?: string;
+  onPlay: (track: Track) => void;
+  onQueue: (tracks: Track[]) => void;
+}
+
+// Numbered track rows shared by the playlist, album, artist and song views
+export function TrackList({ items, currentTrackId, onPlay, onQueue }: TrackListProps) {
+  return (
+    <div className="space-y-1">
+      {items.map(({ track, playable }, index) => (
+        <div
+          key={`${track.id}:${index}`}
+          className={`flex items-center space-x-4 p-2 rounded transition-colors ${
+            playable ? "hover:bg-gray-800 cursor-pointer" : "opacity-50 cursor-default"
+          } ${currentTrackId === track.id ? "bg-gray-800" : ""}`}
+          onClick={() => playable && onPlay(track)}
+          title={playable ? undefined : "Not available in your region"}
+        >
+          <span className="w-6 text-right text-sm text-gray-500 tabular-nums">{index + 1}</span>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium truncate text-white">{track.name}</p>
+            <p className="text-sm text-gray-400 truncate">
+              {track.artists.map((artist) => artist.name).join(", ")}
+            </p>
+          </div>
+          {playable && (
+            <button
+              onClick={(event) => {
+                event.stopPropagation();
+                onQueue([track]);
+              }}
+              className="text-xs text-gray-500 hover:text-white"
+              title="Add to queue"
+            >
+              + Queue
+            </button>
+          )}
+          <span className="text-sm text-gray-400 tabular-nums">{formatDuration(track.duration_ms)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+import type { RepeatMode } from "../lib/playback/queue";
+
+interface TransportControlsProps {
+  isPlaying: boolean;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  hasPrevious: boolean;
+  hasNext: boolean;
+  onTogglePlay: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onToggleShuffle: () => void;
+  onCycleRepeat: () => void;
+}
+
+const REPEAT_TITLES: Record<RepeatMode, string> = {
+  off: "Repeat off",
+  all: "Repeat all",
+  one: "Repeat one",
+};
+
+function toggleClass(active: boolean) {
+  return `relative w-8 h-8 flex items-center justify-center transition-colors ${
+    active ? "text-green-500 hover:text-green-400" : "text-gray-400 hover:text-white"
+  }`;
+}
+
+export function TransportControls({
+  isPlaying,
+  shuffle,
+  repeat,
+  hasPrevious,
+  hasNext,
+  onTogglePlay,
+  onPrevious,
+  onNext,
+  onToggleShuffle,
+  onCycleRepeat,
+}: TransportControlsProps) {
+  return (
+    <div className="flex items-center space-x-4">
+      <button onClick={onToggleShuffle} className={toggleClass(shuffle)} title={shuffle ? "Shuffle on" : "Shuffle off"}>
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M16 3h5v5M4 20L21 3M21 16v5h-5M15 15l6 6M4 4l5 5" />
+        </svg>
+      </button>
+      <button
+        onClick={onPrevious}
+        disabled={!hasPrevious}
+        className="w-8 h-8 flex items-center justify-center text-gray-400 hover:text-white disabled:text-gray-700 transition-colors"
+        title="Previous"
+      >
+        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+          <path d="M4 4a1 1 0 012 0v5.2l8.4-5.6A1 1 0 0116 4.4v11.2a1 1 0 01-1.6.8L6 10.8V16a1 1 0 11-2 0V4z" />
+        </svg>
+      </button>
+      <button
+        onClick={onTogglePlay}
+        className="w-8 h-8 bg-white hover:scale-105 rounded-full flex items-center justify-center transition-transform"
+        title={isPlaying ? "Pause" : "Play"}
+      >
+        {isPlaying ? (
+          <svg className="w-4 h-4 text-black" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+          </svg>
+        ) : (
+          <svg className="w-4 h-4 text-black ml-0.5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+          </svg>
+        )}
+      </button>
+      <button
+        onClick={onNext}
+        disabled={!hasNext}
+        className="w-8 h-8 flex items-center justify-center text-gray-400 hover:text-white disabled:text-gray-700 transition-colors"
+        title="Next"
+      >
+        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+          <path d="M16 4a1 1 0 00-2 0v5.2L5.6 3.6A1 1 0 004 4.4v11.2a1 1 0 001.6.8l8.4-5.6V16a1 1 0 102 0V4z" />
+        </svg>
+      </button>
+      <button onClick={onCycleRepeat} className={toggleClass(repeat !== "off")} title={REPEAT_TITLES[repeat]}>
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M17 2l4 4-4 4M3 11V9a3 3 0 013-3h15M7 22l-4-4 4-4M21 13v2a3 3 0 01-3 3H3" />
+        </svg>
+        {repeat === "one" && <span className="absolute -top-0.5 -right-0.5 text-[9px] font-bold">1</span>}
+      </button>
+    </div>
+  );
+}
+
+interface VolumeControlProps {
+  volume: number;
+  onChange: (volume: number) => void;
+}
+
+export function VolumeControl({ volume, onChange }: VolumeControlProps) {
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={() => onChange(volume > 0 ? 0 : 0.8)}
+        className="text-gray-400 hover:text-white transition-colors"
+        title={volume > 0 ? "Mute" : "Unmute"}
+      >
+        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217z" clipRule="evenodd" />
+          {volume > 0 && <path d="M12.5 7a4 4 0 010 6l-1-1a2.6 2.6 0 000-4l1-1z" />}
+        </svg>
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.01}
+        value={volume}
+        onChange={(event) => onChange(Number(event.target.value))}
+        className="w-24 accent-green-500"
+        aria-label="Volume"
+      />
+    </div>
+  );
+}
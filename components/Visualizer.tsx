@@ -1,171 +1,262 @@
 "use client";
 import { useFrame } from '@react-three/fiber';
-import { useRef, useEffect, useState } from 'react';
-import { Mesh, Group } from 'three';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Color, PerspectiveCamera } from 'three';
+import {
+  getScene,
+  createScenePalette,
+  huePalette,
+  modulationLevel,
+  BeatDetectorContext,
+  type AudioFrame,
+  type SceneConfig,
+  type SceneDefinition,
+} from './scenes';
+import { PostProcessing } from './PostProcessing';
+import { SceneCrossfade } from './SceneCrossfade';
+import { BeatDetector } from '../lib/audio/BeatDetector';
+import { readAnalysisAt, type TrackAnalysis } from '../lib/analysis/trackAnalysis';
+import type { Choreography } from '../lib/choreography/schema';
+import { createChoreographyPosition, readChoreographyAt } from '../lib/choreography/timeline';
+import type { SignalSource } from '../lib/audio/SignalSource';
+import type { PaletteTheme } from '../lib/palette/extract';
+import { DEFAULT_PRESET, type BandTarget, type VisualPreset } from '../lib/presets/schema';
+import { applyVisualMapping, type VisualMapping } from '../lib/visualMapping';
 
 interface VisualizerProps {
-  audioElement?: HTMLAudioElement | null;
-  demoMode?: boolean;
+  source?: SignalSource | null;
+  preset?: VisualPreset;
+  config?: Partial<SceneConfig>;
+  // Track-driven look; the preset scales it and explicit `config` values
+  // win over both
+  mapping?: VisualMapping | null;
+  // Artwork colors; without them the palette is built from the config hue
+  palette?: PaletteTheme | null;
+  // Let the post-processing quality adapt to measured frame times
+  adaptiveQuality?: boolean;
+  // Precomputed structure of the playing audio, read at getPosition (ms)
+  // so scenes can anticipate sections
+  analysis?: TrackAnalysis | null;
+  getPosition?: () => number;
+  // Scene, camera and palette timeline for the track, also read at getPosition
+  choreography?: Choreography | null;
+  onTempoChange?: (bpm: number | null) => void;
 }
 
-export function Visualizer({ audioElement, demoMode = false }: VisualizerProps) {
-  const groupRef = useRef<Group>(null);
-  const meshRefs = useRef<Mesh[]>([]);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const [frequencyData, setFrequencyData] = useState<Uint8Array>(new Uint8Array(128));
-  const [time, setTime] = useState(0);
+// Palette easing rate; a new track's colors are mostly in after ~1.5s
+const PALETTE_EASING = 2;
+// The beat pulse fades out in about a quarter of a second
+const BEAT_DECAY = 4;
+const BAND_TARGETS: BandTarget[] = ['intensity', 'speed', 'bloom'];
 
+function createFrame(fftSize: number): AudioFrame {
+  return {
+    frequencyData: new Uint8Array(fftSize / 2),
+    timeDomainData: new Uint8Array(fftSize).fill(128),
+    rms: 0,
+    spectralCentroid: 0,
+    bass: 0,
+    mid: 0,
+    treble: 0,
+    time: 0,
+    average: 0,
+    beat: 0,
+    section: 0,
+    buildup: 0,
+    beatPhase: 0,
+  };
+}
+
+// Preset multipliers on top of the scene's (track-mapped) config. Post
+// bloom at its 0.5 default leaves the scene's own glow as is.
+function applyPreset(config: SceneConfig, preset: VisualPreset): SceneConfig {
+  return {
+    ...config,
+    density: preset.scene.density ?? config.density,
+    speed: config.speed * preset.scene.speed,
+    intensity: config.intensity * preset.scene.intensity,
+    saturation: config.saturation * preset.scene.saturation,
+    hueSpread: config.hueSpread * preset.scene.hueSpread,
+    bloom: config.bloom * preset.postProcessing.bloom.amount * 2,
+  };
+}
+
+function baseSceneConfig(
+  scene: SceneDefinition,
+  preset: VisualPreset,
+  mapping: VisualMapping | null | undefined,
+  config: Partial<SceneConfig> | undefined
+): SceneConfig {
+  const mappedConfig = mapping ? applyVisualMapping(scene.defaultConfig, mapping) : scene.defaultConfig;
+  return { ...applyPreset(mappedConfig, preset), ...config };
+}
+
+export function Visualizer({
+  source,
+  preset = DEFAULT_PRESET,
+  config,
+  mapping,
+  palette,
+  adaptiveQuality = true,
+  analysis,
+  getPosition,
+  choreography,
+  onTempoChange,
+}: VisualizerProps) {
+  // One frame object per FFT size, refilled in place every tick. Scenes
+  // hold on to it and read it from their own useFrame, so audio never goes
+  // through React state.
+  const { fftSize } = preset.audio;
+  const frame = useMemo(() => createFrame(fftSize), [fftSize]);
+  const [beatDetector] = useState(() => new BeatDetector());
+  const reportedBpm = useRef<number | null>(null);
+  const sourceStart = useRef<number | null>(null);
+  const [livePalette] = useState(createScenePalette);
+  const paletteReady = useRef(false);
+  const orbitAngle = useRef(0);
+  const [shiftedColor] = useState(() => new Color());
+  const [timeline] = useState(createChoreographyPosition);
+  // Which scenes the choreography has on stage; only changes at cue
+  // boundaries and the end of each crossfade
+  const [staging, setStaging] = useState<{ current: string; outgoing: string | null }>({
+    current: preset.sceneId,
+    outgoing: null,
+  });
+  const stagingRef = useRef(staging);
+  const crossfade = useRef(0);
+
+  const choreographed = Boolean(choreography && getPosition);
+  const scene = getScene(choreographed ? staging.current : preset.sceneId);
+  const Scene = scene.component;
+  const baseConfig = baseSceneConfig(scene, preset, mapping, config);
+  // Scenes get a copy that band mappings modulate every frame; it's only
+  // replaced when the underlying values change
+  const configKey = JSON.stringify(baseConfig);
+  const sceneConfig = useMemo(() => JSON.parse(configKey) as SceneConfig, [configKey]);
+  const outgoingScene = choreographed && staging.outgoing ? getScene(staging.outgoing) : null;
+  const OutgoingScene = outgoingScene?.component;
+  const outgoingBaseConfig = outgoingScene ? baseSceneConfig(outgoingScene, preset, mapping, config) : baseConfig;
+  const outgoingKey = JSON.stringify(outgoingBaseConfig);
+  const outgoingConfig = useMemo(() => JSON.parse(outgoingKey) as SceneConfig, [outgoingKey]);
+  const hue = baseConfig.hue;
+  const targetPalette = useMemo(
+    () => (palette ? palette.colors.map((color) => new Color(color)) : huePalette(hue)),
+    [palette, hue]
+  );
+
+  // Onsets from one source say nothing about the next, and each source
+  // starts from its own time zero
   useEffect(() => {
-    if (!audioElement || demoMode) {
-      // In demo mode or without audio, we'll use synthetic data
-      return;
+    beatDetector.reset();
+    sourceStart.current = null;
+  }, [beatDetector, source]);
+
+  // Negative priority runs before the scenes' own frame callbacks
+  useFrame((state, delta) => {
+    const time = state.clock.elapsedTime;
+    frame.time = time;
+
+    // The choreography, when there is one, takes over the camera path and
+    // the scene, and shifts the palette
+    let { distance, height } = preset.camera;
+    let angle: number;
+    let hueShift = 0;
+    if (choreography && getPosition) {
+      readChoreographyAt(choreography, getPosition() / 1000, timeline);
+      ({ distance, height } = timeline);
+      angle = timeline.orbitAngle;
+      hueShift = timeline.hueShift;
+
+      const cue = choreography.cues[timeline.cueIndex];
+      const previous = choreography.cues[timeline.cueIndex - 1];
+      const outgoing = previous && timeline.progress < 1 && previous.sceneId !== cue.sceneId ? previous.sceneId : null;
+      crossfade.current = 1 - timeline.progress;
+      if (stagingRef.current.current !== cue.sceneId || stagingRef.current.outgoing !== outgoing) {
+        stagingRef.current = { current: cue.sceneId, outgoing };
+        setStaging(stagingRef.current);
+      }
+    } else {
+      orbitAngle.current += delta * preset.camera.orbitSpeed;
+      angle = orbitAngle.current;
     }
 
-    try {
-      const audioContext = new AudioContext();
-      const source = audioContext.createMediaElementSource(audioElement);
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
-      analyser.smoothingTimeConstant = 0.8;
-      analyserRef.current = analyser;
-      source.connect(analyser);
-      analyser.connect(audioContext.destination);
-
-      // Initialize frequency data array
-      setFrequencyData(new Uint8Array(analyser.frequencyBinCount));
-
-      return () => {
-        audioContext.close();
-      };
-    } catch (error) {
-      console.error("Error setting up audio context:", error);
+    // The first palette is applied as is; later ones blend in
+    const blend = paletteReady.current ? 1 - Math.exp(-delta * PALETTE_EASING) : 1;
+    livePalette.colors.forEach((color, index) => {
+      shiftedColor.copy(targetPalette[index % targetPalette.length]).offsetHSL(hueShift, 0, 0);
+      color.lerp(shiftedColor, blend);
+    });
+    paletteReady.current = true;
+
+    // Camera rig: placed fresh every frame, so scenes may nudge it freely
+    const { camera } = state;
+    camera.position.set(Math.sin(angle) * distance, height, Math.cos(angle) * distance);
+    camera.lookAt(0, 0, 0);
+    if (camera instanceof PerspectiveCamera && camera.fov !== preset.camera.fov) {
+      camera.fov = preset.camera.fov;
+      camera.updateProjectionMatrix();
     }
-  }, [audioElement, demoMode]);
-
-  useFrame((state) => {
-    if (!groupRef.current) return;
-    
-    setTime(state.clock.elapsedTime);
-    
-    let dataArray: Uint8Array;
-    let avg = 0;
-    
-    if (analyserRef.current && !demoMode && audioElement?.src) {
-      // Use real audio data
-      dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-      analyserRef.current.getByteFrequencyData(dataArray);
-      setFrequencyData(dataArray);
-      avg = dataArray.reduce((sum, value) => sum + value, 0) / dataArray.length;
+
+    if (source?.isActive && source.fftSize === fftSize) {
+      if (sourceStart.current === null) sourceStart.current = time;
+      source.read(frame, time - sourceStart.current);
     } else {
-      // Use demo/synthetic data
-      dataArray = new Uint8Array(128);
-      for (let i = 0; i < dataArray.length; i++) {
-        // Create synthetic frequency data with some randomness and patterns
-        const wave1 = Math.sin(time * 2 + i * 0.1) * 30;
-        const wave2 = Math.sin(time * 0.5 + i * 0.05) * 50;
-        const noise = Math.random() * 20;
-        dataArray[i] = Math.max(0, Math.min(255, 80 + wave1 + wave2 + noise));
-      }
-      setFrequencyData(dataArray);
-      avg = dataArray.reduce((sum, value) => sum + value, 0) / dataArray.length;
+      // Nothing to listen to: let the last frame fade out
+      frame.frequencyData.forEach((value, i) => {
+        frame.frequencyData[i] = value * 0.9;
+      });
+      frame.timeDomainData.fill(128);
+      frame.rms = 0;
+      frame.bass *= 0.9;
+      frame.mid *= 0.9;
+      frame.treble *= 0.9;
     }
-    
-    // Rotate the entire group
-    groupRef.current.rotation.y += 0.005 + (avg / 10000);
-    
-    // Update individual meshes
-    meshRefs.current.forEach((mesh, index) => {
-      if (mesh && dataArray[index] !== undefined) {
-        const frequency = dataArray[index] / 255;
-        
-        // Scale based on frequency
-        mesh.scale.y = 0.1 + frequency * 3;
-        mesh.scale.x = 0.5 + frequency * 0.5;
-        mesh.scale.z = 0.5 + frequency * 0.5;
-        
-        // Color based on frequency
-        if (mesh.material && 'color' in mesh.material && mesh.material.color) {
-          const hue = (index / dataArray.length) * 360;
-          const saturation = 50 + frequency * 50;
-          const lightness = 30 + frequency * 40;
-          (mesh.material.color as any).setHSL(hue / 360, saturation / 100, lightness / 100);
-        }
-        
-        // Position
-        const angle = (index / dataArray.length) * Math.PI * 2;
-        const radius = 2 + frequency;
-        mesh.position.x = Math.cos(angle) * radius;
-        mesh.position.z = Math.sin(angle) * radius;
-        mesh.position.y = frequency * 2 - 1;
-        
-        // Rotation
-        mesh.rotation.x += frequency * 0.1;
-        mesh.rotation.z += frequency * 0.05;
-      }
+
+    let sum = 0;
+    for (let i = 0; i < frame.frequencyData.length; i++) sum += frame.frequencyData[i];
+    frame.average = sum / frame.frequencyData.length;
+
+    const beat = beatDetector.process(frame.frequencyData, time);
+    frame.beat = Math.max(0, frame.beat - delta * BEAT_DECAY);
+    if (beat) frame.beat = Math.max(frame.beat, 0.5 + beat.strength * 0.5);
+
+    if (analysis && getPosition) {
+      readAnalysisAt(analysis, getPosition() / 1000, frame);
+    } else {
+      frame.section = 0;
+      frame.buildup = 0;
+      frame.beatPhase = 0;
+    }
+
+    BAND_TARGETS.forEach((target) => {
+      const { source: band, amount } = preset.bands[target];
+      const level = 1 + amount * modulationLevel(frame, band);
+      sceneConfig[target] = baseConfig[target] * level;
+      outgoingConfig[target] = outgoingBaseConfig[target] * level;
     });
-  });
 
-  // Create array of meshes for frequency bars
-  const createFrequencyBars = () => {
-    const bars = [];
-    const numBars = 32; // Reduced for better performance
-    
-    for (let i = 0; i < numBars; i++) {
-      bars.push(
-        <mesh
-          key={i}
-          ref={(ref) => {
-            if (ref) meshRefs.current[i] = ref;
-          }}
-          position={[0, 0, 0]}
-        >
-          <boxGeometry args={[0.1, 0.1, 0.1]} />
-          <meshStandardMaterial color="hotpink" />
-        </mesh>
-      );
+    if (beatDetector.bpm !== reportedBpm.current) {
+      reportedBpm.current = beatDetector.bpm;
+      onTempoChange?.(beatDetector.bpm);
     }
-    return bars;
-  };
+  }, -1);
 
   return (
-    <group ref={groupRef}>
-      {/* Ambient lighting */}
-      <ambientLight intensity={0.3} />
-      
-      {/* Dynamic point lights */}
-      <pointLight 
-        position={[5, 5, 5]} 
-        intensity={1 + (frequencyData[10] || 0) / 255} 
-        color="cyan"
-      />
-      <pointLight 
-        position={[-5, -5, 5]} 
-        intensity={1 + (frequencyData[20] || 0) / 255} 
-        color="magenta"
+    <BeatDetectorContext.Provider value={beatDetector}>
+      <Scene
+        key={scene.id}
+        frame={frame}
+        config={sceneConfig}
+        palette={livePalette}
       />
-      
-      {/* Central sphere that pulses with bass */}
-      <mesh position={[0, 0, 0]}>
-        <sphereGeometry args={[0.5 + (frequencyData[2] || 0) / 500, 32, 32]} />
-        <meshStandardMaterial 
-          color="white" 
-          emissive="blue" 
-          emissiveIntensity={(frequencyData[2] || 0) / 255 * 0.5}
-        />
-      </mesh>
-      
-      {/* Frequency bars */}
-      {createFrequencyBars()}
-      
-      {/* Outer ring */}
-      <mesh position={[0, 0, 0]} rotation={[Math.PI / 2, 0, 0]}>
-        <torusGeometry args={[3, 0.1, 8, 32]} />
-        <meshStandardMaterial 
-          color="yellow" 
-          emissive="orange"
-          emissiveIntensity={(frequencyData[15] || 0) / 255 * 0.3}
-        />
-      </mesh>
-    </group>
+      {outgoingScene && OutgoingScene && outgoingScene.id !== scene.id && (
+        <SceneCrossfade opacity={crossfade}>
+          <OutgoingScene key={outgoingScene.id} frame={frame} config={outgoingConfig} palette={livePalette} />
+        </SceneCrossfade>
+      )}
+      {preset.postProcessing.quality !== 'off' && (
+        <PostProcessing frame={frame} settings={preset.postProcessing} adaptive={adaptiveQuality} />
+      )}
+    </BeatDetectorContext.Provider>
   );
 }
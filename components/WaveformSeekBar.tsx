@@ -0,0 +1,283 @@
+"use client";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { AudioEngine, AudioFeatures } from "../lib/audio/AudioEngine";
+import type { Spectrogram, TrackWaveform } from "../lib/audio/waveform";
+import { formatDuration } from "../lib/format";
+
+export type SeekBarView = "waveform" | "spectrogram";
+
+interface WaveformSeekBarProps {
+  duration: number; // ms; 0 when unknown
+  getPosition: () => number;
+  waveform?: TrackWaveform | null;
+  view?: SeekBarView;
+  onViewChange?: (view: SeekBarView) => void;
+  // Omit to make the bar read-only (e.g. live input)
+  onSeek?: (positionMs: number) => void;
+  // Draw this engine's live waveform instead of the precomputed overview
+  liveEngine?: AudioEngine | null;
+}
+
+const PLAYED_COLOR = "#22c55e";
+const REMAINING_COLOR = "#4b5563";
+const UNPLAYED_SHADE = "rgba(0, 0, 0, 0.55)";
+const PLAYHEAD_COLOR = "#ffffff";
+
+// The hover preview zooms in on this fraction of the track either side
+const PREVIEW_SPAN = 0.05;
+const PREVIEW_WIDTH = 128;
+const PREVIEW_HEIGHT = 40;
+
+// Dark green through to near white as a cell gets louder
+function spectrogramColor(value: number): [number, number, number] {
+  const t = Math.pow(value, 1.5);
+  return [Math.round(20 + t * 215), Math.round(24 + t * 231), Math.round(20 + t * 140)];
+}
+
+// Rendered once per track at one pixel per cell; each frame scales it
+function renderSpectrogram(spectrogram: Spectrogram): HTMLCanvasElement | null {
+  const canvas = document.createElement("canvas");
+  canvas.width = spectrogram.columns;
+  canvas.height = spectrogram.bands;
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+
+  const image = context.createImageData(spectrogram.columns, spectrogram.bands);
+  for (let column = 0; column < spectrogram.columns; column++) {
+    for (let band = 0; band < spectrogram.bands; band++) {
+      const [r, g, b] = spectrogramColor(spectrogram.data[column * spectrogram.bands + band]);
+      // Low frequencies at the bottom
+      const offset = ((spectrogram.bands - 1 - band) * spectrogram.columns + column) * 4;
+      image.data[offset] = r;
+      image.data[offset + 1] = g;
+      image.data[offset + 2] = b;
+      image.data[offset + 3] = 255;
+    }
+  }
+  context.putImageData(image, 0, 0);
+  return canvas;
+}
+
+interface OverviewDrawing {
+  peaks: Float32Array;
+  spectrogram: HTMLCanvasElement | null;
+  view: SeekBarView;
+}
+
+// Draws the [from, to) fraction of the track across the whole context,
+// with everything before `played` (also a fraction of the track) lit
+function drawOverview(
+  context: CanvasRenderingContext2D,
+  { peaks, spectrogram, view }: OverviewDrawing,
+  from: number,
+  to: number,
+  played: number,
+  ratio: number
+) {
+  const { width, height } = context.canvas;
+  const span = to - from;
+  const playedX = Math.max(0, Math.min(width, ((played - from) / span) * width));
+
+  if (view === "spectrogram" && spectrogram) {
+    context.imageSmoothingEnabled = true;
+    context.drawImage(spectrogram, from * spectrogram.width, 0, span * spectrogram.width, spectrogram.height, 0, 0, width, height);
+    context.fillStyle = UNPLAYED_SHADE;
+    context.fillRect(playedX, 0, width - playedX, height);
+    return;
+  }
+
+  const barWidth = 2 * ratio;
+  const gap = ratio;
+  const bars = Math.floor(width / (barWidth + gap));
+  for (let bar = 0; bar < bars; bar++) {
+    const index = Math.floor((from + (bar / bars) * span) * peaks.length);
+    const peak = index >= 0 && index < peaks.length ? peaks[index] : 0;
+    const barHeight = Math.max(ratio, peak * height);
+    const x = bar * (barWidth + gap);
+    context.fillStyle = x < playedX ? PLAYED_COLOR : REMAINING_COLOR;
+    context.fillRect(x, (height - barHeight) / 2, barWidth, barHeight);
+  }
+}
+
+function fitCanvas(canvas: HTMLCanvasElement, ratio: number) {
+  const width = Math.floor(canvas.clientWidth * ratio);
+  const height = Math.floor(canvas.clientHeight * ratio);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+}
+
+export function WaveformSeekBar({
+  duration,
+  getPosition,
+  waveform,
+  view = "waveform",
+  onViewChange,
+  onSeek,
+  liveEngine,
+}: WaveformSeekBarProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const elapsedRef = useRef<HTMLSpanElement>(null);
+  const dragPosition = useRef<number | null>(null);
+  const hoverPosition = useRef<number | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [hover, setHover] = useState<{ x: number; position: number } | null>(null);
+
+  // A preview's overview doesn't line up with the whole track when the
+  // SDK device is playing it, so it's only drawn when the lengths agree
+  const matchedWaveform = waveform && Math.abs(waveform.duration - duration) < 1000 ? waveform : null;
+  const spectrogramImage = useMemo(
+    () => (matchedWaveform ? renderSpectrogram(matchedWaveform.spectrogram) : null),
+    [matchedWaveform]
+  );
+  const overview = useMemo<OverviewDrawing | null>(
+    () => (matchedWaveform ? { peaks: matchedWaveform.peaks, spectrogram: spectrogramImage, view } : null),
+    [matchedWaveform, spectrogramImage, view]
+  );
+
+  // Redraw every animation frame straight to the canvas, outside React
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const context = canvas.getContext("2d");
+    if (!context) return;
+
+    let features: AudioFeatures | null = null;
+    let animationFrame = 0;
+
+    const draw = () => {
+      const ratio = window.devicePixelRatio || 1;
+      fitCanvas(canvas, ratio);
+      const { width, height } = canvas;
+      context.clearRect(0, 0, width, height);
+
+      const position = dragPosition.current ?? getPosition();
+      const progress = duration > 0 ? Math.min(1, position / duration) : 0;
+      if (elapsedRef.current) elapsedRef.current.textContent = formatDuration(position);
+
+      if (liveEngine?.isActive) {
+        features = features ?? liveEngine.createFeatures();
+        liveEngine.read(features);
+        const samples = features.timeDomainData;
+        context.strokeStyle = PLAYED_COLOR;
+        context.lineWidth = ratio;
+        context.beginPath();
+        for (let i = 0; i < samples.length; i++) {
+          const x = (i / (samples.length - 1)) * width;
+          const y = (samples[i] / 255) * height;
+          if (i === 0) context.moveTo(x, y);
+          else context.lineTo(x, y);
+        }
+        context.stroke();
+      } else if (overview) {
+        drawOverview(context, overview, 0, 1, progress, ratio);
+        context.fillStyle = PLAYHEAD_COLOR;
+        context.fillRect(progress * width - ratio / 2, 0, ratio, height);
+      } else {
+        const trackHeight = 4 * ratio;
+        const top = (height - trackHeight) / 2;
+        context.fillStyle = REMAINING_COLOR;
+        context.fillRect(0, top, width, trackHeight);
+        context.fillStyle = PLAYED_COLOR;
+        context.fillRect(0, top, width * progress, trackHeight);
+      }
+
+      if (hoverPosition.current !== null && duration > 0) {
+        context.fillStyle = "rgba(255, 255, 255, 0.5)";
+        context.fillRect((hoverPosition.current / duration) * width - ratio / 2, 0, ratio, height);
+      }
+
+      animationFrame = requestAnimationFrame(draw);
+    };
+
+    draw();
+    return () => cancelAnimationFrame(animationFrame);
+  }, [duration, getPosition, overview, liveEngine]);
+
+  // The hover preview only changes when the pointer moves
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || !hover || !overview || duration <= 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    fitCanvas(canvas, ratio);
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    const center = hover.position / duration;
+    drawOverview(context, overview, center - PREVIEW_SPAN, center + PREVIEW_SPAN, getPosition() / duration, ratio);
+    context.fillStyle = PLAYHEAD_COLOR;
+    context.fillRect(canvas.width / 2 - ratio / 2, 0, ratio, canvas.height);
+  }, [hover, overview, duration, getPosition]);
+
+  const positionAt = (clientX: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const seekable = Boolean(onSeek) && duration > 0;
+  const scrubbable = !liveEngine && duration > 0;
+
+  return (
+    <div className="flex items-center space-x-2 w-full text-xs text-gray-400 tabular-nums">
+      <span ref={elapsedRef} className="w-10 text-right">0:00</span>
+      <div className="relative flex-1 h-8">
+        <canvas
+          ref={canvasRef}
+          className={`w-full h-full ${seekable ? "cursor-pointer" : ""} ${dragging ? "cursor-grabbing" : ""}`}
+          onPointerDown={(event) => {
+            if (!seekable) return;
+            event.currentTarget.setPointerCapture(event.pointerId);
+            dragPosition.current = positionAt(event.clientX);
+            setDragging(true);
+          }}
+          onPointerMove={(event) => {
+            const position = positionAt(event.clientX);
+            if (dragPosition.current !== null) dragPosition.current = position;
+            if (!scrubbable) return;
+            hoverPosition.current = position;
+            const rect = event.currentTarget.getBoundingClientRect();
+            setHover({ x: event.clientX - rect.left, position });
+          }}
+          onPointerLeave={() => {
+            hoverPosition.current = null;
+            setHover(null);
+          }}
+          onPointerUp={(event) => {
+            if (dragPosition.current === null) return;
+            onSeek?.(positionAt(event.clientX));
+            dragPosition.current = null;
+            setDragging(false);
+          }}
+        />
+        {hover && (
+          <div
+            className="absolute bottom-full mb-2 -translate-x-1/2 flex flex-col items-center space-y-1 pointer-events-none"
+            style={{ left: hover.x }}
+          >
+            {overview && (
+              <canvas
+                ref={previewRef}
+                className="rounded border border-gray-700 bg-gray-950"
+                style={{ width: PREVIEW_WIDTH, height: PREVIEW_HEIGHT }}
+              />
+            )}
+            <span className="px-1.5 py-0.5 rounded bg-gray-800 text-white">{formatDuration(hover.position)}</span>
+          </div>
+        )}
+      </div>
+      <span className="w-10">{liveEngine ? "LIVE" : duration > 0 ? formatDuration(duration) : "--:--"}</span>
+      {onViewChange && matchedWaveform && !liveEngine && (
+        <button
+          onClick={() => onViewChange(view === "waveform" ? "spectrogram" : "waveform")}
+          className="px-1.5 py-0.5 text-[10px] rounded-full bg-gray-800 text-gray-400 hover:bg-gray-700 transition-colors"
+          title={view === "waveform" ? "Show spectrogram" : "Show waveform"}
+        >
+          {view === "waveform" ? "WAVE" : "SPEC"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+import { useFrame } from "@react-three/fiber";
+import { useMemo, useRef } from "react";
+import { AdditiveBlending, Color, Points, ShaderMaterial } from "three";
+import { shadePalette } from "./palette";
+import { useBeat } from "./useBeat";
+import { useSpectrumTexture } from "./useSpectrumTexture";
+import type { SceneDefinition, SceneProps } from "./types";
+
+// Per-particle displacement runs on the GPU from the spectrum texture, so
+// the CPU cost per frame is a handful of uniform writes whatever the count.
+const vertexShader = /* glsl */ `
+  uniform sampler2D uSpectrum;
+  uniform float uTime;
+  uniform float uSpeed;
+  uniform float uIntensity;
+  uniform float uSize;
+  attribute float aBin;
+  attribute float aPhase;
+  varying float vMagnitude;
+
+  void main() {
+    float magnitude = texture2D(uSpectrum, vec2(aBin, 0.5)).r;
+    float radius = 2.0 + magnitude * 1.5 * uIntensity + sin(uTime * uSpeed + aPhase) * 0.1;
+    vec4 mvPosition = modelViewMatrix * vec4(position * radius, 1.0);
+    gl_PointSize = uSize * (1.0 + magnitude) * (300.0 / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+    vMagnitude = magnitude;
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform vec3 uColor;
+  varying float vMagnitude;
+
+  void main() {
+    float distance = length(gl_PointCoord - 0.5);
+    if (distance > 0.5) discard;
+    gl_FragColor = vec4(uColor * (0.6 + vMagnitude), (1.0 - distance * 2.0) * 0.9);
+  }
+`;
+
+function ParticleFieldScene({ frame, config, palette }: SceneProps) {
+  const pointsRef = useRef<Points>(null);
+  const hueShift = useRef(0);
+  const spectrum = useSpectrumTexture(frame);
+  const count = config.density;
+
+  // Particles sit on a Fibonacci sphere so they spread evenly without randomness
+  const attributes = useMemo(() => {
+    const bins = frame.frequencyData.length;
+    const directions = new Float32Array(count * 3);
+    const binCoords = new Float32Array(count);
+    const phases = new Float32Array(count);
+    const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+    for (let i = 0; i < count; i++) {
+      const y = 1 - (i / Math.max(1, count - 1)) * 2;
+      const r = Math.sqrt(1 - y * y);
+      const theta = goldenAngle * i;
+      directions[i * 3] = Math.cos(theta) * r;
+      directions[i * 3 + 1] = y;
+      directions[i * 3 + 2] = Math.sin(theta) * r;
+      binCoords[i] = ((i % bins) + 0.5) / bins;
+      phases[i] = i * 0.3;
+    }
+    return { directions, binCoords, phases };
+  }, [count, frame.frequencyData.length]);
+
+  const uniforms = useMemo(
+    () => ({
+      uSpectrum: { value: spectrum },
+      uTime: { value: 0 },
+      uSpeed: { value: 1 },
+      uIntensity: { value: 1 },
+      uSize: { value: 0.05 },
+      uColor: { value: new Color() },
+    }),
+    [spectrum]
+  );
+
+  // Confident beats push the palette around the color wheel
+  useBeat((beat) => {
+    if (beat.confidence > 0.3) hueShift.current = (hueShift.current + 0.08 + beat.confidence * 0.1) % 1;
+  });
+
+  useFrame(() => {
+    const points = pointsRef.current;
+    if (!points) return;
+
+    const { time, average } = frame;
+    const material = points.material as ShaderMaterial;
+    material.uniforms.uTime.value = time;
+    material.uniforms.uSpeed.value = config.speed;
+    material.uniforms.uIntensity.value = config.intensity;
+    material.uniforms.uSize.value = 0.04 + (average / 255) * 0.06 * config.intensity;
+    shadePalette(palette, hueShift.current + average / 512, 0.5 + average / 255, config, material.uniforms.uColor.value);
+
+    points.rotation.y += (0.002 + average / 20000) * config.speed;
+    points.rotation.x = Math.sin(time * 0.1 * config.speed) * 0.3;
+  });
+
+  return (
+    <points ref={pointsRef}>
+      <bufferGeometry key={count}>
+        <bufferAttribute attach="attributes-position" args={[attributes.directions, 3]} />
+        <bufferAttribute attach="attributes-aBin" args={[attributes.binCoords, 1]} />
+        <bufferAttribute attach="attributes-aPhase" args={[attributes.phases, 1]} />
+      </bufferGeometry>
+      <shaderMaterial
+        uniforms={uniforms}
+        vertexShader={vertexShader}
+        fragmentShader={fragmentShader}
+        transparent
+        depthWrite={false}
+        blending={AdditiveBlending}
+      />
+    </points>
+  );
+}
+
+export const particleFieldScene: SceneDefinition = {
+  id: "particle-field",
+  name: "Particle Field",
+  component: ParticleFieldScene,
+  defaultConfig: { density: 2000, speed: 1, intensity: 1, hue: 0.55, saturation: 1, hueSpread: 1, bloom: 0.3 },
+};
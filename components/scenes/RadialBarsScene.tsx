@@ -0,0 +1,75 @@
+"use client";
+import { useFrame } from "@react-three/fiber";
+import { useMemo, useRef } from "react";
+import { Color, Group, InstancedMesh, Object3D } from "three";
+import { shadePalette } from "./palette";
+import { useBeat } from "./useBeat";
+import type { SceneDefinition, SceneProps } from "./types";
+
+const INNER_RADIUS = 1.2;
+
+function RadialBarsScene({ frame, config, palette }: SceneProps) {
+  const groupRef = useRef<Group>(null);
+  const barsRef = useRef<InstancedMesh>(null);
+  const pulse = useRef(0);
+  const bars = config.density;
+
+  // Scratch objects reused for every instance, every frame
+  const dummy = useMemo(() => new Object3D(), []);
+  const color = useMemo(() => new Color(), []);
+
+  useBeat((beat) => {
+    pulse.current = Math.max(pulse.current, beat.strength);
+  });
+
+  useFrame((_, delta) => {
+    const mesh = barsRef.current;
+    if (!groupRef.current || !mesh) return;
+
+    const { frequencyData, average } = frame;
+    pulse.current = Math.max(0, pulse.current - delta * 3);
+    groupRef.current.scale.setScalar(1 + pulse.current * 0.15 * config.intensity);
+    groupRef.current.rotation.z -= (0.002 + average / 30000) * config.speed;
+
+    // Thin the bars out as their number grows so they never overlap
+    const width = Math.min(1, 96 / bars);
+    const half = bars / 2;
+    for (let index = 0; index < bars; index++) {
+      // Mirror the spectrum so low frequencies sit at the top and bottom
+      const mirrored = index < half ? index : bars - 1 - index;
+      const bin = Math.floor((mirrored / half) * frequencyData.length * 0.75);
+      const magnitude = (frequencyData[bin] || 0) / 255;
+
+      const length = 0.05 + magnitude * 2 * config.intensity;
+      const angle = (index / bars) * Math.PI * 2;
+      dummy.position.set(
+        Math.cos(angle) * (INNER_RADIUS + length / 2),
+        Math.sin(angle) * (INNER_RADIUS + length / 2),
+        0
+      );
+      dummy.rotation.set(0, 0, angle - Math.PI / 2);
+      dummy.scale.set(width, length, 1);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(index, dummy.matrix);
+      mesh.setColorAt(index, shadePalette(palette, mirrored / bars, 0.3 + magnitude, config, color));
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <group ref={groupRef}>
+      <instancedMesh key={bars} ref={barsRef} args={[undefined, undefined, bars]}>
+        <planeGeometry args={[0.06, 1]} />
+        <meshBasicMaterial />
+      </instancedMesh>
+    </group>
+  );
+}
+
+export const radialBarsScene: SceneDefinition = {
+  id: "radial-bars",
+  name: "Radial Bars",
+  component: RadialBarsScene,
+  defaultConfig: { density: 96, speed: 1, intensity: 1, hue: 0.9, saturation: 1, hueSpread: 1, bloom: 0.3 },
+};
@@ -0,0 +1,132 @@
+"use client";
+import { useFrame, useThree } from "@react-three/fiber";
+import { useRef } from "react";
+import { Mesh, Group, MeshStandardMaterial, PointLight } from "three";
+import { shadePalette } from "./palette";
+import { useBeat } from "./useBeat";
+import type { SceneDefinition, SceneProps } from "./types";
+
+function RingScene({ frame, config, palette }: SceneProps) {
+  const groupRef = useRef<Group>(null);
+  const meshRefs = useRef<Mesh[]>([]);
+  const sphereRef = useRef<Mesh>(null);
+  const sphereMaterialRef = useRef<MeshStandardMaterial>(null);
+  const torusMaterialRef = useRef<MeshStandardMaterial>(null);
+  const keyLightRef = useRef<PointLight>(null);
+  const fillLightRef = useRef<PointLight>(null);
+  const flash = useRef(0);
+  const camera = useThree((state) => state.camera);
+
+  useBeat((beat) => {
+    flash.current = Math.max(flash.current, beat.confidence);
+  });
+
+  useFrame((_, delta) => {
+    if (!groupRef.current) return;
+    const { frequencyData } = frame;
+
+    // Beat flash on the sphere and a small camera kick, both decaying
+    flash.current = Math.max(0, flash.current - delta * 4);
+    // The Visualizer repositions the camera every frame, so the kick never accumulates
+    camera.translateZ(-flash.current * 0.4 * config.intensity);
+
+    // Central sphere pulses with bass; scaling avoids rebuilding its geometry
+    const bass = frequencyData[2] || 0;
+    sphereRef.current?.scale.setScalar(1 + bass / 250);
+    if (sphereMaterialRef.current) {
+      sphereMaterialRef.current.emissive.copy(palette.colors[0]);
+      sphereMaterialRef.current.emissiveIntensity = bass / 255 * 0.5 + flash.current;
+    }
+    if (torusMaterialRef.current) {
+      torusMaterialRef.current.color.copy(palette.colors[3]);
+      torusMaterialRef.current.emissive.copy(palette.colors[2]);
+      torusMaterialRef.current.emissiveIntensity = (frequencyData[15] || 0) / 255 * 0.3;
+    }
+    if (keyLightRef.current) {
+      keyLightRef.current.color.copy(palette.colors[1]);
+      keyLightRef.current.intensity = 1 + (frequencyData[10] || 0) / 255;
+    }
+    if (fillLightRef.current) {
+      fillLightRef.current.color.copy(palette.colors[2]);
+      fillLightRef.current.intensity = 1 + (frequencyData[20] || 0) / 255;
+    }
+
+    // Rotate the entire group
+    groupRef.current.rotation.y += (0.005 + frame.average / 10000) * config.speed;
+
+    // Update individual meshes
+    meshRefs.current.forEach((mesh, index) => {
+      if (mesh && frequencyData[index] !== undefined) {
+        const frequency = Math.min(1, (frequencyData[index] / 255) * config.intensity);
+
+        // Scale based on frequency
+        mesh.scale.y = 0.1 + frequency * 3;
+        mesh.scale.x = 0.5 + frequency * 0.5;
+        mesh.scale.z = 0.5 + frequency * 0.5;
+
+        // Color based on frequency
+        shadePalette(
+          palette,
+          index / frequencyData.length,
+          frequency,
+          config,
+          (mesh.material as MeshStandardMaterial).color
+        );
+
+        // Position
+        const angle = (index / frequencyData.length) * Math.PI * 2;
+        const radius = 2 + frequency;
+        mesh.position.x = Math.cos(angle) * radius;
+        mesh.position.z = Math.sin(angle) * radius;
+        mesh.position.y = frequency * 2 - 1;
+
+        // Rotation
+        mesh.rotation.x += frequency * 0.1 * config.speed;
+        mesh.rotation.z += frequency * 0.05 * config.speed;
+      }
+    });
+  });
+
+  return (
+    <group ref={groupRef}>
+      {/* Ambient lighting */}
+      <ambientLight intensity={0.3} />
+
+      {/* Dynamic point lights, tinted from the palette */}
+      <pointLight ref={keyLightRef} position={[5, 5, 5]} />
+      <pointLight ref={fillLightRef} position={[-5, -5, 5]} />
+
+      {/* Central sphere that pulses with bass */}
+      <mesh ref={sphereRef} position={[0, 0, 0]}>
+        <sphereGeometry args={[0.5, 32, 32]} />
+        <meshStandardMaterial ref={sphereMaterialRef} color="white" />
+      </mesh>
+
+      {/* Frequency bars */}
+      {Array.from({ length: config.density }, (_, i) => (
+        <mesh
+          key={i}
+          ref={(ref) => {
+            if (ref) meshRefs.current[i] = ref;
+          }}
+        >
+          <boxGeometry args={[0.1, 0.1, 0.1]} />
+          <meshStandardMaterial />
+        </mesh>
+      ))}
+
+      {/* Outer ring */}
+      <mesh position={[0, 0, 0]} rotation={[Math.PI / 2, 0, 0]}>
+        <torusGeometry args={[3, 0.1, 8, 32]} />
+        <meshStandardMaterial ref={torusMaterialRef} />
+      </mesh>
+    </group>
+  );
+}
+
+export const ringScene: SceneDefinition = {
+  id: "ring",
+  name: "Frequency Ring",
+  component: RingScene,
+  defaultConfig: { density: 32, speed: 1, intensity: 1, hue: 0, saturation: 1, hueSpread: 1, bloom: 0.3 },
+};
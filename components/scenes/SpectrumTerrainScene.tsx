@@ -0,0 +1,64 @@
+"use client";
+import { useFrame } from "@react-three/fiber";
+import { useMemo, useRef } from "react";
+import { BufferAttribute, Mesh, MeshStandardMaterial } from "three";
+import { shadePalette } from "./palette";
+import type { SceneDefinition, SceneProps } from "./types";
+
+const HISTORY = 48;
+
+function SpectrumTerrainScene({ frame, config, palette }: SceneProps) {
+  const meshRef = useRef<Mesh>(null);
+  const columns = config.density;
+
+  // One row of heights per past frame; row 0 is the newest spectrum
+  const history = useMemo(() => new Float32Array((columns + 1) * (HISTORY + 1)), [columns]);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    const { frequencyData, average } = frame;
+    const stride = columns + 1;
+
+    history.copyWithin(stride, 0, history.length - stride);
+    for (let x = 0; x <= columns; x++) {
+      const bin = Math.floor((x / columns) * (frequencyData.length - 1));
+      history[x] = ((frequencyData[bin] || 0) / 255) * 1.5 * config.intensity;
+    }
+
+    // Plane vertices run row by row from the far edge, so flip the history
+    const position = mesh.geometry.attributes.position as BufferAttribute;
+    for (let row = 0; row <= HISTORY; row++) {
+      for (let x = 0; x <= columns; x++) {
+        position.setZ(row * stride + x, history[(HISTORY - row) * stride + x]);
+      }
+    }
+    position.needsUpdate = true;
+    mesh.geometry.computeVertexNormals();
+
+    const material = mesh.material as MeshStandardMaterial;
+    shadePalette(palette, 0, 0.8, config, material.color);
+    shadePalette(palette, 0.25, 1, config, material.emissive).multiplyScalar(
+      (average / 255) * (0.4 + config.bloom * 0.6)
+    );
+  });
+
+  return (
+    <group rotation={[-Math.PI / 2.6, 0, 0]} position={[0, -1, 0]}>
+      <ambientLight intensity={0.4} />
+      <directionalLight position={[0, 5, 5]} intensity={1.2} />
+      <mesh ref={meshRef}>
+        <planeGeometry key={columns} args={[8, 8, columns, HISTORY]} />
+        <meshStandardMaterial wireframe flatShading />
+      </mesh>
+    </group>
+  );
+}
+
+export const spectrumTerrainScene: SceneDefinition = {
+  id: "spectrum-terrain",
+  name: "Spectrum Terrain",
+  component: SpectrumTerrainScene,
+  defaultConfig: { density: 64, speed: 1, intensity: 1, hue: 0.45, saturation: 1, hueSpread: 1, bloom: 0.3 },
+};
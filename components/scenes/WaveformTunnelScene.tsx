@@ -0,0 +1,60 @@
+"use client";
+import { useFrame } from "@react-three/fiber";
+import { useRef } from "react";
+import { Mesh, MeshBasicMaterial } from "three";
+import { shadePalette } from "./palette";
+import type { SceneDefinition, SceneProps } from "./types";
+
+const TUNNEL_DEPTH = 20;
+
+function WaveformTunnelScene({ frame, config, palette }: SceneProps) {
+  const ringRefs = useRef<Mesh[]>([]);
+  const offset = useRef(0);
+
+  useFrame((_, delta) => {
+    const { frequencyData, average } = frame;
+    const rings = config.density;
+    const spacing = TUNNEL_DEPTH / rings;
+
+    // Rings fly toward the camera and wrap around to the back of the tunnel
+    offset.current = (offset.current + delta * (2 + average / 40) * config.speed) % spacing;
+
+    ringRefs.current.forEach((ring, index) => {
+      if (!ring) return;
+      const bin = Math.floor((index / rings) * frequencyData.length);
+      const magnitude = (frequencyData[bin] || 0) / 255;
+
+      ring.position.z = 4 - index * spacing + offset.current;
+      const scale = 1 + magnitude * 0.8 * config.intensity;
+      ring.scale.set(scale, scale, 1);
+      ring.rotation.z = frame.time * 0.2 * config.speed + index * 0.15;
+
+      const material = ring.material as MeshBasicMaterial;
+      shadePalette(palette, (index / rings) * 0.5, 0.3 + magnitude, config, material.color);
+      material.opacity = Math.min(1, 1.2 - index / rings);
+    });
+  });
+
+  return (
+    <group>
+      {Array.from({ length: config.density }, (_, i) => (
+        <mesh
+          key={i}
+          ref={(ref) => {
+            if (ref) ringRefs.current[i] = ref;
+          }}
+        >
+          <torusGeometry args={[1.5, 0.03, 6, 48]} />
+          <meshBasicMaterial transparent />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+export const waveformTunnelScene: SceneDefinition = {
+  id: "waveform-tunnel",
+  name: "Waveform Tunnel",
+  component: WaveformTunnelScene,
+  defaultConfig: { density: 40, speed: 1, intensity: 1, hue: 0.75, saturation: 1, hueSpread: 1, bloom: 0.3 },
+};
@@ -0,0 +1,26 @@
+import { ringScene } from "./RingScene";
+import { particleFieldScene } from "./ParticleFieldScene";
+import { waveformTunnelScene } from "./WaveformTunnelScene";
+import { spectrumTerrainScene } from "./SpectrumTerrainScene";
+import { radialBarsScene } from "./RadialBarsScene";
+import type { SceneDefinition } from "./types";
+
+export { BeatDetectorContext, useBeat } from "./useBeat";
+export { modulationLevel } from "./modulation";
+export { PALETTE_SIZE, createScenePalette, huePalette, samplePalette, shadePalette } from "./palette";
+export type { AudioFrame, SceneConfig, SceneDefinition, ScenePalette, SceneProps } from "./types";
+
+export { DEFAULT_SCENE_ID } from "../../lib/scenes";
+
+// Registration order is the order scenes appear in the picker
+export const scenes: SceneDefinition[] = [
+  ringScene,
+  particleFieldScene,
+  waveformTunnelScene,
+  spectrumTerrainScene,
+  radialBarsScene,
+];
+
+export function getScene(id: string | null | undefined): SceneDefinition {
+  return scenes.find((scene) => scene.id === id) ?? ringScene;
+}
@@ -0,0 +1,25 @@
+import type { ModulationSource } from "../../lib/presets/schema";
+import type { AudioFrame } from "./types";
+
+// Level of a modulation source in the current frame, 0-1
+export function modulationLevel(frame: AudioFrame, source: ModulationSource): number {
+  switch (source) {
+    case "bass":
+      return frame.bass;
+    case "mid":
+      return frame.mid;
+    case "treble":
+      return frame.treble;
+    case "rms":
+      // Music rarely gets past a third of full scale
+      return Math.min(1, frame.rms * 3);
+    case "beat":
+      return frame.beat;
+    case "section":
+      return frame.section;
+    case "buildup":
+      return frame.buildup;
+    case "none":
+      return 0;
+  }
+}
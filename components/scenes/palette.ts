@@ -0,0 +1,45 @@
+import { Color } from "three";
+import type { SceneConfig, ScenePalette } from "./types";
+import { PALETTE_SIZE } from "../../lib/palette/extract";
+
+export { PALETTE_SIZE };
+
+const hsl = { h: 0, s: 0, l: 0 };
+
+export function createScenePalette(): ScenePalette {
+  return { colors: Array.from({ length: PALETTE_SIZE }, () => new Color()) };
+}
+
+// Stand-in palette for tracks without artwork: neighbouring hues around `hue`
+export function huePalette(hue: number): Color[] {
+  return Array.from({ length: PALETTE_SIZE }, (_, index) =>
+    new Color().setHSL((hue + index * 0.12) % 1, 0.8, 0.55)
+  );
+}
+
+// The palette as a looping gradient: t = 0 is the first color, and the
+// colors are spread evenly around to 1
+export function samplePalette(palette: ScenePalette, t: number, target: Color): Color {
+  const { colors } = palette;
+  const position = (((t % 1) + 1) % 1) * colors.length;
+  const index = Math.floor(position);
+  return target.copy(colors[index]).lerp(colors[(index + 1) % colors.length], position - index);
+}
+
+// A palette color as a scene should draw it: `t` is scaled by the config's
+// hue spread, saturation follows the config, and lightness rises with
+// `level` (usually the audio magnitude, 0-1) by more when bloom is high
+export function shadePalette(
+  palette: ScenePalette,
+  t: number,
+  level: number,
+  config: SceneConfig,
+  target: Color
+): Color {
+  samplePalette(palette, t * config.hueSpread, target).getHSL(hsl);
+  return target.setHSL(
+    hsl.h,
+    Math.min(1, hsl.s * config.saturation),
+    Math.min(0.9, hsl.l * (0.5 + level * (0.6 + config.bloom * 0.4)))
+  );
+}
@@ -0,0 +1,47 @@
+import type { ComponentType } from "react";
+import type { Color } from "three";
+import type { AudioFeatures } from "../../lib/audio/AudioEngine";
+import type { AnalysisPosition } from "../../lib/analysis/trackAnalysis";
+import type { SceneId } from "../../lib/scenes";
+
+// Audio features for the current animation frame. Every scene reads from
+// the same frame, so a scene never has to know where the audio came from.
+// The object and its buffers are reused and refilled in place each tick:
+// read it inside useFrame, never during render. The AnalysisPosition
+// fields come from the track's precomputed analysis and stay 0 without one.
+export interface AudioFrame extends AudioFeatures, AnalysisPosition {
+  time: number;
+  average: number; // mean of frequencyData, 0-255
+  beat: number; // 1 on a detected onset, decaying to 0 before the next
+}
+
+export interface SceneConfig {
+  density: number; // bars, particles, rings or grid columns
+  speed: number; // motion multiplier
+  intensity: number; // how strongly the scene reacts to audio
+  hue: number; // base hue, 0-1
+  saturation: number; // multiplier on the scene's own saturation
+  hueSpread: number; // multiplier on how far hues fan out across the scene
+  bloom: number; // glow on loud highlights, 0-1
+}
+
+// Colors a scene paints with, most prominent first: the current track's
+// artwork palette, or one built around `hue` when there's no artwork. The
+// Visualizer eases these toward each new track and, like the frame, updates
+// them in place.
+export interface ScenePalette {
+  colors: Color[];
+}
+
+export interface SceneProps {
+  frame: AudioFrame;
+  config: SceneConfig;
+  palette: ScenePalette;
+}
+
+export interface SceneDefinition {
+  id: SceneId;
+  name: string;
+  component: ComponentType<SceneProps>;
+  defaultConfig: SceneConfig;
+}
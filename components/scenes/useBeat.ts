@@ -0,0 +1,18 @@
+"use client";
+import { createContext, useContext, useEffect, useRef } from "react";
+import type { BeatDetector, BeatListener } from "../../lib/audio/BeatDetector";
+
+export const BeatDetectorContext = createContext<BeatDetector | null>(null);
+
+// Subscribe a scene to beat events from the Visualizer's detector. The
+// latest listener is always called, so inline callbacks are fine.
+export function useBeat(listener: BeatListener) {
+  const detector = useContext(BeatDetectorContext);
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    if (!detector) return;
+    return detector.subscribe((event) => listenerRef.current(event));
+  }, [detector]);
+}
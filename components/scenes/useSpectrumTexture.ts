@@ -0,0 +1,33 @@
+"use client";
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useMemo } from "react";
+import { DataTexture, LinearFilter, RedFormat, UnsignedByteType } from "three";
+import type { AudioFrame } from "./types";
+
+// A 1-pixel-high texture backed directly by the frame's frequency buffer,
+// for scenes that do their per-bin work in shaders. No copy is made: the
+// texture is just re-uploaded every tick.
+export function useSpectrumTexture(frame: AudioFrame): DataTexture {
+  const { frequencyData } = frame;
+  const texture = useMemo(() => {
+    const spectrum = new DataTexture(
+      frequencyData,
+      frequencyData.length,
+      1,
+      RedFormat,
+      UnsignedByteType
+    );
+    spectrum.magFilter = LinearFilter;
+    spectrum.minFilter = LinearFilter;
+    spectrum.needsUpdate = true;
+    return spectrum;
+  }, [frequencyData]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  useFrame(() => {
+    texture.needsUpdate = true;
+  });
+
+  return texture;
+}
@@ -0,0 +1,29 @@
+import { analyzeTrack, type TrackAnalysis } from "./trackAnalysis";
+
+// Runs analyzeTrack off the main thread. Takes mono samples, whose buffer
+// the page transfers rather than copies.
+export interface AnalysisRequest {
+  trackId: string;
+  sampleRate: number;
+  samples: Float32Array;
+}
+
+export type AnalysisResponse = { analysis: TrackAnalysis } | { error: string };
+
+self.addEventListener("message", (event: MessageEvent<AnalysisRequest>) => {
+  const { trackId, sampleRate, samples } = event.data;
+  let response: AnalysisResponse;
+  try {
+    const buffer = {
+      sampleRate,
+      length: samples.length,
+      duration: samples.length / sampleRate,
+      numberOfChannels: 1,
+      getChannelData: () => samples,
+    };
+    response = { analysis: analyzeTrack(buffer, trackId) };
+  } catch (error) {
+    response = { error: (error as Error).message };
+  }
+  self.postMessage(response);
+});
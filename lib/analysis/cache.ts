@@ -0,0 +1,66 @@
+import { parseTrackAnalysis, type TrackAnalysis } from "./trackAnalysis";
+
+// Browser-side copy of track analyses in IndexedDB, so a track analysed
+// once is ready instantly on later visits, offline included. Failures
+// (private browsing, storage full) only cost a recomputation. Entries are
+// kept per user, like the server's store, so a shared browser never hands
+// one account's analyses to another.
+const DB_NAME = "vizify";
+const DB_VERSION = 2;
+const STORE = "analysis";
+
+function cacheKey(userKey: string, trackId: string) {
+  return `${userKey}:${trackId}`;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      // Version 1 keyed entries by track alone; they can't be attributed
+      // to a user, so they're dropped
+      if (request.result.objectStoreNames.contains(STORE)) {
+        request.result.deleteObjectStore(STORE);
+      }
+      request.result.createObjectStore(STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open is retried next time rather than cached
+  database.catch(() => {
+    database = null;
+  });
+  return database;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function loadCachedAnalysis(userKey: string, trackId: string): Promise<TrackAnalysis | null> {
+  if (typeof indexedDB === "undefined") return null;
+  try {
+    const db = await openDatabase();
+    const stored = await settle(db.transaction(STORE, "readonly").objectStore(STORE).get(cacheKey(userKey, trackId)));
+    return stored ? parseTrackAnalysis(stored) : null;
+  } catch (error) {
+    console.error("Error reading cached analysis:", error);
+    return null;
+  }
+}
+
+export async function saveCachedAnalysis(userKey: string, analysis: TrackAnalysis) {
+  if (typeof indexedDB === "undefined") return;
+  try {
+    const db = await openDatabase();
+    await settle(db.transaction(STORE, "readwrite").objectStore(STORE).put(analysis, cacheKey(userKey, analysis.trackId)));
+  } catch (error) {
+    console.error("Error caching analysis:", error);
+  }
+}
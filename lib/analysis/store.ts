@@ -0,0 +1,45 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { parseTrackAnalysis, type TrackAnalysis } from "./trackAnalysis";
+
+// Server-side store for track analyses: one JSON file per user and track
+// under .data/analysis. Analyses are computed in the browser, so each user
+// only reads back their own uploads and none can change what another sees.
+// Only Spotify ids are stored; local files never leave the browser.
+const STORE_DIR = path.join(process.cwd(), ".data", "analysis");
+
+export function isStorableTrackId(trackId: string) {
+  return /^[A-Za-z0-9]{1,64}$/.test(trackId);
+}
+
+// User ids are hashed into directory names so any id is safe on disk
+function userDir(userId: string) {
+  return path.join(STORE_DIR, createHash("sha256").update(userId).digest("hex").slice(0, 32));
+}
+
+function filePath(userId: string, trackId: string) {
+  return path.join(userDir(userId), `${trackId}.json`);
+}
+
+export async function readStoredAnalysis(userId: string, trackId: string): Promise<TrackAnalysis | null> {
+  if (!isStorableTrackId(trackId)) return null;
+  try {
+    return parseTrackAnalysis(JSON.parse(await readFile(filePath(userId, trackId), "utf8")));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Error reading stored analysis for ${trackId}:`, error);
+    }
+    return null;
+  }
+}
+
+// Written to a temporary file first so a reader never sees half a file
+export async function writeStoredAnalysis(userId: string, analysis: TrackAnalysis) {
+  if (!isStorableTrackId(analysis.trackId)) throw new Error("Track id can't be stored");
+  await mkdir(userDir(userId), { recursive: true });
+  const target = filePath(userId, analysis.trackId);
+  const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(temporary, JSON.stringify(analysis));
+  await rename(temporary, target);
+}
@@ -0,0 +1,249 @@
+import { BeatDetector } from "../audio/BeatDetector";
+import { analyzeAudioBuffer, mixToMono, type AudioSamples } from "../audio/offlineAnalysis";
+import { computePeaks, WAVEFORM_BUCKETS } from "../audio/waveform";
+
+// Whole-track analysis, computed once from the audio and cached on both the
+// client and the server. Knowing the structure ahead of time lets scenes
+// lean into a drop before it lands instead of reacting after it.
+export const ANALYSIS_VERSION = 1;
+
+export interface TrackSection {
+  start: number; // seconds
+  end: number;
+  energy: number; // mean loudness relative to the loudest section, 0-1
+}
+
+export interface TrackAnalysis {
+  version: typeof ANALYSIS_VERSION;
+  trackId: string;
+  duration: number; // seconds of audio analysed
+  tempo: number | null; // BPM
+  beats: number[]; // beat grid, seconds
+  sections: TrackSection[];
+  // RMS loudness, 0-1 relative to the loudest moment
+  loudness: { rate: number; values: number[] }; // `rate` values per second
+  peaks: number[]; // waveform overview, 0-1
+  palette: string[] | null; // artwork colors as #rrggbb, once known
+}
+
+// Where the analysis puts a given playback moment, refilled per frame
+export interface AnalysisPosition {
+  section: number; // energy of the current section, 0-1
+  buildup: number; // ramps 0 to 1 over the seconds before a louder section
+  beatPhase: number; // 0 on each grid beat, rising to 1 by the next
+}
+
+const ENVELOPE_RATE = 10;
+// Section boundaries compare the loudness this many seconds either side
+const NOVELTY_WINDOW = 4;
+const MIN_SECTION = 6;
+const MIN_BOUNDARY_CHANGE = 0.12;
+// A section this much louder than the one before counts as a drop
+const DROP_THRESHOLD = 0.15;
+const BUILDUP_SECONDS = 4;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function mean(values: number[], start: number, end: number) {
+  const from = Math.max(0, start);
+  const to = Math.min(values.length, end);
+  if (to <= from) return 0;
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += values[i];
+  return sum / (to - from);
+}
+
+function loudnessEnvelope(samples: Float32Array, sampleRate: number): number[] {
+  const window = Math.round(sampleRate / ENVELOPE_RATE);
+  const values: number[] = [];
+  for (let start = 0; start < samples.length; start += window) {
+    const end = Math.min(samples.length, start + window);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    values.push(Math.sqrt(sum / (end - start)));
+  }
+  const loudest = Math.max(...values, 1e-6);
+  return values.map((value) => value / loudest);
+}
+
+// A regular grid at the detected tempo, phased to best fit the onsets
+function beatGrid(onsets: number[], tempo: number | null, duration: number): number[] {
+  if (!tempo || onsets.length === 0) return [];
+  const period = 60 / tempo;
+  let x = 0;
+  let y = 0;
+  onsets.forEach((time) => {
+    const angle = ((time % period) / period) * 2 * Math.PI;
+    x += Math.cos(angle);
+    y += Math.sin(angle);
+  });
+  const phase = ((Math.atan2(y, x) / (2 * Math.PI) + 1) % 1) * period;
+
+  const beats: number[] = [];
+  for (let time = phase; time < duration; time += period) beats.push(Math.round(time * 1000) / 1000);
+  return beats;
+}
+
+function snapToBeat(time: number, beats: number[]) {
+  let nearest = time;
+  let distance = Infinity;
+  for (const beat of beats) {
+    if (Math.abs(beat - time) < distance) {
+      distance = Math.abs(beat - time);
+      nearest = beat;
+    }
+  }
+  return distance < 0.5 ? nearest : time;
+}
+
+// Boundaries where the loudness before and after a point differ the most,
+// kept apart by at least MIN_SECTION seconds
+function findSections(loudness: number[], beats: number[], duration: number): TrackSection[] {
+  const window = NOVELTY_WINDOW * ENVELOPE_RATE;
+  const candidates: { time: number; change: number }[] = [];
+  for (let i = window; i < loudness.length - window; i++) {
+    const change = Math.abs(mean(loudness, i, i + window) - mean(loudness, i - window, i));
+    if (change >= MIN_BOUNDARY_CHANGE) candidates.push({ time: i / ENVELOPE_RATE, change });
+  }
+  candidates.sort((a, b) => b.change - a.change);
+
+  const boundaries: number[] = [];
+  candidates.forEach(({ time }) => {
+    const snapped = snapToBeat(time, beats);
+    const clear = [0, duration, ...boundaries].every((other) => Math.abs(other - snapped) >= MIN_SECTION);
+    if (clear) boundaries.push(snapped);
+  });
+
+  const edges = [0, ...boundaries.sort((a, b) => a - b), duration];
+  const levels = edges
+    .slice(1)
+    .map((end, index) => mean(loudness, Math.floor(edges[index] * ENVELOPE_RATE), Math.ceil(end * ENVELOPE_RATE)));
+  const loudest = Math.max(...levels, 1e-6);
+  return levels.map((level, index) => ({
+    start: edges[index],
+    end: edges[index + 1],
+    energy: Math.round((level / loudest) * 1000) / 1000,
+  }));
+}
+
+export function analyzeTrack(buffer: AudioSamples, trackId: string): TrackAnalysis {
+  // Onsets and tempo the same way the live detector finds them
+  const frames = analyzeAudioBuffer(buffer, { fps: 60 });
+  const bins = frames.fftSize / 2;
+  const detector = new BeatDetector();
+  const onsets: number[] = [];
+  const tempos: number[] = [];
+  for (let frame = 0; frame < frames.frameCount; frame++) {
+    const event = detector.process(frames.frequencyFrames.subarray(frame * bins, (frame + 1) * bins), frame / frames.fps);
+    if (!event) continue;
+    onsets.push(event.time);
+    if (event.bpm) tempos.push(event.bpm);
+  }
+
+  const duration = buffer.duration;
+  const tempo = median(tempos);
+  const beats = beatGrid(onsets, tempo, duration);
+  const loudness = loudnessEnvelope(mixToMono(buffer), buffer.sampleRate);
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  return {
+    version: ANALYSIS_VERSION,
+    trackId,
+    duration,
+    tempo,
+    beats,
+    sections: findSections(loudness, beats, duration),
+    loudness: { rate: ENVELOPE_RATE, values: loudness.map(round) },
+    peaks: Array.from(computePeaks(buffer, WAVEFORM_BUCKETS), round),
+    palette: null,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function numbers(value: unknown, max: number): number[] | null {
+  if (!Array.isArray(value) || value.length > max) return null;
+  return value.every((item) => typeof item === "number" && Number.isFinite(item)) ? (value as number[]) : null;
+}
+
+// Validates an analysis read back from storage or sent to the API. Returns
+// null for anything malformed or from another analysis version, which
+// callers treat as not cached.
+export function parseTrackAnalysis(input: unknown): TrackAnalysis | null {
+  if (!isRecord(input) || input.version !== ANALYSIS_VERSION) return null;
+  const { trackId, duration, tempo, sections, loudness, palette } = input;
+  if (typeof trackId !== "string" || !trackId) return null;
+  if (typeof duration !== "number" || !(duration > 0) || duration > 3600) return null;
+  if (tempo !== null && (typeof tempo !== "number" || !(tempo > 0))) return null;
+
+  const beats = numbers(input.beats, 20000);
+  const peaks = numbers(input.peaks, 4096);
+  if (!beats || !peaks || !isRecord(loudness) || typeof loudness.rate !== "number") return null;
+  const envelope = numbers(loudness.values, 3600 * 100);
+  if (!envelope || !Array.isArray(sections) || sections.length > 500) return null;
+  const validSections = sections.every(
+    (section) =>
+      isRecord(section) &&
+      typeof section.start === "number" &&
+      typeof section.end === "number" &&
+      typeof section.energy === "number"
+  );
+  if (!validSections) return null;
+  if (palette !== null && !(Array.isArray(palette) && palette.every((color) => typeof color === "string" && /^#[0-9a-f]{6}$/i.test(color)))) {
+    return null;
+  }
+
+  return {
+    version: ANALYSIS_VERSION,
+    trackId,
+    duration,
+    tempo,
+    beats,
+    sections: (sections as TrackSection[]).map(({ start, end, energy }) => ({ start, end, energy })),
+    loudness: { rate: loudness.rate, values: envelope },
+    peaks,
+    palette: palette as string[] | null,
+  };
+}
+
+// Index of the last value <= time in an ascending list, or -1
+function lastAtOrBefore(values: number[], time: number) {
+  let low = 0;
+  let high = values.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (values[middle] <= time) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+export function readAnalysisAt(analysis: TrackAnalysis, time: number, target: AnalysisPosition) {
+  const { sections, beats } = analysis;
+  const index = sections.findIndex((section) => time < section.end);
+  const current = sections[index === -1 ? sections.length - 1 : index];
+  const next = index === -1 ? undefined : sections[index + 1];
+  target.section = current?.energy ?? 0;
+  target.buildup =
+    current && next && next.energy - current.energy >= DROP_THRESHOLD
+      ? Math.max(0, Math.min(1, 1 - (next.start - time) / BUILDUP_SECONDS))
+      : 0;
+
+  const beat = lastAtOrBefore(beats, time);
+  if (beat === -1 || beat === beats.length - 1) {
+    target.beatPhase = 0;
+  } else {
+    target.beatPhase = (time - beats[beat]) / (beats[beat + 1] - beats[beat]);
+  }
+}
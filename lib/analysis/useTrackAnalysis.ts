@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { parseTrackAnalysis, type TrackAnalysis } from "./trackAnalysis";
+import type { AnalysisRequest, AnalysisResponse } from "./analysis.worker";
+import { loadCachedAnalysis, saveCachedAnalysis } from "./cache";
+import { decodeAudioUrl } from "../audio/waveform";
+import type { PaletteTheme } from "../palette/extract";
+import type { PlayableTrack } from "../playback/types";
+
+// In-memory layer over IndexedDB and the server, per user like both of
+// them; null marks a track with no audio to analyse. A failed analysis
+// isn't kept, so the track is tried again next time it plays.
+const memory = new Map<string, TrackAnalysis | null>();
+
+function memoryKey(userKey: string, trackId: string) {
+  return `${userKey}:${trackId}`;
+}
+
+// Longer audio, such as an hour-long local file, is only analysed this far
+const MAX_ANALYSIS_SECONDS = 20 * 60;
+
+function isShared(track: PlayableTrack) {
+  return track.source !== "file" && track.source !== "microphone";
+}
+
+// The mixdown renders natively off the main thread, and the passes over
+// the samples run in a worker, so a long file doesn't freeze the page
+async function analyzeInWorker(buffer: AudioBuffer, trackId: string): Promise<TrackAnalysis> {
+  const length = Math.min(buffer.length, Math.round(MAX_ANALYSIS_SECONDS * buffer.sampleRate));
+  const context = new OfflineAudioContext(1, length, buffer.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  const samples = (await context.startRendering()).getChannelData(0);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./analysis.worker.ts", import.meta.url));
+    worker.onmessage = (event: MessageEvent<AnalysisResponse>) => {
+      worker.terminate();
+      if ("error" in event.data) reject(new Error(event.data.error));
+      else resolve(event.data.analysis);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+    const request: AnalysisRequest = { trackId, sampleRate: buffer.sampleRate, samples };
+    worker.postMessage(request, [samples.buffer]);
+  });
+}
+
+async function fetchStoredAnalysis(trackId: string): Promise<TrackAnalysis | null> {
+  try {
+    const response = await fetch(`/api/analysis/${encodeURIComponent(trackId)}`);
+    return response.ok ? parseTrackAnalysis(await response.json()) : null;
+  } catch (error) {
+    console.error("Error fetching stored analysis:", error);
+    return null;
+  }
+}
+
+async function uploadAnalysis(analysis: TrackAnalysis) {
+  try {
+    await fetch(`/api/analysis/${encodeURIComponent(analysis.trackId)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(analysis),
+    });
+  } catch (error) {
+    console.error("Error uploading analysis:", error);
+  }
+}
+
+// Cheapest source first: this browser's cache, then the user's copy on
+// the server, then analysing the audio ourselves and storing the result.
+// Resolves to null only when there's no audio; a failed analysis rejects.
+async function loadAnalysis(track: PlayableTrack, userKey: string): Promise<TrackAnalysis | null> {
+  const cached = await loadCachedAnalysis(userKey, track.id);
+  if (cached) return cached;
+
+  if (isShared(track)) {
+    const stored = await fetchStoredAnalysis(track.id);
+    if (stored) {
+      saveCachedAnalysis(userKey, stored);
+      return stored;
+    }
+  }
+
+  if (!track.preview_url) return null;
+  const analysis = await analyzeInWorker(await decodeAudioUrl(track.preview_url), track.id);
+  saveCachedAnalysis(userKey, analysis);
+  if (isShared(track)) uploadAnalysis(analysis);
+  return analysis;
+}
+
+// Beat grid, sections, loudness and peaks of the audio the preview player
+// plays, plus the artwork palette once it's been extracted
+export function useTrackAnalysis(
+  track: PlayableTrack | null,
+  palette: PaletteTheme | null,
+  userKey: string
+): TrackAnalysis | null {
+  // Keyed by track so a new track never sees the previous one's analysis
+  const [loaded, setLoaded] = useState<{ trackId: string; analysis: TrackAnalysis | null } | null>(null);
+
+  useEffect(() => {
+    if (!track || track.source === "microphone") return;
+    const key = memoryKey(userKey, track.id);
+    if (memory.has(key)) {
+      setLoaded({ trackId: track.id, analysis: memory.get(key) ?? null });
+      return;
+    }
+
+    let cancelled = false;
+    loadAnalysis(track, userKey).then(
+      (result) => {
+        memory.set(key, result);
+        if (!cancelled) setLoaded({ trackId: track.id, analysis: result });
+      },
+      (error) => {
+        console.error("Error analysing track:", error);
+        if (!cancelled) setLoaded({ trackId: track.id, analysis: null });
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [track, userKey]);
+
+  const analysis = track && loaded?.trackId === track.id ? loaded.analysis : null;
+
+  // The palette comes from the artwork separately; fold it in once both exist
+  useEffect(() => {
+    if (!analysis || analysis.palette || !palette) return;
+    const updated = { ...analysis, palette: palette.colors };
+    memory.set(memoryKey(userKey, updated.trackId), updated);
+    setLoaded({ trackId: updated.trackId, analysis: updated });
+    saveCachedAnalysis(userKey, updated);
+    if (track && isShared(track)) uploadAnalysis(updated);
+  }, [track, analysis, palette, userKey]);
+
+  return analysis;
+}
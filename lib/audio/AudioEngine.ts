@@ -0,0 +1,172 @@
+import { computeBandEnergies, computeRms, computeSpectralCentroid } from "./features";
+import type { SignalSource } from "./SignalSource";
+
+export interface AudioFeatures {
+  frequencyData: Uint8Array;
+  timeDomainData: Uint8Array;
+  rms: number;
+  spectralCentroid: number;
+  bass: number;
+  mid: number;
+  treble: number;
+}
+
+export interface AudioEngineOptions {
+  // Inject an existing (or offline/mock) context; a real AudioContext is
+  // created lazily on first use otherwise
+  context?: BaseAudioContext;
+  fftSize?: number;
+  smoothingTimeConstant?: number;
+}
+
+// Media elements can only ever be wrapped by one MediaElementAudioSourceNode,
+// so the node is remembered for the lifetime of the element.
+const mediaSources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+
+export class AudioEngine implements SignalSource {
+  private ctx: BaseAudioContext | null;
+  private analyser: AnalyserNode | null = null;
+  private inputs = new Map<AudioNode, { monitor: boolean }>();
+  private _fftSize: number;
+  private smoothingTimeConstant: number;
+
+  constructor(options: AudioEngineOptions = {}) {
+    this.ctx = options.context ?? null;
+    this._fftSize = options.fftSize ?? 256;
+    this.smoothingTimeConstant = options.smoothingTimeConstant ?? 0.8;
+  }
+
+  get fftSize() {
+    return this._fftSize;
+  }
+
+  // Analyser settings can change while audio is flowing; reads pick up the
+  // new size straight away, so callers should size their buffers from
+  // `fftSize` rather than keep them
+  configure({ fftSize, smoothingTimeConstant }: Pick<AudioEngineOptions, "fftSize" | "smoothingTimeConstant">) {
+    if (fftSize !== undefined) this._fftSize = fftSize;
+    if (smoothingTimeConstant !== undefined) this.smoothingTimeConstant = smoothingTimeConstant;
+    if (this.analyser) {
+      this.analyser.fftSize = this._fftSize;
+      this.analyser.smoothingTimeConstant = this.smoothingTimeConstant;
+    }
+  }
+
+  get context(): BaseAudioContext {
+    if (!this.ctx) {
+      this.ctx = new AudioContext();
+    }
+    return this.ctx;
+  }
+
+  get binCount() {
+    return this.fftSize / 2;
+  }
+
+  get sampleRate() {
+    return this.context.sampleRate;
+  }
+
+  private getAnalyser(): AnalyserNode {
+    if (!this.analyser) {
+      const analyser = this.context.createAnalyser();
+      analyser.fftSize = this.fftSize;
+      analyser.smoothingTimeConstant = this.smoothingTimeConstant;
+      this.analyser = analyser;
+    }
+    return this.analyser;
+  }
+
+  // Route an <audio>/<video> element through the analyser. Safe to call
+  // repeatedly for the same element.
+  attachMediaElement(element: HTMLMediaElement) {
+    const context = this.context;
+    if (!("createMediaElementSource" in context)) {
+      throw new Error("Media elements need a realtime AudioContext");
+    }
+
+    let source = mediaSources.get(element);
+    if (!source) {
+      source = (context as AudioContext).createMediaElementSource(element);
+      mediaSources.set(element, source);
+    } else if (source.context !== context) {
+      throw new Error("Media element is already attached to another AudioContext");
+    }
+    this.connectSource(source);
+  }
+
+  // Route any source node (buffer, stream, oscillator) through the
+  // analyser. Monitored sources are also sent to the speakers; live inputs
+  // such as microphones should not be, or they feed back.
+  connectSource(node: AudioNode, { monitor = true }: { monitor?: boolean } = {}) {
+    if (this.inputs.has(node)) return;
+    node.connect(this.getAnalyser());
+    if (monitor) node.connect(this.context.destination);
+    this.inputs.set(node, { monitor });
+  }
+
+  disconnectSource(node: AudioNode) {
+    const input = this.inputs.get(node);
+    if (!input) return;
+    this.inputs.delete(node);
+    node.disconnect(this.getAnalyser());
+    if (input.monitor) node.disconnect(this.context.destination);
+  }
+
+  // Browsers start contexts suspended until a user gesture
+  async resume() {
+    const context = this.ctx;
+    if (context && "resume" in context && context.state === "suspended") {
+      await (context as AudioContext).resume();
+    }
+  }
+
+  get isActive() {
+    return this.inputs.size > 0 && this.ctx?.state === "running";
+  }
+
+  createFeatures(): AudioFeatures {
+    return {
+      frequencyData: new Uint8Array(this.binCount),
+      timeDomainData: new Uint8Array(this.fftSize),
+      rms: 0,
+      spectralCentroid: 0,
+      bass: 0,
+      mid: 0,
+      treble: 0,
+    };
+  }
+
+  // Fill `features` in place with the analyser's current state. Pass the
+  // same object every frame to avoid allocating.
+  read(features: AudioFeatures = this.createFeatures()): AudioFeatures {
+    const analyser = this.getAnalyser();
+    analyser.getByteFrequencyData(features.frequencyData);
+    analyser.getByteTimeDomainData(features.timeDomainData);
+
+    const bands = computeBandEnergies(features.frequencyData, this.sampleRate, this.fftSize);
+    features.rms = computeRms(features.timeDomainData);
+    features.spectralCentroid = computeSpectralCentroid(
+      features.frequencyData,
+      this.sampleRate,
+      this.fftSize
+    );
+    features.bass = bands.bass;
+    features.mid = bands.mid;
+    features.treble = bands.treble;
+    return features;
+  }
+
+  async dispose() {
+    for (const node of this.inputs.keys()) {
+      node.disconnect();
+    }
+    this.inputs.clear();
+    this.analyser?.disconnect();
+    this.analyser = null;
+    if (this.ctx && "close" in this.ctx) {
+      await (this.ctx as AudioContext).close();
+    }
+    this.ctx = null;
+  }
+}
@@ -0,0 +1,164 @@
+// Real-time onset detection over analyser spectra. Onsets are peaks in
+// spectral flux (the summed increase of every bin since the last frame)
+// that rise above an adaptive threshold of mean + sensitivity * stddev of
+// recent flux. Tempo is estimated from the spacing between recent onsets.
+
+export interface BeatEvent {
+  time: number; // seconds, on the clock passed to process()
+  strength: number; // how far flux exceeded the threshold, 0-1
+  confidence: number; // strength weighted by how well the onset fits the tempo, 0-1
+  bpm: number | null;
+}
+
+export type BeatListener = (event: BeatEvent) => void;
+
+export interface BeatDetectorOptions {
+  historySize?: number; // flux values in the adaptive window (~0.7s at 60fps)
+  sensitivity?: number; // stddevs above the mean an onset must reach
+  minInterval?: number; // refractory period between onsets, seconds
+  minBpm?: number;
+  maxBpm?: number;
+}
+
+const ONSET_MEMORY = 24;
+
+export class BeatDetector {
+  private readonly historySize: number;
+  private readonly sensitivity: number;
+  private readonly minInterval: number;
+  private readonly minBpm: number;
+  private readonly maxBpm: number;
+
+  private previous: Float32Array | null = null;
+  private fluxHistory: number[] = [];
+  private onsetTimes: number[] = [];
+  private lastOnset = -Infinity;
+  private listeners = new Set<BeatListener>();
+
+  bpm: number | null = null;
+  tempoConfidence = 0;
+
+  constructor(options: BeatDetectorOptions = {}) {
+    this.historySize = options.historySize ?? 43;
+    this.sensitivity = options.sensitivity ?? 1.5;
+    this.minInterval = options.minInterval ?? 0.25;
+    this.minBpm = options.minBpm ?? 70;
+    this.maxBpm = options.maxBpm ?? 180;
+  }
+
+  subscribe(listener: BeatListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  reset() {
+    this.previous = null;
+    this.fluxHistory = [];
+    this.onsetTimes = [];
+    this.lastOnset = -Infinity;
+    this.bpm = null;
+    this.tempoConfidence = 0;
+  }
+
+  // Feed one analyser frame. Returns the beat event if this frame is an
+  // onset, after notifying subscribers.
+  process(frequencyData: Uint8Array, time: number): BeatEvent | null {
+    const flux = this.computeFlux(frequencyData);
+
+    const history = this.fluxHistory;
+    const warm = history.length >= this.historySize / 2;
+    let mean = 0;
+    for (const value of history) mean += value;
+    mean /= history.length || 1;
+    let variance = 0;
+    for (const value of history) variance += (value - mean) ** 2;
+    const threshold = mean + this.sensitivity * Math.sqrt(variance / (history.length || 1));
+
+    history.push(flux);
+    if (history.length > this.historySize) history.shift();
+
+    if (!warm || flux <= threshold || flux < 0.002 || time - this.lastOnset < this.minInterval) {
+      return null;
+    }
+
+    this.lastOnset = time;
+    this.onsetTimes.push(time);
+    if (this.onsetTimes.length > ONSET_MEMORY) this.onsetTimes.shift();
+    this.estimateTempo();
+
+    const strength = Math.min(1, (flux - threshold) / (threshold || 1));
+    const event: BeatEvent = {
+      time,
+      strength,
+      confidence: strength * (0.5 + 0.5 * this.gridFit(time)),
+      bpm: this.bpm,
+    };
+    this.listeners.forEach((listener) => listener(event));
+    return event;
+  }
+
+  private computeFlux(frequencyData: Uint8Array): number {
+    let flux = 0;
+    let previous = this.previous;
+    if (previous && previous.length === frequencyData.length) {
+      for (let i = 0; i < frequencyData.length; i++) {
+        const rise = frequencyData[i] / 255 - previous[i];
+        if (rise > 0) flux += rise;
+      }
+      flux /= frequencyData.length;
+    } else {
+      previous = this.previous = new Float32Array(frequencyData.length);
+    }
+
+    for (let i = 0; i < frequencyData.length; i++) {
+      previous[i] = frequencyData[i] / 255;
+    }
+    return flux;
+  }
+
+  // Histogram of inter-onset intervals folded into [minBpm, maxBpm]; the
+  // best supported bin (with its neighbours) wins.
+  private estimateTempo() {
+    const times = this.onsetTimes;
+    if (times.length < 4) return;
+
+    const votes = new Map<number, number>();
+    let total = 0;
+    for (let i = 1; i < times.length; i++) {
+      // Compare against a few earlier onsets too, so skipped beats still vote
+      for (let back = 1; back <= 3 && i - back >= 0; back++) {
+        let bpm = 60 / (times[i] - times[i - back]);
+        while (bpm < this.minBpm) bpm *= 2;
+        while (bpm > this.maxBpm) bpm /= 2;
+        const bin = Math.round(bpm);
+        votes.set(bin, (votes.get(bin) ?? 0) + 1 / back);
+        total += 1 / back;
+      }
+    }
+
+    let bestBpm = 0;
+    let bestScore = 0;
+    for (const bin of votes.keys()) {
+      const score = (votes.get(bin - 1) ?? 0) + (votes.get(bin) ?? 0) + (votes.get(bin + 1) ?? 0);
+      if (score > bestScore) {
+        bestScore = score;
+        bestBpm = bin;
+      }
+    }
+
+    this.bpm = bestBpm || null;
+    this.tempoConfidence = total ? Math.min(1, bestScore / total) : 0;
+  }
+
+  // 1 when `time` lands exactly one beat period after the previous onset
+  private gridFit(time: number): number {
+    if (!this.bpm || this.onsetTimes.length < 2) return 0;
+    const period = 60 / this.bpm;
+    const interval = time - this.onsetTimes[this.onsetTimes.length - 2];
+    const phase = (interval / period) % 1;
+    const distance = Math.min(phase, 1 - phase);
+    return this.tempoConfidence * (1 - distance * 2);
+  }
+}
@@ -0,0 +1,36 @@
+import type { AudioFeatures } from "./AudioEngine";
+import { computeBandEnergies, computeRms, computeSpectralCentroid } from "./features";
+import type { PrecomputedAnalysis } from "./offlineAnalysis";
+import type { SignalSource } from "./SignalSource";
+
+// Plays back a precomputed analysis frame by frame
+export class PrecomputedSource implements SignalSource {
+  readonly isActive = true;
+
+  constructor(readonly analysis: PrecomputedAnalysis) {}
+
+  get fftSize() {
+    return this.analysis.fftSize;
+  }
+
+  get sampleRate() {
+    return this.analysis.sampleRate;
+  }
+
+  read(features: AudioFeatures, time: number): AudioFeatures {
+    const { fps, fftSize, frameCount, frequencyFrames, timeDomainFrames } = this.analysis;
+    const bins = fftSize / 2;
+    const frame = Math.max(0, Math.min(frameCount - 1, Math.floor(time * fps)));
+
+    features.frequencyData.set(frequencyFrames.subarray(frame * bins, (frame + 1) * bins));
+    features.timeDomainData.set(timeDomainFrames.subarray(frame * fftSize, (frame + 1) * fftSize));
+
+    const bands = computeBandEnergies(features.frequencyData, this.sampleRate, fftSize);
+    features.rms = computeRms(features.timeDomainData);
+    features.spectralCentroid = computeSpectralCentroid(features.frequencyData, this.sampleRate, fftSize);
+    features.bass = bands.bass;
+    features.mid = bands.mid;
+    features.treble = bands.treble;
+    return features;
+  }
+}
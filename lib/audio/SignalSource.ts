@@ -0,0 +1,29 @@
+import type { AudioFeatures } from "./AudioEngine";
+
+// Anything the Visualizer can pull audio features from: the live analyser,
+// a synthetic generator, or later an offline analysis.
+export interface SignalSource {
+  readonly fftSize: number;
+  readonly sampleRate: number;
+  // False while the source has nothing to say (e.g. paused, not yet wired)
+  readonly isActive: boolean;
+  // Fill `features` in place for `time` seconds into the source
+  read(features: AudioFeatures, time: number): AudioFeatures;
+}
+
+// Reads `source` on an external clock (seconds) instead of the Visualizer's,
+// e.g. a synthetic source following a remote playback position
+export function withClock(source: SignalSource, clock: () => number): SignalSource {
+  return {
+    get fftSize() {
+      return source.fftSize;
+    },
+    get sampleRate() {
+      return source.sampleRate;
+    },
+    get isActive() {
+      return source.isActive;
+    },
+    read: (features) => source.read(features, clock()),
+  };
+}
@@ -0,0 +1,132 @@
+import type { AudioFeatures } from "./AudioEngine";
+import { computeBandEnergies, computeRms, computeSpectralCentroid } from "./features";
+import type { SignalSource } from "./SignalSource";
+import { hashNoise, hashString } from "../random";
+
+// Track-level parameters the generator builds its music from
+export interface TrackSignature {
+  seed: number;
+  tempo: number; // BPM
+  energy: number; // 0-1
+  key: number; // pitch class, 0 = C
+  mode: number; // 1 = major, 0 = minor
+  durationMs: number;
+}
+
+export interface TrackLike {
+  id: string;
+  duration_ms?: number;
+  popularity?: number;
+}
+
+// Without audio features every value is derived from the track id, so the
+// same track always gets the same signature.
+export function signatureFromTrack(
+  track: TrackLike,
+  overrides: Partial<Omit<TrackSignature, "seed">> = {}
+): TrackSignature {
+  const seed = hashString(track.id);
+  return {
+    seed,
+    tempo: overrides.tempo ?? 80 + hashNoise(seed, 1) * 80,
+    energy: overrides.energy ?? 0.3 + (track.popularity ?? hashNoise(seed, 2) * 100) / 100 * 0.6,
+    key: overrides.key ?? Math.floor(hashNoise(seed, 3) * 12),
+    mode: overrides.mode ?? (hashNoise(seed, 4) > 0.4 ? 1 : 0),
+    durationMs: overrides.durationMs ?? track.duration_ms ?? 180000,
+  };
+}
+
+// I-V-vi-IV in major, i-VI-III-VII in minor, as semitones above the key
+const PROGRESSIONS = {
+  major: [[0, 4, 7], [7, 11, 14], [9, 12, 16], [5, 9, 12]],
+  minor: [[0, 3, 7], [8, 12, 15], [3, 7, 10], [10, 14, 17]],
+};
+
+const C3 = 130.81;
+
+// Deterministic, music-like spectra: a kick/snare/hat pattern on the
+// track's tempo over a chord progression in its key, shaped by a simple
+// intro / build / drop / outro energy curve across its duration. The output
+// is a pure function of (signature, time).
+export class SyntheticSource implements SignalSource {
+  readonly isActive = true;
+  private readonly chordFrequencies: number[][];
+
+  constructor(
+    readonly signature: TrackSignature,
+    readonly fftSize = 256,
+    readonly sampleRate = 44100
+  ) {
+    const root = C3 * Math.pow(2, signature.key / 12);
+    const progression = signature.mode === 1 ? PROGRESSIONS.major : PROGRESSIONS.minor;
+    this.chordFrequencies = progression.map((chord) =>
+      chord.map((semitones) => root * Math.pow(2, semitones / 12))
+    );
+  }
+
+  // Section energy over the track, 0-1
+  private sectionLevel(time: number): number {
+    const duration = this.signature.durationMs / 1000;
+    const progress = duration > 0 ? (time % duration) / duration : 0;
+    if (progress < 0.1) return 0.4 + progress * 3; // intro
+    if (progress < 0.3) return 0.6; // verse
+    if (progress < 0.35) return 0.6 + (progress - 0.3) * 8; // build
+    if (progress < 0.6) return 1; // drop
+    if (progress < 0.85) return 0.75;
+    return Math.max(0.2, 0.75 - (progress - 0.85) * 4); // outro
+  }
+
+  read(features: AudioFeatures, time: number): AudioFeatures {
+    const { seed, tempo, energy } = this.signature;
+    const { frequencyData, timeDomainData } = features;
+    const beatLength = 60 / tempo;
+    const beat = time / beatLength;
+    const beatPhase = beat - Math.floor(beat);
+    const beatInBar = Math.floor(beat) % 4;
+    const eighthPhase = (beat * 2) % 1;
+    const chord = this.chordFrequencies[Math.floor(beat / 16) % this.chordFrequencies.length];
+
+    const level = this.sectionLevel(time) * (0.4 + energy * 0.6);
+    const kick = Math.exp(-beatPhase * 10);
+    const snare = beatInBar % 2 === 1 ? Math.exp(-beatPhase * 14) : 0;
+    const hat = Math.exp(-eighthPhase * 30) * energy;
+    const binWidth = this.sampleRate / this.fftSize;
+    const noiseFrame = Math.floor(time * 30);
+
+    for (let i = 0; i < frequencyData.length; i++) {
+      const frequency = i * binWidth;
+      // Pink-ish floor falling off with frequency
+      let magnitude = 0.35 * Math.pow(1 - i / frequencyData.length, 1.5);
+
+      for (const note of chord) {
+        for (let harmonic = 1; harmonic <= 4; harmonic++) {
+          const distance = Math.abs(frequency - note * harmonic) / binWidth;
+          if (distance < 1.5) magnitude += (0.5 / harmonic) * (1 - distance / 1.5);
+        }
+      }
+
+      if (frequency < 150) magnitude += kick * 0.9;
+      else if (frequency < 3000) magnitude += snare * 0.45;
+      if (frequency > 6000) magnitude += hat * 0.5;
+
+      const noise = hashNoise(seed, i, noiseFrame) * 0.15;
+      frequencyData[i] = Math.max(0, Math.min(255, (magnitude * level + noise * level) * 255));
+    }
+
+    for (let i = 0; i < timeDomainData.length; i++) {
+      const t = time + i / this.sampleRate;
+      let sample = Math.sin(2 * Math.PI * 55 * t) * kick * 0.5;
+      for (const note of chord) sample += Math.sin(2 * Math.PI * note * t) * 0.12;
+      sample += (hashNoise(seed, i, noiseFrame) - 0.5) * hat * 0.3;
+      timeDomainData[i] = Math.max(0, Math.min(255, 128 + sample * level * 127));
+    }
+
+    const bands = computeBandEnergies(frequencyData, this.sampleRate, this.fftSize);
+    features.rms = computeRms(timeDomainData);
+    features.spectralCentroid = computeSpectralCentroid(frequencyData, this.sampleRate, this.fftSize);
+    features.bass = bands.bass;
+    features.mid = bands.mid;
+    features.treble = bands.treble;
+    return features;
+  }
+}
@@ -0,0 +1,73 @@
+// Pure feature extractors over analyser-style byte buffers. They take the
+// sample rate and FFT size explicitly so they work the same for live,
+// offline and synthetic data.
+
+export interface BandEnergies {
+  bass: number;
+  mid: number;
+  treble: number;
+}
+
+export const BAND_RANGES = {
+  bass: [20, 250],
+  mid: [250, 4000],
+  treble: [4000, 20000],
+} as const;
+
+function binFrequency(bin: number, sampleRate: number, fftSize: number) {
+  return (bin * sampleRate) / fftSize;
+}
+
+// Root mean square of a byte time-domain buffer, 0 (silence) to 1 (full scale)
+export function computeRms(timeDomainData: Uint8Array): number {
+  if (timeDomainData.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < timeDomainData.length; i++) {
+    const sample = (timeDomainData[i] - 128) / 128;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / timeDomainData.length);
+}
+
+// Magnitude-weighted mean frequency in Hz; 0 when the spectrum is empty
+export function computeSpectralCentroid(
+  frequencyData: Uint8Array,
+  sampleRate: number,
+  fftSize: number
+): number {
+  let weighted = 0;
+  let total = 0;
+  for (let i = 0; i < frequencyData.length; i++) {
+    weighted += binFrequency(i, sampleRate, fftSize) * frequencyData[i];
+    total += frequencyData[i];
+  }
+  return total === 0 ? 0 : weighted / total;
+}
+
+// Average magnitude per band, normalized to 0-1
+export function computeBandEnergies(
+  frequencyData: Uint8Array,
+  sampleRate: number,
+  fftSize: number
+): BandEnergies {
+  const sums = { bass: 0, mid: 0, treble: 0 };
+  const counts = { bass: 0, mid: 0, treble: 0 };
+
+  for (let i = 0; i < frequencyData.length; i++) {
+    const frequency = binFrequency(i, sampleRate, fftSize);
+    for (const band of ["bass", "mid", "treble"] as const) {
+      const [low, high] = BAND_RANGES[band];
+      if (frequency >= low && frequency < high) {
+        sums[band] += frequencyData[i];
+        counts[band]++;
+        break;
+      }
+    }
+  }
+
+  return {
+    bass: counts.bass ? sums.bass / counts.bass / 255 : 0,
+    mid: counts.mid ? sums.mid / counts.mid / 255 : 0,
+    treble: counts.treble ? sums.treble / counts.treble / 255 : 0,
+  };
+}
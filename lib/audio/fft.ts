@@ -0,0 +1,37 @@
+// In-place iterative radix-2 FFT. `real` and `imag` must share a
+// power-of-two length.
+export function fft(real: Float32Array, imag: Float32Array) {
+  const n = real.length;
+  if (n !== imag.length || (n & (n - 1)) !== 0) {
+    throw new Error("FFT size must be a power of two");
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tReal = real[b] * cos - imag[b] * sin;
+        const tImag = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+      }
+    }
+  }
+}
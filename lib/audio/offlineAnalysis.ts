@@ -0,0 +1,99 @@
+import { fft } from "./fft";
+
+// Analyser-equivalent frames for a whole decoded file, sampled at a fixed
+// frame rate. Rendering from these instead of a live AnalyserNode makes the
+// output independent of playback and machine speed.
+export interface PrecomputedAnalysis {
+  fps: number;
+  fftSize: number;
+  sampleRate: number;
+  frameCount: number;
+  duration: number; // seconds
+  frequencyFrames: Uint8Array; // frameCount * fftSize / 2 bytes
+  timeDomainFrames: Uint8Array; // frameCount * fftSize bytes
+}
+
+export interface OfflineAnalysisOptions {
+  fps?: number;
+  fftSize?: number;
+  // Same meaning and defaults as the AnalyserNode properties
+  smoothingTimeConstant?: number;
+  minDecibels?: number;
+  maxDecibels?: number;
+}
+
+// The parts of an AudioBuffer the offline analyses read, so they also run
+// on plain sample arrays where there's no AudioBuffer, e.g. in a worker
+export type AudioSamples = Pick<AudioBuffer, "duration" | "length" | "numberOfChannels" | "sampleRate" | "getChannelData">;
+
+// Mono input is returned as is rather than copied
+export function mixToMono(buffer: AudioSamples): Float32Array {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) mono[i] += samples[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+// Mirrors the Web Audio spec's AnalyserNode: Blackman window, magnitude
+// smoothing over time, then decibels mapped onto 0-255.
+export function analyzeAudioBuffer(buffer: AudioSamples, options: OfflineAnalysisOptions = {}): PrecomputedAnalysis {
+  const fps = options.fps ?? 60;
+  const fftSize = options.fftSize ?? 256;
+  const smoothing = options.smoothingTimeConstant ?? 0.8;
+  const minDecibels = options.minDecibels ?? -100;
+  const maxDecibels = options.maxDecibels ?? -30;
+  const bins = fftSize / 2;
+
+  const samples = mixToMono(buffer);
+  const frameCount = Math.ceil(buffer.duration * fps);
+  const frequencyFrames = new Uint8Array(frameCount * bins);
+  const timeDomainFrames = new Uint8Array(frameCount * fftSize);
+
+  const blackman = new Float32Array(fftSize);
+  for (let i = 0; i < fftSize; i++) {
+    const x = i / fftSize;
+    blackman[i] = 0.42 - 0.5 * Math.cos(2 * Math.PI * x) + 0.08 * Math.cos(4 * Math.PI * x);
+  }
+
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+  const smoothed = new Float32Array(bins);
+  const range = maxDecibels - minDecibels;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    // The analyser looks at the most recent fftSize samples
+    const end = Math.min(samples.length, Math.round(((frame + 1) / fps) * buffer.sampleRate));
+    const start = end - fftSize;
+
+    for (let i = 0; i < fftSize; i++) {
+      const index = start + i;
+      const sample = index >= 0 ? samples[index] : 0;
+      real[i] = sample * blackman[i];
+      imag[i] = 0;
+      timeDomainFrames[frame * fftSize + i] = Math.max(0, Math.min(255, 128 + sample * 128));
+    }
+
+    fft(real, imag);
+
+    for (let bin = 0; bin < bins; bin++) {
+      const magnitude = Math.hypot(real[bin], imag[bin]) / fftSize;
+      smoothed[bin] = smoothing * smoothed[bin] + (1 - smoothing) * magnitude;
+      const decibels = smoothed[bin] > 0 ? 20 * Math.log10(smoothed[bin]) : -Infinity;
+      const scaled = ((decibels - minDecibels) / range) * 255;
+      frequencyFrames[frame * bins + bin] = Math.max(0, Math.min(255, scaled));
+    }
+  }
+
+  return {
+    fps,
+    fftSize,
+    sampleRate: buffer.sampleRate,
+    frameCount,
+    duration: buffer.duration,
+    frequencyFrames,
+    timeDomainFrames,
+  };
+}
@@ -0,0 +1,178 @@
+import { BeatDetector } from "./BeatDetector";
+import { computeBandEnergies, computeRms, computeSpectralCentroid } from "./features";
+import { fft } from "./fft";
+import { analyzeAudioBuffer, mixToMono } from "./offlineAnalysis";
+import type { TrackSignature } from "./SyntheticSource";
+import { hashNoise } from "../random";
+import type { TrackAudioFeatures } from "../../types/spotify";
+
+// Track-level descriptors the visual mapping works from. Values follow
+// Spotify's audio-features conventions whichever way they were obtained.
+export interface TrackFeatures {
+  tempo: number; // BPM
+  energy: number; // 0-1
+  valence: number; // 0 (sad, tense) to 1 (happy, euphoric)
+  danceability: number; // 0-1
+  acousticness: number; // 0-1
+  key: number; // pitch class, 0 = C
+  mode: number; // 1 = major, 0 = minor
+  // spotify: from /audio-features; analysis: measured from the audio;
+  // estimate: derived from the track id when there's nothing to measure
+  source: "spotify" | "analysis" | "estimate";
+}
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
+
+export function featuresFromSpotify(features: TrackAudioFeatures): TrackFeatures {
+  return {
+    tempo: features.tempo,
+    energy: features.energy,
+    valence: features.valence,
+    danceability: features.danceability,
+    acousticness: features.acousticness,
+    key: Math.max(0, features.key),
+    mode: features.mode,
+    source: "spotify",
+  };
+}
+
+// Fills in the descriptors a signature doesn't carry, consistently with the
+// ones it does: faster, louder, major-key signatures read as happier and
+// more danceable.
+export function featuresFromSignature(signature: TrackSignature): TrackFeatures {
+  const { seed, tempo, energy, key, mode } = signature;
+  const groove = clamp01(1 - Math.abs(tempo - 120) / 60);
+  return {
+    tempo,
+    energy,
+    valence: clamp01(0.2 + mode * 0.3 + energy * 0.2 + (hashNoise(seed, 5) - 0.5) * 0.4),
+    danceability: clamp01(groove * 0.5 + energy * 0.3 + hashNoise(seed, 6) * 0.2),
+    acousticness: clamp01(1 - energy * 1.1 + (hashNoise(seed, 7) - 0.5) * 0.3),
+    key,
+    mode,
+    source: "estimate",
+  };
+}
+
+// Krumhansl-Kessler key profiles, starting on the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const CHROMA_FFT_SIZE = 4096;
+const CHROMA_HOP_SECONDS = 0.25;
+const C4 = 261.63;
+
+function correlation(a: number[], b: number[]) {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  return varianceA && varianceB ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+// Summed pitch-class energy across the track, from a longer FFT than the
+// analyser frames so neighbouring semitones separate in the bass
+function computeChroma(samples: Float32Array, sampleRate: number): number[] {
+  const chroma = new Array<number>(12).fill(0);
+  const real = new Float32Array(CHROMA_FFT_SIZE);
+  const imag = new Float32Array(CHROMA_FFT_SIZE);
+  const hop = Math.round(CHROMA_HOP_SECONDS * sampleRate);
+  const pitchClasses = new Int8Array(CHROMA_FFT_SIZE / 2).fill(-1);
+  for (let bin = 1; bin < CHROMA_FFT_SIZE / 2; bin++) {
+    const frequency = (bin * sampleRate) / CHROMA_FFT_SIZE;
+    if (frequency < 55 || frequency > 2000) continue;
+    pitchClasses[bin] = ((Math.round(12 * Math.log2(frequency / C4)) % 12) + 12) % 12;
+  }
+
+  for (let start = 0; start + CHROMA_FFT_SIZE <= samples.length; start += hop) {
+    for (let i = 0; i < CHROMA_FFT_SIZE; i++) {
+      const hann = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / CHROMA_FFT_SIZE);
+      real[i] = samples[start + i] * hann;
+      imag[i] = 0;
+    }
+    fft(real, imag);
+    for (let bin = 1; bin < CHROMA_FFT_SIZE / 2; bin++) {
+      if (pitchClasses[bin] >= 0) chroma[pitchClasses[bin]] += Math.hypot(real[bin], imag[bin]);
+    }
+  }
+  return chroma;
+}
+
+function estimateKey(chroma: number[]): { key: number; mode: number } {
+  let best = { key: 0, mode: 1, score: -Infinity };
+  for (let key = 0; key < 12; key++) {
+    const rotated = chroma.map((_, pitch) => chroma[(pitch + key) % 12]);
+    const major = correlation(rotated, MAJOR_PROFILE);
+    const minor = correlation(rotated, MINOR_PROFILE);
+    if (major > best.score) best = { key, mode: 1, score: major };
+    if (minor > best.score) best = { key, mode: 0, score: minor };
+  }
+  return { key: best.key, mode: best.mode };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Local stand-in for /audio-features. Tempo comes from running the live
+// beat detector over offline analyser frames; key and mode from a chroma
+// profile match; the rest are heuristics over loudness, onset density and
+// spectral balance, calibrated loosely against Spotify's values.
+export function analyzeTrackFeatures(buffer: AudioBuffer): TrackFeatures {
+  const analysis = analyzeAudioBuffer(buffer, { fps: 60 });
+  const { fftSize, fps, frameCount, sampleRate } = analysis;
+  const bins = fftSize / 2;
+
+  const detector = new BeatDetector();
+  const tempos: number[] = [];
+  let onsets = 0;
+  let rms = 0;
+  let centroid = 0;
+  let treble = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    const frequencyData = analysis.frequencyFrames.subarray(frame * bins, (frame + 1) * bins);
+    const timeDomainData = analysis.timeDomainFrames.subarray(frame * fftSize, (frame + 1) * fftSize);
+    const event = detector.process(frequencyData, frame / fps);
+    if (event) {
+      onsets++;
+      if (event.bpm) tempos.push(event.bpm);
+    }
+    rms += computeRms(timeDomainData);
+    centroid += computeSpectralCentroid(frequencyData, sampleRate, fftSize);
+    treble += computeBandEnergies(frequencyData, sampleRate, fftSize).treble;
+  }
+  const frames = frameCount || 1;
+  rms /= frames;
+  centroid /= frames;
+  treble /= frames;
+  const onsetRate = onsets / Math.max(1, analysis.duration);
+
+  const tempo = median(tempos) ?? 120;
+  const { key, mode } = estimateKey(computeChroma(mixToMono(buffer), buffer.sampleRate));
+  // Mastered dance music sits around 0.25 RMS; quiet acoustic recordings below 0.1
+  const loudness = clamp01(rms / 0.25);
+  const brightness = clamp01((centroid - 1500) / 3500);
+  const energy = clamp01(loudness * 0.6 + clamp01(onsetRate / 4) * 0.25 + brightness * 0.15);
+  const groove = clamp01(1 - Math.abs(tempo - 120) / 60);
+
+  return {
+    tempo,
+    energy,
+    valence: clamp01(0.15 + mode * 0.3 + brightness * 0.25 + clamp01((tempo - 70) / 100) * 0.3),
+    danceability: clamp01(detector.tempoConfidence * 0.5 + groove * 0.3 + loudness * 0.2),
+    acousticness: clamp01(1 - energy * 0.7 - clamp01(treble * 3) * 0.3),
+    key,
+    mode,
+    source: "analysis",
+  };
+}
@@ -0,0 +1,35 @@
+"use client";
+import { useEffect, useState } from "react";
+import { AudioEngine, type AudioEngineOptions } from "./AudioEngine";
+
+// Owns one AudioEngine for the lifetime of the calling component and routes
+// the given media element through it. The graph is built once, on the
+// element's first play (browsers refuse to start audio without a gesture).
+export function useAudioEngine(
+  element: HTMLMediaElement | null,
+  options?: AudioEngineOptions
+): AudioEngine {
+  const [engine] = useState(() => new AudioEngine(options));
+
+  useEffect(() => {
+    if (!element) return;
+
+    const handlePlay = () => {
+      try {
+        engine.attachMediaElement(element);
+        engine.resume().catch((error) => {
+          console.error("Error resuming audio context:", error);
+        });
+      } catch (error) {
+        console.error("Error setting up audio context:", error);
+      }
+    };
+
+    element.addEventListener("play", handlePlay);
+    return () => {
+      element.removeEventListener("play", handlePlay);
+    };
+  }, [element, engine]);
+
+  return engine;
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { signatureFromTrack, type TrackLike } from "./SyntheticSource";
+import { analyzeTrackFeatures, featuresFromSignature, featuresFromSpotify, type TrackFeatures } from "./trackFeatures";
+import { decodeAudioUrl } from "./waveform";
+import { fetchSpotify } from "../spotify/api";
+import { SpotifyApiError } from "../spotify/client";
+import type { PlayableTrack } from "../playback/types";
+import type { TrackAudioFeatures } from "../../types/spotify";
+
+// Results outlive the component so going back to a track is instant
+const cache = new Map<string, TrackFeatures>();
+// Spotify answers 403 for every track once an app has lost access to the
+// endpoint; stop asking after the first one
+let audioFeaturesUnavailable = false;
+
+async function loadFeatures(track: PlayableTrack & TrackLike): Promise<TrackFeatures> {
+  if (track.source !== "file" && !audioFeaturesUnavailable) {
+    try {
+      const features = await fetchSpotify<TrackAudioFeatures>(`/audio-features/${encodeURIComponent(track.id)}`);
+      return featuresFromSpotify(features);
+    } catch (error) {
+      if (error instanceof SpotifyApiError && error.code === "forbidden") audioFeaturesUnavailable = true;
+      console.error("Error fetching audio features, falling back to local analysis:", error);
+    }
+  }
+
+  if (track.preview_url) {
+    try {
+      return analyzeTrackFeatures(await decodeAudioUrl(track.preview_url));
+    } catch (error) {
+      console.error("Error analysing track audio:", error);
+    }
+  }
+  return featuresFromSignature(signatureFromTrack(track));
+}
+
+// Track-level features for the visual mapping: Spotify's audio features
+// when available, else measured from whatever audio we can fetch, else
+// estimated from the track itself. Live input has none.
+export function useTrackFeatures(track: (PlayableTrack & TrackLike) | null): TrackFeatures | null {
+  // Keyed by track so a new track never renders with the previous one's features
+  const [loaded, setLoaded] = useState<{ trackId: string; features: TrackFeatures } | null>(null);
+
+  useEffect(() => {
+    if (!track || track.source === "microphone") return;
+    const cached = cache.get(track.id);
+    if (cached) {
+      setLoaded({ trackId: track.id, features: cached });
+      return;
+    }
+
+    let cancelled = false;
+    loadFeatures(track).then((result) => {
+      cache.set(track.id, result);
+      if (!cancelled) setLoaded({ trackId: track.id, features: result });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [track]);
+
+  return track && loaded?.trackId === track.id ? loaded.features : null;
+}
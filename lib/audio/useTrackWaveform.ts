@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { analyzeWaveform, decodeAudioUrl, type TrackWaveform } from "./waveform";
+import type { PlayableTrack } from "../playback/types";
+
+// Overviews by track id, kept for the session. null records a track whose
+// audio couldn't be fetched or decoded, so it isn't retried every render.
+const cache = new Map<string, TrackWaveform | null>();
+
+// For audio that's already decoded elsewhere (local files on import)
+export function cacheTrackWaveform(trackId: string, waveform: TrackWaveform) {
+  cache.set(trackId, waveform);
+}
+
+async function loadWaveform(track: PlayableTrack): Promise<TrackWaveform | null> {
+  if (!track.preview_url) return null;
+  try {
+    return analyzeWaveform(await decodeAudioUrl(track.preview_url));
+  } catch (error) {
+    console.error("Error computing waveform:", error);
+    return null;
+  }
+}
+
+// Peaks and spectrogram of the audio the preview player would play. Live
+// input and tracks without a preview have none.
+export function useTrackWaveform(track: PlayableTrack | null): TrackWaveform | null {
+  // Keyed by track so a new track never draws the previous one's waveform
+  const [loaded, setLoaded] = useState<{ trackId: string; waveform: TrackWaveform | null } | null>(null);
+
+  useEffect(() => {
+    if (!track || track.source === "microphone") return;
+    if (cache.has(track.id)) {
+      setLoaded({ trackId: track.id, waveform: cache.get(track.id) ?? null });
+      return;
+    }
+
+    let cancelled = false;
+    loadWaveform(track).then((result) => {
+      cache.set(track.id, result);
+      if (!cancelled) setLoaded({ trackId: track.id, waveform: result });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [track]);
+
+  return track && loaded?.trackId === track.id ? loaded.waveform : null;
+}
@@ -0,0 +1,137 @@
+import { fft } from "./fft";
+import { mixToMono, type AudioSamples } from "./offlineAnalysis";
+
+// Decoding and peak extraction for drawing waveforms of whole files
+
+// Columns across a seek bar's worth of overview
+export const WAVEFORM_BUCKETS = 400;
+
+export const SUPPORTED_AUDIO_EXTENSIONS = ["mp3", "wav", "ogg", "flac"];
+
+export function isSupportedAudioFile(file: File): boolean {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return SUPPORTED_AUDIO_EXTENSIONS.includes(extension) || /^audio\/(mpeg|wav|x-wav|ogg|flac|x-flac)$/.test(file.type);
+}
+
+// Decode without starting (or needing) the realtime AudioContext
+export async function decodeAudioFile(file: Blob): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(1, 1, 44100);
+  return context.decodeAudioData(await file.arrayBuffer());
+}
+
+// Several analyses of the same track start together; they share one
+// download and decode rather than each fetching the file
+const pendingDecodes = new Map<string, Promise<AudioBuffer>>();
+
+export function decodeAudioUrl(url: string): Promise<AudioBuffer> {
+  const pending = pendingDecodes.get(url);
+  if (pending) return pending;
+
+  const decode = (async () => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to fetch audio (${response.status})`);
+    return decodeAudioFile(await response.blob());
+  })();
+  pendingDecodes.set(url, decode);
+  decode.finally(() => pendingDecodes.delete(url)).catch(() => {});
+  return decode;
+}
+
+// Largest absolute sample per bucket across all channels, 0-1
+export function computePeaks(buffer: AudioSamples, buckets: number): Float32Array {
+  const peaks = new Float32Array(buckets);
+  const bucketSize = buffer.length / buckets;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let bucket = 0; bucket < buckets; bucket++) {
+      const start = Math.floor(bucket * bucketSize);
+      const end = Math.min(samples.length, Math.floor((bucket + 1) * bucketSize));
+      let peak = peaks[bucket];
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(samples[i]);
+        if (value > peak) peak = value;
+      }
+      peaks[bucket] = peak;
+    }
+  }
+  return peaks;
+}
+
+// Loudness per log-spaced frequency band over time, 0-1. `data` holds
+// `bands` values per column, lowest band first.
+export interface Spectrogram {
+  columns: number;
+  bands: number;
+  data: Float32Array;
+}
+
+const SPECTROGRAM_FFT_SIZE = 1024;
+const SPECTROGRAM_MIN_HZ = 40;
+const SPECTROGRAM_MAX_HZ = 16000;
+// Quieter than this below the loudest cell draws as silence
+const SPECTROGRAM_RANGE_DB = 70;
+
+export function computeSpectrogram(buffer: AudioBuffer, columns: number, bands = 32): Spectrogram {
+  const samples = mixToMono(buffer);
+  const size = SPECTROGRAM_FFT_SIZE;
+  const binHz = buffer.sampleRate / size;
+  const maxHz = Math.min(SPECTROGRAM_MAX_HZ, buffer.sampleRate / 2);
+
+  // Bin range per band, at least one bin wide
+  const edges: [number, number][] = [];
+  for (let band = 0; band < bands; band++) {
+    const low = SPECTROGRAM_MIN_HZ * Math.pow(maxHz / SPECTROGRAM_MIN_HZ, band / bands);
+    const high = SPECTROGRAM_MIN_HZ * Math.pow(maxHz / SPECTROGRAM_MIN_HZ, (band + 1) / bands);
+    const start = Math.max(1, Math.floor(low / binHz));
+    edges.push([start, Math.max(start + 1, Math.ceil(high / binHz))]);
+  }
+
+  const hann = new Float32Array(size);
+  for (let i = 0; i < size; i++) hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  const decibels = new Float32Array(columns * bands);
+  let loudest = -Infinity;
+
+  for (let column = 0; column < columns; column++) {
+    const center = Math.floor(((column + 0.5) / columns) * samples.length);
+    for (let i = 0; i < size; i++) {
+      const index = center - size / 2 + i;
+      real[i] = (index >= 0 && index < samples.length ? samples[index] : 0) * hann[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    edges.forEach(([start, end], band) => {
+      let sum = 0;
+      for (let bin = start; bin < end; bin++) sum += Math.hypot(real[bin], imag[bin]);
+      const magnitude = sum / (end - start) / size;
+      const value = magnitude > 0 ? 20 * Math.log10(magnitude) : -Infinity;
+      decibels[column * bands + band] = value;
+      if (value > loudest) loudest = value;
+    });
+  }
+
+  const data = new Float32Array(columns * bands);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.max(0, Math.min(1, (decibels[i] - loudest) / SPECTROGRAM_RANGE_DB + 1));
+  }
+  return { columns, bands, data };
+}
+
+// Everything the seek bar draws for one track
+export interface TrackWaveform {
+  duration: number; // ms of audio the overview covers
+  peaks: Float32Array;
+  spectrogram: Spectrogram;
+}
+
+export function analyzeWaveform(buffer: AudioBuffer, buckets = WAVEFORM_BUCKETS): TrackWaveform {
+  return {
+    duration: buffer.duration * 1000,
+    peaks: computePeaks(buffer, buckets),
+    spectrogram: computeSpectrogram(buffer, buckets),
+  };
+}
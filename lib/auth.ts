@@ -0,0 +1,158 @@
+import type { NextAuthOptions } from "next-auth";
+import type { JWT } from "next-auth/jwt";
+import SpotifyProvider from "next-auth/providers/spotify";
+import { spotifyAccountsUrl, spotifyApiBaseUrl } from "./spotify/client";
+import { SPOTIFY_SCOPES } from "./spotify/scopes";
+
+// The Spotify fields kept in the session JWT
+export type SpotifyToken = Pick<JWT, "accessToken" | "accessTokenExpires" | "refreshToken" | "scope" | "error">;
+
+// Tokens are refreshed this long before they expire, so a request never
+// goes out with one that lapses on the way
+export const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export function needsRefresh(accessTokenExpires: number | undefined) {
+  return accessTokenExpires !== undefined && Date.now() >= accessTokenExpires - REFRESH_MARGIN_MS;
+}
+
+const SECRET_KEYS = /token|secret|authorization/i;
+
+// Copy of a token or response body that's safe to log
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      SECRET_KEYS.test(key) && typeof entry === "string" ? "[redacted]" : redactSecrets(entry),
+    ])
+  );
+}
+
+// Refreshes keyed by refresh token. Requests that arrive together share one
+// call to Spotify, and later requests carrying the same stale cookie reuse
+// the result until it's due for a refresh itself.
+const refreshes = new Map<string, { promise: Promise<SpotifyToken>; settled: boolean; expires: number }>();
+
+function pruneRefreshes() {
+  const now = Date.now();
+  refreshes.forEach((entry, key) => {
+    if (entry.settled && now >= entry.expires - REFRESH_MARGIN_MS) refreshes.delete(key);
+  });
+}
+
+// Only the Spotify fields, so a shared result can be laid over any
+// request's token
+async function requestRefresh(token: SpotifyToken): Promise<SpotifyToken> {
+  try {
+    const response = await fetch(`${spotifyAccountsUrl()}/api/token`, {
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${Buffer.from(
+          `${process.env.SPOTIFY_CLIENT_ID}:${process.env.SPOTIFY_CLIENT_SECRET}`
+        ).toString("base64")}`,
+      },
+      body: new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: token.refreshToken ?? "",
+      }),
+      method: "POST",
+    });
+
+    const refreshedTokens = await response.json();
+    if (!response.ok) {
+      throw new Error(`Token refresh failed (${response.status}): ${JSON.stringify(redactSecrets(refreshedTokens))}`);
+    }
+
+    return {
+      accessToken: refreshedTokens.access_token,
+      accessTokenExpires: Date.now() + refreshedTokens.expires_in * 1000,
+      refreshToken: refreshedTokens.refresh_token ?? token.refreshToken,
+      scope: refreshedTokens.scope ?? token.scope,
+      error: undefined,
+    };
+  } catch (error) {
+    console.error("Error refreshing access token:", error instanceof Error ? error.message : redactSecrets(error));
+    return { error: "RefreshAccessTokenError" };
+  }
+}
+
+// `force` skips a finished refresh whose token Spotify has since rejected;
+// one still in flight is shared all the same
+export async function refreshAccessToken<T extends SpotifyToken>(token: T, { force = false } = {}): Promise<T> {
+  pruneRefreshes();
+  const key = token.refreshToken ?? "";
+  let entry = refreshes.get(key);
+  if (!entry || (force && entry.settled)) {
+    const started = { promise: requestRefresh(token), settled: false, expires: Infinity };
+    refreshes.set(key, started);
+    started.promise.then((refreshed) => {
+      started.settled = true;
+      if (refreshed.error) refreshes.delete(key);
+      else started.expires = refreshed.accessTokenExpires ?? 0;
+    });
+    entry = started;
+  }
+  return { ...token, ...(await entry.promise) };
+}
+
+export const authOptions: NextAuthOptions = {
+  providers: [
+    SpotifyProvider({
+      clientId: process.env.SPOTIFY_CLIENT_ID!,
+      clientSecret: process.env.SPOTIFY_CLIENT_SECRET!,
+      authorization: {
+        url: `${spotifyAccountsUrl()}/authorize`,
+        params: {
+          scope: SPOTIFY_SCOPES.join(" "),
+          show_dialog: "true",
+          access_type: "offline",
+        },
+      },
+      token: `${spotifyAccountsUrl()}/api/token`,
+      userinfo: `${spotifyApiBaseUrl()}/me`,
+    })
+  ],
+  callbacks: {
+    async jwt({ token, account }) {
+      // Initial sign in
+      if (account) {
+        return {
+          ...token,
+          accessToken: account.access_token,
+          accessTokenExpires: Date.now() + ((account.expires_in as number) || 3600) * 1000,
+          refreshToken: account.refresh_token,
+          scope: account.scope,
+          error: undefined, // Clear any previous errors
+        };
+      }
+
+      // Return previous token until it's close to expiring
+      if (!needsRefresh(token.accessTokenExpires)) {
+        return token;
+      }
+
+      if (!token.refreshToken) {
+        console.error("No refresh token available");
+        return {
+          ...token,
+          error: "RefreshAccessTokenError",
+        };
+      }
+
+      return refreshAccessToken(token);
+    },
+    async session({ session, token }) {
+      if (token.error) {
+        session.error = token.error;
+      }
+      if (typeof token.scope === "string") {
+        session.scopes = token.scope.split(" ");
+      }
+      // The access token stays in the encrypted JWT; API routes read it
+      // server-side so it's never sent to the browser with the session
+      return session;
+    }
+  }
+};
+
@@ -0,0 +1,67 @@
+import { SCENE_IDS } from "../scenes";
+import type { TrackAnalysis, TrackSection } from "../analysis/trackAnalysis";
+import type { VisualPreset } from "../presets/schema";
+import { CHOREOGRAPHY_VERSION, type Choreography, type ChoreographyCue, type SectionLabel } from "./schema";
+
+// A jump in section energy this big reads as a drop; the same fall after a
+// loud section as a breakdown
+const ENERGY_STEP = 0.15;
+
+// How each kind of section moves away from the preset: scene steps along
+// the scene list from the preset's, camera scales its distance and adds to
+// its height and orbit
+const LABEL_STYLES: Record<
+  SectionLabel,
+  { sceneOffset: number; distance: number; height: number; orbit: number; hueShift: number; transition: number }
+> = {
+  intro: { sceneOffset: 0, distance: 1.4, height: 1, orbit: 0.05, hueShift: 0, transition: 2 },
+  verse: { sceneOffset: 0, distance: 1, height: 0, orbit: 0, hueShift: 0, transition: 2 },
+  chorus: { sceneOffset: 1, distance: 0.9, height: 0, orbit: 0.15, hueShift: 0.08, transition: 1.5 },
+  drop: { sceneOffset: 2, distance: 0.75, height: 0, orbit: 0.35, hueShift: 0.25, transition: 0.3 },
+  breakdown: { sceneOffset: 3, distance: 1.2, height: -0.5, orbit: -0.1, hueShift: -0.08, transition: 2.5 },
+  outro: { sceneOffset: 0, distance: 1.5, height: 1.5, orbit: 0.05, hueShift: 0, transition: 3 },
+};
+
+// Names sections from how their energy compares with their neighbours
+export function labelSections(sections: TrackSection[]): SectionLabel[] {
+  const labels: SectionLabel[] = [];
+  sections.forEach((section, index) => {
+    const previous = sections[index - 1];
+    const previousLabel = labels[index - 1];
+    const rise = previous ? section.energy - previous.energy : 0;
+    if (index === 0 && sections.length > 1 && section.energy < 0.6) labels.push("intro");
+    else if (index > 0 && index === sections.length - 1 && rise <= -ENERGY_STEP) labels.push("outro");
+    else if (rise >= ENERGY_STEP && section.energy >= 0.85) labels.push("drop");
+    else if ((previousLabel === "drop" || previousLabel === "chorus") && rise <= -ENERGY_STEP) labels.push("breakdown");
+    else if (section.energy >= 0.7) labels.push("chorus");
+    else labels.push("verse");
+  });
+  return labels;
+}
+
+// A starting timeline from the track's analysed sections, built around the
+// active preset so it looks like the user's visualizer, just moving
+export function generateChoreography(analysis: TrackAnalysis, preset: VisualPreset): Choreography {
+  const sections =
+    analysis.sections.length > 0 ? analysis.sections : [{ start: 0, end: analysis.duration, energy: 1 }];
+  const base = Math.max(0, SCENE_IDS.findIndex((id) => id === preset.sceneId));
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+  const cues: ChoreographyCue[] = labelSections(sections).map((label, index) => {
+    const style = LABEL_STYLES[label];
+    return {
+      time: index === 0 ? 0 : sections[index].start,
+      label,
+      sceneId: SCENE_IDS[(base + style.sceneOffset) % SCENE_IDS.length],
+      transition: index === 0 ? 0 : style.transition,
+      camera: {
+        distance: clamp(preset.camera.distance * style.distance, 1, 30),
+        height: clamp(preset.camera.height + style.height, -10, 10),
+        orbitSpeed: clamp(preset.camera.orbitSpeed + style.orbit, -2, 2),
+      },
+      hueShift: style.hueShift,
+    };
+  });
+
+  return { version: CHOREOGRAPHY_VERSION, trackId: analysis.trackId, duration: analysis.duration, cues };
+}
@@ -0,0 +1,88 @@
+import { DEFAULT_SCENE_ID, SCENE_IDS } from "../scenes";
+
+// A choreography: when the visualizer changes scene, where the camera goes
+// and how the palette shifts over one track. Like presets it's plain JSON,
+// and everything it drives is a function of the playback position, so the
+// same document replays the same way every time.
+export const CHOREOGRAPHY_VERSION = 1;
+
+export const SECTION_LABELS = ["intro", "verse", "chorus", "drop", "breakdown", "outro"] as const;
+export type SectionLabel = (typeof SECTION_LABELS)[number];
+
+export interface ChoreographyCue {
+  time: number; // seconds into the track
+  label: SectionLabel;
+  sceneId: string;
+  transition: number; // seconds to crossfade in from the previous cue
+  camera: {
+    distance: number;
+    height: number;
+    orbitSpeed: number; // radians per second
+  };
+  hueShift: number; // rotation applied to the palette, -0.5 to 0.5
+}
+
+export interface Choreography {
+  version: typeof CHOREOGRAPHY_VERSION;
+  trackId: string;
+  duration: number; // seconds of audio the cue times refer to
+  cues: ChoreographyCue[]; // ordered by time, the first at 0
+}
+
+export class ChoreographyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChoreographyError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function number(value: unknown, fallback: number, min: number, max: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+function oneOf<T>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+function parseCue(input: unknown, duration: number): ChoreographyCue {
+  const cue = isRecord(input) ? input : {};
+  const camera = isRecord(cue.camera) ? cue.camera : {};
+  return {
+    time: number(cue.time, 0, 0, duration),
+    label: oneOf(cue.label, SECTION_LABELS, "verse"),
+    sceneId: oneOf<string>(cue.sceneId, SCENE_IDS, DEFAULT_SCENE_ID),
+    transition: number(cue.transition, 1, 0, 10),
+    camera: {
+      distance: number(camera.distance, 5, 1, 30),
+      height: number(camera.height, 0, -10, 10),
+      orbitSpeed: number(camera.orbitSpeed, 0, -2, 2),
+    },
+    hueShift: number(cue.hueShift, 0, -0.5, 0.5),
+  };
+}
+
+// Validates saved and imported timelines the same way parsePreset does:
+// fields are clamped or defaulted, anything that isn't a choreography or
+// is from a newer version is rejected.
+export function parseChoreography(input: unknown): Choreography {
+  if (!isRecord(input)) throw new ChoreographyError("Not a choreography");
+  if (typeof input.version !== "number") throw new ChoreographyError("Choreography has no version");
+  if (input.version > CHOREOGRAPHY_VERSION) {
+    throw new ChoreographyError(`Choreography version ${input.version} is newer than this app supports`);
+  }
+  if (typeof input.trackId !== "string" || !input.trackId) throw new ChoreographyError("Choreography has no track");
+  const duration = number(input.duration, 0, 0, 3600);
+  if (duration <= 0) throw new ChoreographyError("Choreography has no duration");
+  if (!Array.isArray(input.cues) || input.cues.length === 0) throw new ChoreographyError("Choreography has no cues");
+
+  const cues = input.cues
+    .slice(0, 200)
+    .map((cue) => parseCue(cue, duration))
+    .sort((a, b) => a.time - b.time);
+  cues[0] = { ...cues[0], time: 0 };
+  return { version: CHOREOGRAPHY_VERSION, trackId: input.trackId, duration, cues };
+}
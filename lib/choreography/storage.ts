@@ -0,0 +1,46 @@
+import { loadPreference, savePreference } from "../preferences";
+import { ChoreographyError, parseChoreography, type Choreography } from "./schema";
+
+function storageKey(trackId: string) {
+  return `choreography:${trackId}`;
+}
+
+// The user's edited timeline for a track, if they saved one
+export function loadSavedChoreography(userKey: string, trackId: string): Choreography | null {
+  const stored = loadPreference<unknown>(userKey, storageKey(trackId), null);
+  if (stored === null) return null;
+  try {
+    return parseChoreography(stored);
+  } catch (error) {
+    console.error("Error loading saved choreography:", error);
+    return null;
+  }
+}
+
+export function saveChoreography(userKey: string, choreography: Choreography) {
+  savePreference(userKey, storageKey(choreography.trackId), choreography);
+}
+
+export function deleteSavedChoreography(userKey: string, trackId: string) {
+  savePreference(userKey, storageKey(trackId), null);
+}
+
+export function downloadChoreography(choreography: Choreography, name: string) {
+  const blob = new Blob([JSON.stringify(choreography, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${name.replace(/[^a-z0-9-_ ]/gi, "").trim().replace(/\s+/g, "-") || "choreography"}.choreography.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function readChoreographyFile(file: File): Promise<Choreography> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new ChoreographyError(`${file.name} isn't valid JSON`);
+  }
+  return parseChoreography(json);
+}
@@ -0,0 +1,58 @@
+import type { Choreography, ChoreographyCue } from "./schema";
+
+// Where a choreography puts the visualizer at one moment, refilled per frame
+export interface ChoreographyPosition {
+  cueIndex: number;
+  progress: number; // 0-1 through the current cue's transition, eased
+  distance: number;
+  height: number;
+  orbitAngle: number; // radians, integrated from the cues' orbit speeds
+  hueShift: number;
+}
+
+export function createChoreographyPosition(): ChoreographyPosition {
+  return { cueIndex: 0, progress: 1, distance: 5, height: 0, orbitAngle: 0, hueShift: 0 };
+}
+
+function smoothstep(value: number) {
+  const t = Math.max(0, Math.min(1, value));
+  return t * t * (3 - 2 * t);
+}
+
+function lerp(from: number, to: number, t: number) {
+  return from + (to - from) * t;
+}
+
+// Radians turned between the cue's start and `elapsed` seconds into it.
+// Speed ramps linearly from the previous cue's over the transition.
+function orbitDuring(previous: ChoreographyCue | undefined, cue: ChoreographyCue, elapsed: number) {
+  const from = previous?.camera.orbitSpeed ?? cue.camera.orbitSpeed;
+  const to = cue.camera.orbitSpeed;
+  const ramp = Math.min(elapsed, cue.transition);
+  const rampAngle = cue.transition > 0 ? from * ramp + ((to - from) * ramp * ramp) / (2 * cue.transition) : 0;
+  return rampAngle + to * Math.max(0, elapsed - cue.transition);
+}
+
+// Everything is computed from `time` alone (no state carried between
+// frames), so seeking or replaying lands on exactly the same picture
+export function readChoreographyAt(choreography: Choreography, time: number, target: ChoreographyPosition) {
+  const { cues } = choreography;
+  let index = 0;
+  let orbitAngle = 0;
+  for (let i = 0; i < cues.length; i++) {
+    const end = cues[i + 1]?.time ?? Infinity;
+    orbitAngle += orbitDuring(cues[i - 1], cues[i], Math.max(0, Math.min(time, end) - cues[i].time));
+    if (time >= cues[i].time) index = i;
+    if (time < end) break;
+  }
+
+  const cue = cues[index];
+  const previous = cues[index - 1] ?? cue;
+  const progress = cue.transition > 0 ? smoothstep((time - cue.time) / cue.transition) : 1;
+  target.cueIndex = index;
+  target.progress = progress;
+  target.distance = lerp(previous.camera.distance, cue.camera.distance, progress);
+  target.height = lerp(previous.camera.height, cue.camera.height, progress);
+  target.orbitAngle = orbitAngle;
+  target.hueShift = lerp(previous.hueShift, cue.hueShift, progress);
+}
@@ -0,0 +1,75 @@
+import { useEffect, useMemo, useState } from "react";
+import { generateChoreography } from "./generate";
+import { deleteSavedChoreography, loadSavedChoreography, saveChoreography } from "./storage";
+import type { Choreography } from "./schema";
+import { loadPreference, savePreference } from "../preferences";
+import type { TrackAnalysis } from "../analysis/trackAnalysis";
+import type { VisualPreset } from "../presets/schema";
+
+export interface ChoreographyController {
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+  // Unsaved edits, else the saved timeline, else one generated from the analysis
+  choreography: Choreography | null;
+  saved: boolean;
+  edited: boolean;
+  update: (choreography: Choreography) => void;
+  save: () => void;
+  // Drops edits and the saved timeline, back to the generated one
+  reset: () => void;
+}
+
+export function useChoreography(
+  userKey: string,
+  trackId: string | null,
+  analysis: TrackAnalysis | null,
+  preset: VisualPreset
+): ChoreographyController {
+  const [enabled, setEnabledState] = useState(false);
+  // Both keyed by track so switching tracks never shows the last one's timeline
+  const [saved, setSaved] = useState<{ trackId: string; choreography: Choreography | null } | null>(null);
+  const [draft, setDraft] = useState<{ trackId: string; choreography: Choreography } | null>(null);
+
+  useEffect(() => {
+    setEnabledState(loadPreference(userKey, "choreography", false));
+  }, [userKey]);
+
+  useEffect(() => {
+    if (!trackId) return;
+    setSaved({ trackId, choreography: loadSavedChoreography(userKey, trackId) });
+  }, [userKey, trackId]);
+
+  const generated = useMemo(
+    () => (analysis && analysis.trackId === trackId ? generateChoreography(analysis, preset) : null),
+    [analysis, trackId, preset]
+  );
+  const savedChoreography = saved?.trackId === trackId ? saved.choreography : null;
+  const draftChoreography = draft?.trackId === trackId ? draft.choreography : null;
+
+  const setEnabled = (next: boolean) => {
+    setEnabledState(next);
+    savePreference(userKey, "choreography", next);
+  };
+
+  return {
+    enabled,
+    setEnabled,
+    choreography: draftChoreography ?? savedChoreography ?? generated,
+    saved: savedChoreography !== null,
+    edited: draftChoreography !== null,
+    update: (choreography) => setDraft({ trackId: choreography.trackId, choreography }),
+    save: () => {
+      const choreography = draftChoreography ?? savedChoreography ?? generated;
+      if (!choreography) return;
+      saveChoreography(userKey, choreography);
+      setSaved({ trackId: choreography.trackId, choreography });
+      setDraft(null);
+    },
+    reset: () => {
+      if (!trackId) return;
+      deleteSavedChoreography(userKey, trackId);
+      setSaved({ trackId, choreography: null });
+      setDraft(null);
+    },
+  };
+}
@@ -0,0 +1,244 @@
+import { ArrayBufferTarget, Muxer } from "webm-muxer";
+import { encodeWav } from "./wav";
+import { createZip, type ZipEntry } from "./zip";
+
+export type ExportFormat = "webm" | "png-zip";
+
+export interface ExportSettings {
+  format: ExportFormat;
+  width: number;
+  height: number;
+  fps: number;
+  duration: number; // seconds
+  videoBitrate?: number;
+}
+
+// Renders one frame of the visualization at a fixed time onto `canvas`
+export interface FrameRenderer {
+  canvas: HTMLCanvasElement;
+  renderFrame(time: number): void;
+}
+
+export interface ExportProgress {
+  frame: number;
+  frameCount: number;
+}
+
+interface ExportOptions {
+  audio?: AudioBuffer | null;
+  onProgress?: (progress: ExportProgress) => void;
+  signal?: AbortSignal;
+}
+
+const OPUS_SAMPLE_RATE = 48000;
+
+export function isWebCodecsSupported() {
+  return typeof window !== "undefined" && "VideoEncoder" in window && "AudioEncoder" in window;
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new DOMException("Export cancelled", "AbortError");
+}
+
+// Let the encoder drain so frames don't pile up in memory
+async function waitForQueue(encoder: VideoEncoder | AudioEncoder, limit: number) {
+  while (encoder.encodeQueueSize > limit) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+}
+
+// Codec instances hold hardware resources until closed, whether or not
+// the export got to the end
+function closeEncoder(encoder: VideoEncoder | AudioEncoder) {
+  if (encoder.state !== "closed") encoder.close();
+}
+
+// Opus only accepts a handful of sample rates; normalize to 48kHz
+async function resample(buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> {
+  if (buffer.sampleRate === sampleRate) return buffer;
+  const context = new OfflineAudioContext(
+    buffer.numberOfChannels,
+    Math.ceil(buffer.duration * sampleRate),
+    sampleRate
+  );
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+}
+
+async function pickVideoCodec(settings: ExportSettings) {
+  const candidates = [
+    { codec: "vp09.00.10.08", muxerCodec: "V_VP9" },
+    { codec: "vp8", muxerCodec: "V_VP8" },
+  ];
+  for (const candidate of candidates) {
+    const { supported } = await VideoEncoder.isConfigSupported({
+      codec: candidate.codec,
+      width: settings.width,
+      height: settings.height,
+      framerate: settings.fps,
+      bitrate: settings.videoBitrate ?? 8_000_000,
+    });
+    if (supported) return candidate;
+  }
+  throw new Error("This browser can't encode VP8 or VP9 video");
+}
+
+async function encodeAudio(
+  buffer: AudioBuffer,
+  duration: number,
+  muxer: Muxer<ArrayBufferTarget>,
+  signal?: AbortSignal
+) {
+  const audio = await resample(buffer, OPUS_SAMPLE_RATE);
+  const channels = Math.min(2, audio.numberOfChannels);
+  let encoderError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: (error) => {
+      encoderError = error;
+    },
+  });
+  try {
+    encoder.configure({ codec: "opus", sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: channels, bitrate: 128_000 });
+
+    const totalFrames = Math.min(audio.length, Math.round(duration * OPUS_SAMPLE_RATE));
+    const chunkFrames = OPUS_SAMPLE_RATE / 10;
+    for (let offset = 0; offset < totalFrames; offset += chunkFrames) {
+      throwIfAborted(signal);
+      if (encoderError) throw encoderError;
+      const frames = Math.min(chunkFrames, totalFrames - offset);
+      const planar = new Float32Array(frames * channels);
+      for (let channel = 0; channel < channels; channel++) {
+        planar.set(audio.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+      }
+      const data = new AudioData({
+        format: "f32-planar",
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfFrames: frames,
+        numberOfChannels: channels,
+        timestamp: Math.round((offset / OPUS_SAMPLE_RATE) * 1_000_000),
+        data: planar,
+      });
+      try {
+        encoder.encode(data);
+      } finally {
+        data.close();
+      }
+      await waitForQueue(encoder, 8);
+    }
+    await encoder.flush();
+  } finally {
+    closeEncoder(encoder);
+  }
+  if (encoderError) throw encoderError;
+}
+
+async function exportWebm(renderer: FrameRenderer, settings: ExportSettings, options: ExportOptions): Promise<Blob> {
+  if (!isWebCodecsSupported()) {
+    throw new Error("WebM export needs WebCodecs; try the PNG sequence instead");
+  }
+
+  const { codec, muxerCodec } = await pickVideoCodec(settings);
+  const audio = options.audio ?? null;
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: muxerCodec, width: settings.width, height: settings.height, frameRate: settings.fps },
+    audio: audio
+      ? { codec: "A_OPUS", sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: Math.min(2, audio.numberOfChannels) }
+      : undefined,
+  });
+
+  let encoderError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (error) => {
+      encoderError = error;
+    },
+  });
+  try {
+    encoder.configure({
+      codec,
+      width: settings.width,
+      height: settings.height,
+      framerate: settings.fps,
+      bitrate: settings.videoBitrate ?? 8_000_000,
+    });
+
+    const frameCount = Math.ceil(settings.duration * settings.fps);
+    const frameDuration = 1_000_000 / settings.fps;
+    for (let frame = 0; frame < frameCount; frame++) {
+      throwIfAborted(options.signal);
+      if (encoderError) throw encoderError;
+
+      renderer.renderFrame(frame / settings.fps);
+      const videoFrame = new VideoFrame(renderer.canvas, {
+        timestamp: Math.round(frame * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      try {
+        // A keyframe every two seconds keeps the file seekable
+        encoder.encode(videoFrame, { keyFrame: frame % (settings.fps * 2) === 0 });
+      } finally {
+        videoFrame.close();
+      }
+      options.onProgress?.({ frame: frame + 1, frameCount });
+      await waitForQueue(encoder, 4);
+    }
+    await encoder.flush();
+  } finally {
+    closeEncoder(encoder);
+  }
+  if (encoderError) throw encoderError;
+
+  if (audio) await encodeAudio(audio, settings.duration, muxer, options.signal);
+
+  muxer.finalize();
+  return new Blob([muxer.target.buffer], { type: "video/webm" });
+}
+
+async function exportPngSequence(
+  renderer: FrameRenderer,
+  settings: ExportSettings,
+  options: ExportOptions
+): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const frameCount = Math.ceil(settings.duration * settings.fps);
+  const digits = String(frameCount).length;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    throwIfAborted(options.signal);
+    renderer.renderFrame(frame / settings.fps);
+    const png = await new Promise<Blob>((resolve, reject) => {
+      renderer.canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Failed to capture frame"))),
+        "image/png"
+      );
+    });
+    entries.push({
+      name: `frame_${String(frame).padStart(digits, "0")}.png`,
+      data: new Uint8Array(await png.arrayBuffer()),
+    });
+    options.onProgress?.({ frame: frame + 1, frameCount });
+  }
+
+  if (options.audio) {
+    entries.push({ name: "audio.wav", data: encodeWav(options.audio, settings.duration) });
+  }
+  return createZip(entries);
+}
+
+// Renders `settings.duration` seconds of frames at exactly `settings.fps`,
+// one after another, so the result doesn't depend on how fast this machine
+// can draw them.
+export function exportVisualization(
+  renderer: FrameRenderer,
+  settings: ExportSettings,
+  options: ExportOptions = {}
+): Promise<Blob> {
+  return settings.format === "webm"
+    ? exportWebm(renderer, settings, options)
+    : exportPngSequence(renderer, settings, options);
+}
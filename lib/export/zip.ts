@@ -0,0 +1,73 @@
+// Minimal uncompressed (STORE) zip writer. PNGs and WAVs barely compress,
+// so deflate isn't worth a dependency.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // version needed
+    localView.setUint16(8, 0, true); // STORE
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, entry.data.length, true);
+    localView.setUint32(22, entry.data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, 0x02014b50, true);
+    headerView.setUint16(4, 20, true); // version made by
+    headerView.setUint16(6, 20, true); // version needed
+    headerView.setUint32(16, crc, true);
+    headerView.setUint32(20, entry.data.length, true);
+    headerView.setUint32(24, entry.data.length, true);
+    headerView.setUint16(28, name.length, true);
+    headerView.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    parts.push(local, entry.data);
+    central.push(header);
+    offset += local.length + entry.data.length;
+  }
+
+  const centralSize = central.reduce((size, header) => size + header.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end] as BlobPart[], { type: "application/zip" });
+}
@@ -0,0 +1,17 @@
+// m:ss, or h:mm:ss for anything an hour or longer
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+const PITCH_CLASSES = ["C", "C♯", "D", "E♭", "E", "F", "F♯", "G", "A♭", "A", "B♭", "B"];
+
+// Pitch class and mode as a short key name: "A", "F♯m"
+export function formatKey(key: number, mode: number): string {
+  return `${PITCH_CLASSES[((key % 12) + 12) % 12]}${mode === 1 ? "" : "m"}`;
+}
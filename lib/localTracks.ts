@@ -0,0 +1,52 @@
+import { analyzeWaveform, decodeAudioFile } from "./audio/waveform";
+import { cacheTrackWaveform } from "./audio/useTrackWaveform";
+import type { PlayableTrack } from "./playback/types";
+
+// Audio that isn't on Spotify, shaped like a Spotify track so the player
+// bar and Visualizer can treat it the same way
+export interface LocalTrack extends PlayableTrack {
+  source: "file" | "microphone";
+  name: string;
+  artists: { name: string; id: string }[];
+  album: {
+    name: string;
+    images?: { url: string; height?: number; width?: number }[];
+    id: string;
+  };
+}
+
+export const microphoneTrack: LocalTrack = {
+  id: "local:microphone",
+  source: "microphone",
+  name: "Microphone / Line-in",
+  artists: [{ name: "Live input", id: "local" }],
+  album: { name: "Live input", id: "local" },
+  preview_url: null,
+};
+
+export function isLocalTrack(track: PlayableTrack): track is LocalTrack {
+  return track.source === "file" || track.source === "microphone";
+}
+
+// Decodes the file once up front for its duration and waveform. Files the
+// browser can't decode still play if the <audio> element can handle them.
+export async function createFileTrack(file: File): Promise<LocalTrack> {
+  const name = file.name.replace(/\.[^.]+$/, "");
+  const track: LocalTrack = {
+    id: `local:file:${file.name}:${file.size}:${file.lastModified}`,
+    source: "file",
+    name,
+    artists: [{ name: "Local file", id: "local" }],
+    album: { name: file.name, id: "local" },
+    preview_url: URL.createObjectURL(file),
+  };
+
+  try {
+    const buffer = await decodeAudioFile(file);
+    track.duration_ms = buffer.duration * 1000;
+    cacheTrackWaveform(track.id, analyzeWaveform(buffer));
+  } catch (error) {
+    console.error(`Error decoding "${file.name}":`, error);
+  }
+  return track;
+}
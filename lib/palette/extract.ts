@@ -0,0 +1,140 @@
+// Dominant-color extraction from raw RGBA pixels by median cut: the color
+// space is split repeatedly at the median of whichever box spans the widest
+// channel, and each final box's mean is one candidate color.
+
+export type Rgb = [number, number, number];
+
+// Colors ordered most to least prominent, as #rrggbb
+export interface PaletteTheme {
+  colors: string[];
+}
+
+export const PALETTE_SIZE = 4;
+
+interface ColorBox {
+  pixels: Rgb[];
+  channel: 0 | 1 | 2; // widest channel
+  range: number;
+}
+
+function makeBox(pixels: Rgb[]): ColorBox {
+  const min: Rgb = [255, 255, 255];
+  const max: Rgb = [0, 0, 0];
+  for (const pixel of pixels) {
+    for (let c = 0; c < 3; c++) {
+      if (pixel[c] < min[c]) min[c] = pixel[c];
+      if (pixel[c] > max[c]) max[c] = pixel[c];
+    }
+  }
+  const ranges = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+  const channel = ranges.indexOf(Math.max(...ranges)) as 0 | 1 | 2;
+  return { pixels, channel, range: ranges[channel] };
+}
+
+function averageColor(pixels: Rgb[]): Rgb {
+  const sum = [0, 0, 0];
+  for (const pixel of pixels) {
+    sum[0] += pixel[0];
+    sum[1] += pixel[1];
+    sum[2] += pixel[2];
+  }
+  return [sum[0] / pixels.length, sum[1] / pixels.length, sum[2] / pixels.length];
+}
+
+export function medianCut(pixels: Rgb[], count: number): { color: Rgb; population: number }[] {
+  if (pixels.length === 0) return [];
+  const boxes = [makeBox(pixels)];
+  while (boxes.length < count) {
+    // Split the box with the most spread, weighted by how much it covers
+    let target = -1;
+    let best = 0;
+    boxes.forEach((box, index) => {
+      const score = box.range * Math.sqrt(box.pixels.length);
+      if (box.pixels.length > 1 && score > best) {
+        best = score;
+        target = index;
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const sorted = [...box.pixels].sort((a, b) => a[box.channel] - b[box.channel]);
+    const middle = Math.floor(sorted.length / 2);
+    boxes.splice(target, 1, makeBox(sorted.slice(0, middle)), makeBox(sorted.slice(middle)));
+  }
+  return boxes.map((box) => ({ color: averageColor(box.pixels), population: box.pixels.length }));
+}
+
+export function rgbToHsl([r, g, b]: Rgb): [number, number, number] {
+  const red = r / 255;
+  const green = g / 255;
+  const blue = b / 255;
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  if (max === min) return [0, 0, lightness];
+
+  const delta = max - min;
+  const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  let hue: number;
+  if (max === red) hue = (green - blue) / delta + (green < blue ? 6 : 0);
+  else if (max === green) hue = (blue - red) / delta + 2;
+  else hue = (red - green) / delta + 4;
+  return [hue / 6, saturation, lightness];
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): Rgb {
+  const channel = (n: number) => {
+    const k = (n + hue * 12) % 12;
+    const a = saturation * Math.min(lightness, 1 - lightness);
+    return Math.round((lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255);
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+export function toHex([r, g, b]: Rgb): string {
+  return `#${[r, g, b].map((value) => Math.round(value).toString(16).padStart(2, "0")).join("")}`;
+}
+
+function distance(a: Rgb, b: Rgb) {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+// Picks the palette from RGBA bytes (as from getImageData). Vivid colors
+// beat merely common ones, near-duplicates are skipped, and every color is
+// lifted to a lightness that still reads against a black canvas.
+export function extractPalette(data: Uint8ClampedArray, size = PALETTE_SIZE): PaletteTheme {
+  const pixels: Rgb[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+
+  const candidates = medianCut(pixels, 12)
+    .map(({ color, population }) => {
+      const [, saturation, lightness] = rgbToHsl(color);
+      // Near-black and near-white areas are backgrounds, not the palette
+      const tone = lightness < 0.08 || lightness > 0.95 ? 0.2 : 1;
+      return { color, score: (population / pixels.length) * (0.25 + saturation) * tone };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const chosen: Rgb[] = [];
+  for (const { color } of candidates) {
+    if (chosen.length >= size) break;
+    if (chosen.every((other) => distance(other, color) > 60)) chosen.push(color);
+  }
+  // Too few distinct colors (flat artwork): pad with neighbours of the first
+  const base = chosen[0] ?? [128, 128, 128];
+  const [baseHue, baseSaturation, baseLightness] = rgbToHsl(base);
+  while (chosen.length < size) {
+    chosen.push(hslToRgb((baseHue + 0.08 * chosen.length) % 1, baseSaturation, baseLightness));
+  }
+
+  return {
+    colors: chosen.map((color) => {
+      const [hue, saturation, lightness] = rgbToHsl(color);
+      return toHex(hslToRgb(hue, saturation, Math.min(0.8, Math.max(0.4, lightness))));
+    }),
+  };
+}
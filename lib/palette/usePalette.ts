@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { extractPalette, type PaletteTheme } from "./extract";
+
+// Artwork is scaled down to this many pixels a side before extraction
+const SAMPLE_SIZE = 64;
+
+const cache = new Map<string, PaletteTheme>();
+
+// Artwork goes through the app's image route: Spotify's CDN doesn't always
+// send CORS headers, and without them the canvas is tainted and unreadable
+function proxiedUrl(url: string) {
+  return url.startsWith("blob:") || url.startsWith("data:") ? url : `/api/image?url=${encodeURIComponent(url)}`;
+}
+
+async function loadPalette(url: string): Promise<PaletteTheme> {
+  const image = new Image();
+  image.crossOrigin = "anonymous";
+  image.src = proxiedUrl(url);
+  await image.decode();
+
+  const canvas = document.createElement("canvas");
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("2D canvas unavailable");
+  context.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  return extractPalette(context.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data);
+}
+
+// Smallest artwork that still has enough pixels to sample; Spotify lists
+// images largest first
+export function paletteImageUrl(images: { url: string; width?: number | null }[] | undefined): string | null {
+  if (!images?.length) return null;
+  const usable = images.filter((image) => (image.width ?? SAMPLE_SIZE) >= SAMPLE_SIZE);
+  return (usable[usable.length - 1] ?? images[0]).url;
+}
+
+// Palette of the given artwork, or null while it loads (or if it can't be
+// read). Results are kept for the session, keyed by image URL.
+export function usePalette(imageUrl: string | null): PaletteTheme | null {
+  const [loaded, setLoaded] = useState<{ url: string; palette: PaletteTheme } | null>(null);
+
+  useEffect(() => {
+    if (!imageUrl) return;
+    const cached = cache.get(imageUrl);
+    if (cached) {
+      setLoaded({ url: imageUrl, palette: cached });
+      return;
+    }
+
+    let cancelled = false;
+    loadPalette(imageUrl)
+      .then((palette) => {
+        cache.set(imageUrl, palette);
+        if (!cancelled) setLoaded({ url: imageUrl, palette });
+      })
+      .catch((error) => {
+        console.error("Error extracting artwork palette:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  return imageUrl && loaded?.url === imageUrl ? loaded.palette : null;
+}
@@ -0,0 +1,96 @@
+import {
+  idleState,
+  type PlayableTrack,
+  type PlaybackBackend,
+  type PlaybackListener,
+  type PlaybackState,
+} from "./types";
+
+// Plays 30-second previews through the page's hidden <audio> element
+export class PreviewPlayer implements PlaybackBackend {
+  readonly kind = "preview" as const;
+  readonly isReady = true;
+  private state: PlaybackState = idleState;
+  private listeners = new Set<PlaybackListener>();
+  private detach: () => void;
+
+  constructor(private readonly audio: HTMLAudioElement) {
+    const sync = () => this.sync();
+    const events = ["play", "pause", "ended", "seeked", "loadedmetadata", "timeupdate"];
+    events.forEach((event) => audio.addEventListener(event, sync));
+    this.detach = () => events.forEach((event) => audio.removeEventListener(event, sync));
+  }
+
+  private sync() {
+    const audio = this.audio;
+    this.setState({
+      isPlaying: !audio.paused && !audio.ended,
+      position: audio.currentTime * 1000,
+      duration: Number.isFinite(audio.duration) ? audio.duration * 1000 : 0,
+      ended: audio.ended,
+    });
+  }
+
+  private setState(patch: Partial<PlaybackState>) {
+    this.state = { ...this.state, ...patch, updatedAt: performance.now() };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+
+  canPlay(track: PlayableTrack) {
+    return Boolean(track.preview_url);
+  }
+
+  async play(track: PlayableTrack) {
+    if (!track.preview_url) {
+      throw new Error(`No preview available for track ${track.id}`);
+    }
+    this.setState({ trackId: track.id, position: 0, duration: 0, ended: false });
+    this.audio.src = track.preview_url;
+    await this.audio.play();
+  }
+
+  async pause() {
+    this.audio.pause();
+  }
+
+  async resume() {
+    if (this.audio.src) await this.audio.play();
+  }
+
+  async seek(positionMs: number) {
+    this.audio.currentTime = positionMs / 1000;
+    this.sync();
+  }
+
+  async setVolume(volume: number) {
+    this.audio.volume = Math.min(Math.max(volume, 0), 1);
+  }
+
+  // Unloads the element so a stopped backend stays silent
+  async stop() {
+    this.audio.pause();
+    this.audio.removeAttribute("src");
+    this.audio.load();
+    this.setState({ trackId: null, isPlaying: false, position: 0, duration: 0, ended: false });
+  }
+
+  getPosition() {
+    return this.audio.currentTime * 1000;
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  subscribe(listener: PlaybackListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  dispose() {
+    this.detach();
+    this.listeners.clear();
+  }
+}
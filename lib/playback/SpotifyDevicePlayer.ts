@@ -0,0 +1,194 @@
+import {
+  idleState,
+  interpolatePosition,
+  type PlayableTrack,
+  type PlaybackBackend,
+  type PlaybackListener,
+  type PlaybackState,
+} from "./types";
+
+const SDK_URL = "https://sdk.scdn.co/spotify-player.js";
+
+export type DeviceStatus = "idle" | "connecting" | "ready" | "unavailable";
+
+export interface SpotifyDevicePlayerOptions {
+  getAccessToken: () => Promise<string>;
+  name?: string;
+  volume?: number;
+  onStatusChange?: (status: DeviceStatus, reason?: string) => void;
+}
+
+let sdkPromise: Promise<void> | null = null;
+
+// The SDK calls a global hook once its script has loaded; load it only once
+function loadSdk(): Promise<void> {
+  if (typeof window === "undefined") {
+    return Promise.reject(new Error("The Web Playback SDK only runs in the browser"));
+  }
+  if (window.Spotify) return Promise.resolve();
+  if (!sdkPromise) {
+    sdkPromise = new Promise((resolve, reject) => {
+      window.onSpotifyWebPlaybackSDKReady = () => resolve();
+      const script = document.createElement("script");
+      script.src = SDK_URL;
+      script.async = true;
+      script.onerror = () => {
+        sdkPromise = null;
+        reject(new Error("Failed to load the Spotify Web Playback SDK"));
+      };
+      document.body.appendChild(script);
+    });
+  }
+  return sdkPromise;
+}
+
+// Whole-track playback through a Web Playback SDK device in this tab.
+// Requires Spotify Premium and the `streaming` scope.
+export class SpotifyDevicePlayer implements PlaybackBackend {
+  readonly kind = "spotify" as const;
+  private player: Spotify.Player | null = null;
+  private deviceId: string | null = null;
+  private status: DeviceStatus = "idle";
+  private state: PlaybackState = idleState;
+  private listeners = new Set<PlaybackListener>();
+
+  constructor(private readonly options: SpotifyDevicePlayerOptions) {}
+
+  get isReady() {
+    return this.status === "ready" && this.deviceId !== null;
+  }
+
+  private setStatus(status: DeviceStatus, reason?: string) {
+    this.status = status;
+    this.options.onStatusChange?.(status, reason);
+  }
+
+  async connect() {
+    if (this.player) return;
+    this.setStatus("connecting");
+
+    try {
+      await loadSdk();
+    } catch (error) {
+      this.setStatus("unavailable", (error as Error).message);
+      return;
+    }
+
+    const player = new window.Spotify.Player({
+      name: this.options.name ?? "Vizify",
+      volume: this.options.volume ?? 0.8,
+      getOAuthToken: (callback) => {
+        this.options.getAccessToken().then(callback, (error) => {
+          console.error("Error getting token for playback device:", error);
+        });
+      },
+    });
+
+    player.addListener("ready", ({ device_id }) => {
+      this.deviceId = device_id;
+      this.setStatus("ready");
+    });
+    player.addListener("not_ready", () => {
+      this.deviceId = null;
+      this.setStatus("connecting", "Device went offline");
+    });
+    player.addListener("player_state_changed", (sdkState) => {
+      if (!sdkState) return;
+      const current = sdkState.track_window.current_track;
+      this.setState({
+        trackId: current?.id ?? this.state.trackId,
+        isPlaying: !sdkState.paused,
+        position: sdkState.position,
+        duration: sdkState.duration,
+        // The SDK has no end event; a finished single-track context pauses
+        // back at 0 with the track moved into the history
+        ended:
+          sdkState.paused &&
+          sdkState.position === 0 &&
+          sdkState.track_window.previous_tracks.some((track) => track.id === current?.id),
+      });
+    });
+    // Account errors mean no Premium; the other backend has to take over
+    player.addListener("account_error", ({ message }) => this.setStatus("unavailable", message));
+    player.addListener("authentication_error", ({ message }) => this.setStatus("unavailable", message));
+    player.addListener("initialization_error", ({ message }) => this.setStatus("unavailable", message));
+    player.addListener("playback_error", ({ message }) => {
+      console.error("Spotify playback error:", message);
+    });
+
+    this.player = player;
+    const connected = await player.connect();
+    if (!connected) this.setStatus("unavailable", "Could not connect to Spotify");
+  }
+
+  private setState(patch: Partial<PlaybackState>) {
+    this.state = { ...this.state, ...patch, updatedAt: performance.now() };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+
+  canPlay() {
+    return this.isReady;
+  }
+
+  async play(track: PlayableTrack) {
+    if (!this.player || !this.deviceId) {
+      throw new Error("Spotify playback device is not ready");
+    }
+    // Browsers need a gesture-bound call before the SDK may make sound
+    await this.player.activateElement();
+
+    const response = await fetch("/api/spotify/me/player/play", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ deviceId: this.deviceId, uris: [track.uri ?? `spotify:track:${track.id}`] }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to start playback on device (${response.status})`);
+    }
+    this.setState({ trackId: track.id, isPlaying: true, position: 0, duration: track.duration_ms ?? 0, ended: false });
+  }
+
+  async pause() {
+    await this.player?.pause();
+  }
+
+  async resume() {
+    await this.player?.resume();
+  }
+
+  async seek(positionMs: number) {
+    await this.player?.seek(positionMs);
+    this.setState({ position: positionMs });
+  }
+
+  async setVolume(volume: number) {
+    await this.player?.setVolume(Math.min(Math.max(volume, 0), 1));
+  }
+
+  async stop() {
+    if (this.state.isPlaying) await this.pause();
+  }
+
+  getPosition() {
+    return interpolatePosition(this.state);
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  subscribe(listener: PlaybackListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  dispose() {
+    this.player?.disconnect();
+    this.player = null;
+    this.deviceId = null;
+    this.listeners.clear();
+    this.setStatus("idle");
+  }
+}
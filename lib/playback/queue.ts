@@ -0,0 +1,194 @@
+import type { PlayableTrack } from "./types";
+
+export type RepeatMode = "off" | "all" | "one";
+
+// The play queue: everything the user lined up, plus a cursor on the track
+// that's loaded now. Earlier entries stay around so "previous" works.
+export interface QueueState<T extends PlayableTrack> {
+  items: T[];
+  index: number; // -1 when nothing is loaded
+  shuffle: boolean;
+  repeat: RepeatMode;
+  // Order to restore when shuffle is switched off
+  unshuffled: T[] | null;
+}
+
+export type QueueAction<T extends PlayableTrack> =
+  // Start a single track right after the current one, keeping what's queued
+  | { type: "play"; track: T }
+  // Swap the queue for a list (play all) and start at `startIndex`
+  | { type: "replace"; tracks: T[]; startIndex?: number; random?: () => number }
+  | { type: "enqueue"; tracks: T[] }
+  | { type: "jump"; index: number }
+  | { type: "remove"; index: number }
+  | { type: "move"; from: number; to: number }
+  | { type: "setShuffle"; enabled: boolean; random?: () => number }
+  | { type: "setRepeat"; mode: RepeatMode }
+  // Drop everything after the loaded track
+  | { type: "clearUpcoming" }
+  | { type: "clear" };
+
+export function createQueue<T extends PlayableTrack>(): QueueState<T> {
+  return { items: [], index: -1, shuffle: false, repeat: "off", unshuffled: null };
+}
+
+export function currentQueueTrack<T extends PlayableTrack>(state: QueueState<T>): T | null {
+  return state.items[state.index] ?? null;
+}
+
+export function upcomingTracks<T extends PlayableTrack>(state: QueueState<T>): T[] {
+  return state.items.slice(state.index + 1);
+}
+
+export function nextRepeatMode(mode: RepeatMode): RepeatMode {
+  return mode === "off" ? "all" : mode === "all" ? "one" : "off";
+}
+
+interface StepOptions<T> {
+  // Set when the current track finished on its own rather than the user
+  // pressing next; repeat-one only applies then
+  auto?: boolean;
+  isPlayable?: (track: T) => boolean;
+}
+
+// Index of the track "next" should load, or -1 at the end of the queue
+export function nextIndex<T extends PlayableTrack>(
+  state: QueueState<T>,
+  { auto = false, isPlayable = () => true }: StepOptions<T> = {}
+): number {
+  const count = state.items.length;
+  if (count === 0) return -1;
+  if (auto && state.repeat === "one" && state.index >= 0) return state.index;
+
+  const steps = state.repeat === "all" ? count : count - state.index - 1;
+  for (let step = 1; step <= steps; step++) {
+    const index = (state.index + step) % count;
+    if (isPlayable(state.items[index])) return index;
+  }
+  return -1;
+}
+
+export function previousIndex<T extends PlayableTrack>(
+  state: QueueState<T>,
+  { isPlayable = () => true }: StepOptions<T> = {}
+): number {
+  const count = state.items.length;
+  if (count === 0) return -1;
+
+  const steps = state.repeat === "all" ? count : state.index;
+  for (let step = 1; step <= steps; step++) {
+    const index = (state.index - step + count) % count;
+    if (isPlayable(state.items[index])) return index;
+  }
+  return -1;
+}
+
+function shuffled<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export function queueReducer<T extends PlayableTrack>(state: QueueState<T>, action: QueueAction<T>): QueueState<T> {
+  switch (action.type) {
+    case "play": {
+      if (currentQueueTrack(state)?.id === action.track.id) return state;
+      const items = [...state.items];
+      items.splice(state.index + 1, 0, action.track);
+      return {
+        ...state,
+        items,
+        index: state.index + 1,
+        unshuffled: state.unshuffled && [...state.unshuffled, action.track],
+      };
+    }
+    case "replace": {
+      if (action.tracks.length === 0) return { ...createQueue(), shuffle: state.shuffle, repeat: state.repeat };
+      const startIndex = Math.min(Math.max(action.startIndex ?? 0, 0), action.tracks.length - 1);
+      if (!state.shuffle) {
+        return { ...state, items: [...action.tracks], index: startIndex, unshuffled: null };
+      }
+      // Shuffled play-all still starts on the chosen track
+      const first = action.tracks[startIndex];
+      const rest = action.tracks.filter((_, index) => index !== startIndex);
+      return {
+        ...state,
+        items: [first, ...shuffled(rest, action.random ?? Math.random)],
+        index: 0,
+        unshuffled: [...action.tracks],
+      };
+    }
+    case "enqueue":
+      return {
+        ...state,
+        items: [...state.items, ...action.tracks],
+        unshuffled: state.unshuffled && [...state.unshuffled, ...action.tracks],
+      };
+    case "jump":
+      if (action.index < 0 || action.index >= state.items.length) return state;
+      return { ...state, index: action.index };
+    case "remove": {
+      if (action.index < 0 || action.index >= state.items.length) return state;
+      const removed = state.items[action.index];
+      const items = state.items.filter((_, index) => index !== action.index);
+      // Removing the loaded track leaves the cursor on whatever slid into its place
+      const index = action.index < state.index ? state.index - 1 : Math.min(state.index, items.length - 1);
+      const unshuffledIndex = state.unshuffled?.indexOf(removed) ?? -1;
+      return {
+        ...state,
+        items,
+        index,
+        unshuffled: state.unshuffled && state.unshuffled.filter((_, i) => i !== unshuffledIndex),
+      };
+    }
+    case "move": {
+      const { from, to } = action;
+      const count = state.items.length;
+      if (from === to || from < 0 || from >= count || to < 0 || to >= count) return state;
+      const items = [...state.items];
+      const [moved] = items.splice(from, 1);
+      items.splice(to, 0, moved);
+      // Keep the cursor on the same track
+      let index = state.index;
+      if (from === state.index) index = to;
+      else if (from < state.index && to >= state.index) index--;
+      else if (from > state.index && to <= state.index) index++;
+      return { ...state, items, index };
+    }
+    case "setShuffle": {
+      if (action.enabled === state.shuffle) return state;
+      const current = currentQueueTrack(state);
+      if (action.enabled) {
+        // Shuffle only what's still to come; history stays as played
+        const played = state.items.slice(0, state.index + 1);
+        const upcoming = shuffled(state.items.slice(state.index + 1), action.random ?? Math.random);
+        return { ...state, shuffle: true, items: [...played, ...upcoming], unshuffled: [...state.items] };
+      }
+      const original = state.unshuffled ?? state.items;
+      const restored = original.filter((track) => state.items.includes(track));
+      const items = [...restored, ...state.items.filter((track) => !restored.includes(track))];
+      return {
+        ...state,
+        shuffle: false,
+        items,
+        index: current ? items.indexOf(current) : -1,
+        unshuffled: null,
+      };
+    }
+    case "setRepeat":
+      return { ...state, repeat: action.mode };
+    case "clearUpcoming": {
+      const items = state.items.slice(0, state.index + 1);
+      return {
+        ...state,
+        items,
+        unshuffled: state.unshuffled && state.unshuffled.filter((track) => items.includes(track)),
+      };
+    }
+    case "clear":
+      return { ...createQueue(), shuffle: state.shuffle, repeat: state.repeat };
+  }
+}
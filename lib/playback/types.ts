@@ -0,0 +1,62 @@
+// Where a track's audio comes from; Spotify unless stated otherwise
+export type TrackSource = "spotify" | "file" | "microphone";
+
+// The slice of a track the playback layer needs
+export interface PlayableTrack {
+  id: string;
+  uri?: string;
+  preview_url: string | null; // any URL the <audio> element can play
+  duration_ms?: number;
+  source?: TrackSource;
+}
+
+export type PlaybackBackendKind = "preview" | "spotify" | "microphone";
+
+// The backends a user can choose between for Spotify tracks
+export type PreferredBackend = Exclude<PlaybackBackendKind, "microphone">;
+
+export interface PlaybackState {
+  trackId: string | null;
+  isPlaying: boolean;
+  position: number; // ms, as of `updatedAt`
+  duration: number; // ms; 0 when unknown
+  updatedAt: number; // performance.now() when position was sampled
+  ended: boolean; // the loaded track played through to its end
+}
+
+export type PlaybackListener = (state: PlaybackState) => void;
+
+// Common surface over the hidden <audio> preview player and the Spotify
+// Web Playback SDK device, so the dashboard never branches on the backend.
+export interface PlaybackBackend {
+  readonly kind: PlaybackBackendKind;
+  readonly isReady: boolean;
+  canPlay(track: PlayableTrack): boolean;
+  play(track: PlayableTrack): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  seek(positionMs: number): Promise<void>;
+  setVolume(volume: number): Promise<void>; // 0–1
+  // Silence the backend before another one takes over
+  stop(): Promise<void>;
+  // Current position in ms, interpolated between state events
+  getPosition(): number;
+  getState(): PlaybackState;
+  subscribe(listener: PlaybackListener): () => void;
+  dispose(): void;
+}
+
+export const idleState: PlaybackState = {
+  trackId: null,
+  isPlaying: false,
+  position: 0,
+  duration: 0,
+  updatedAt: 0,
+  ended: false,
+};
+
+export function interpolatePosition(state: PlaybackState, now = performance.now()): number {
+  if (!state.isPlaying) return state.position;
+  const position = state.position + (now - state.updatedAt);
+  return state.duration ? Math.min(position, state.duration) : position;
+}
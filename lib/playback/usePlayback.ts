@@ -0,0 +1,182 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { PreviewPlayer } from "./PreviewPlayer";
+import { SpotifyDevicePlayer, type DeviceStatus } from "./SpotifyDevicePlayer";
+import { describeMicrophoneError, MicrophonePlayer } from "./MicrophonePlayer";
+import type { AudioEngine } from "../audio/AudioEngine";
+import {
+  idleState,
+  type PlayableTrack,
+  type PlaybackBackend,
+  type PlaybackBackendKind,
+  type PlaybackState,
+  type PreferredBackend,
+} from "./types";
+
+interface UsePlaybackOptions {
+  audioElement: HTMLAudioElement | null;
+  engine: AudioEngine;
+  getAccessToken: () => Promise<string>;
+  // "spotify" plays whole tracks on a Web Playback SDK device when one is
+  // available, falling back to previews otherwise
+  preferred: PreferredBackend;
+  // Called once each time the loaded track plays through to its end
+  onEnded?: (trackId: string) => void;
+}
+
+export interface PlaybackController {
+  state: PlaybackState;
+  backend: PlaybackBackendKind | null; // backend holding the current track
+  deviceStatus: DeviceStatus;
+  deviceError: string | null;
+  // Why live input couldn't start, e.g. permission denied
+  inputError: string | null;
+  canPlay: (track: PlayableTrack) => boolean;
+  play: (track: PlayableTrack) => Promise<void>;
+  togglePlayPause: () => Promise<void>;
+  seek: (positionMs: number) => Promise<void>;
+  getPosition: () => number;
+  volume: number;
+  setVolume: (volume: number) => void;
+}
+
+export function usePlayback({ audioElement, engine, getAccessToken, preferred, onEnded }: UsePlaybackOptions): PlaybackController {
+  const [preview, setPreview] = useState<PreviewPlayer | null>(null);
+  const [microphone, setMicrophone] = useState<MicrophonePlayer | null>(null);
+  const [device, setDevice] = useState<SpotifyDevicePlayer | null>(null);
+  const [deviceStatus, setDeviceStatus] = useState<DeviceStatus>("idle");
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [active, setActive] = useState<PlaybackBackend | null>(null);
+  const [state, setState] = useState<PlaybackState>(idleState);
+  const [volume, setVolumeState] = useState(0.8);
+  const tokenRef = useRef(getAccessToken);
+  tokenRef.current = getAccessToken;
+  const endedRef = useRef(onEnded);
+  endedRef.current = onEnded;
+  const volumeRef = useRef(volume);
+  volumeRef.current = volume;
+
+  useEffect(() => {
+    if (!audioElement) return;
+    const player = new PreviewPlayer(audioElement);
+    setPreview(player);
+    return () => player.dispose();
+  }, [audioElement]);
+
+  useEffect(() => {
+    const player = new MicrophonePlayer(engine);
+    setMicrophone(player);
+    return () => player.dispose();
+  }, [engine]);
+
+  // Only spin up an SDK device for users who asked for it
+  useEffect(() => {
+    if (preferred !== "spotify") return;
+    const player = new SpotifyDevicePlayer({
+      getAccessToken: () => tokenRef.current(),
+      volume: volumeRef.current,
+      onStatusChange: (status, reason) => {
+        setDeviceStatus(status);
+        setDeviceError(status === "unavailable" ? reason ?? null : null);
+      },
+    });
+    setDevice(player);
+    player.connect();
+    return () => {
+      player.dispose();
+      setDevice(null);
+      setActive((current) => (current === player ? null : current));
+    };
+  }, [preferred]);
+
+  useEffect(() => {
+    if (!active) return;
+    let ended = active.getState().ended;
+    setState(active.getState());
+    return active.subscribe((next) => {
+      setState(next);
+      if (next.ended && !ended && next.trackId) endedRef.current?.(next.trackId);
+      ended = next.ended;
+    });
+  }, [active]);
+
+  useEffect(() => {
+    active?.setVolume(volume).catch((error) => {
+      console.error("Error setting volume:", error);
+    });
+  }, [active, volume]);
+
+  // Microphone failures are the user's to fix, so they're kept for the UI
+  const startInput = async (backend: PlaybackBackend, start: () => Promise<void>) => {
+    try {
+      await start();
+    } catch (error) {
+      if (backend.kind === "microphone") setInputError(describeMicrophoneError(error));
+      throw error;
+    }
+  };
+
+  const pickBackend = useCallback(
+    (track: PlayableTrack): PlaybackBackend | null => {
+      if (track.source === "microphone") return microphone;
+      if (track.source === "file") return preview;
+      if (preferred === "spotify" && device?.canPlay()) return device;
+      if (preview?.canPlay(track)) return preview;
+      return null;
+    },
+    [preferred, device, preview, microphone]
+  );
+
+  const canPlay = useCallback((track: PlayableTrack) => pickBackend(track) !== null, [pickBackend]);
+
+  const play = useCallback(
+    async (track: PlayableTrack) => {
+      const next = pickBackend(track);
+      if (active && active !== next) await active.stop();
+      setActive(next);
+      setInputError(null);
+
+      if (!next) {
+        // Nothing can play it; keep the track selected for visualization
+        setState({ ...idleState, trackId: track.id, duration: track.duration_ms ?? 0 });
+        return;
+      }
+      await startInput(next, () => next.play(track));
+    },
+    [active, pickBackend]
+  );
+
+  const togglePlayPause = useCallback(async () => {
+    if (!active) return;
+    if (active.getState().isPlaying) {
+      await active.pause();
+    } else {
+      setInputError(null);
+      await startInput(active, () => active.resume());
+    }
+  }, [active]);
+
+  const seek = useCallback(async (positionMs: number) => {
+    await active?.seek(positionMs);
+  }, [active]);
+
+  const getPosition = useCallback(() => active?.getPosition() ?? 0, [active]);
+
+  const setVolume = useCallback((next: number) => setVolumeState(Math.min(Math.max(next, 0), 1)), []);
+
+  return {
+    state,
+    backend: active?.kind ?? null,
+    deviceStatus,
+    deviceError,
+    inputError,
+    canPlay,
+    play,
+    togglePlayPause,
+    seek,
+    getPosition,
+    volume,
+    setVolume,
+  };
+}
@@ -0,0 +1,28 @@
+// Per-user preferences kept in localStorage. Keys are namespaced by the
+// signed-in user so people sharing a browser keep their own settings.
+
+const PREFIX = "vizify";
+
+function storageKey(userKey: string, key: string) {
+  return `${PREFIX}:${userKey}:${key}`;
+}
+
+export function loadPreference<T>(userKey: string, key: string, fallback: T): T {
+  if (typeof window === "undefined") return fallback;
+  try {
+    const raw = window.localStorage.getItem(storageKey(userKey, key));
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.error(`Error reading preference "${key}":`, error);
+    return fallback;
+  }
+}
+
+export function savePreference<T>(userKey: string, key: string, value: T) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(storageKey(userKey, key), JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error saving preference "${key}":`, error);
+  }
+}
@@ -0,0 +1,45 @@
+import { DEFAULT_PRESET, type VisualPreset } from "./schema";
+
+// Starting points offered next to the user's own presets
+export const BUILT_IN_PRESETS: VisualPreset[] = [
+  DEFAULT_PRESET,
+  {
+    ...DEFAULT_PRESET,
+    name: "Club",
+    sceneId: "radial-bars",
+    scene: { ...DEFAULT_PRESET.scene, density: 128, speed: 1.3, intensity: 1.4 },
+    audio: { fftSize: 512, smoothing: 0.6 },
+    camera: { ...DEFAULT_PRESET.camera, distance: 4.5 },
+    postProcessing: {
+      ...DEFAULT_PRESET.postProcessing,
+      bloom: { amount: 0.9, modulation: { source: "bass", amount: 0.6 } },
+      chromaticAberration: { amount: 0.3, modulation: { source: "beat", amount: 1.5 } },
+      vignette: { amount: 0.6, modulation: { source: "none", amount: 0.5 } },
+    },
+    bands: {
+      intensity: { source: "bass", amount: 0.8 },
+      speed: { source: "buildup", amount: 1 },
+      bloom: { source: "beat", amount: 1 },
+    },
+  },
+  {
+    ...DEFAULT_PRESET,
+    name: "Ambient",
+    sceneId: "particle-field",
+    palette: { ...DEFAULT_PRESET.palette, source: "track" },
+    scene: { ...DEFAULT_PRESET.scene, speed: 0.5, intensity: 0.7, saturation: 0.7 },
+    audio: { fftSize: 256, smoothing: 0.92 },
+    camera: { distance: 6, fov: 60, height: 1, orbitSpeed: 0.1 },
+    postProcessing: {
+      ...DEFAULT_PRESET.postProcessing,
+      bloom: { amount: 0.6, modulation: { source: "none", amount: 0.5 } },
+      trails: { amount: 0.7, modulation: { source: "none", amount: 0.5 } },
+      grain: { amount: 0.25, modulation: { source: "none", amount: 0.5 } },
+    },
+    bands: {
+      intensity: { source: "rms", amount: 0.5 },
+      speed: { source: "mid", amount: 0.3 },
+      bloom: { source: "none", amount: 0.5 },
+    },
+  },
+];
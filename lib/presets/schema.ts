@@ -0,0 +1,218 @@
+import { DEFAULT_SCENE_ID, SCENE_IDS } from "../scenes";
+
+// A visual preset: everything about how the visualizer looks that isn't
+// the track itself. Presets are plain JSON so they can be saved, exported,
+// imported and shared in a URL; `version` guards that round trip.
+export const PRESET_VERSION = 1;
+
+export const FFT_SIZES = [64, 128, 256, 512, 1024, 2048] as const;
+export type FftSize = (typeof FFT_SIZES)[number];
+
+// What can drive a modulated parameter, each 0-1 per frame. `beat` is a
+// pulse that jumps on every detected onset and decays; `section` and
+// `buildup` follow the track analysis, the latter rising ahead of a drop.
+export const MODULATION_SOURCES = ["none", "bass", "mid", "treble", "rms", "beat", "section", "buildup"] as const;
+export type ModulationSource = (typeof MODULATION_SOURCES)[number];
+
+export interface BandMapping {
+  source: ModulationSource;
+  amount: number; // how far a full-scale band pushes the parameter, 0-2
+}
+
+export type PaletteSource = "artwork" | "track" | "custom";
+
+// Post-processing detail levels. `auto` picks one from the GPU and steps
+// down by itself if frames start dropping; `off` renders the bare scene.
+export const QUALITY_TIERS = ["auto", "off", "low", "medium", "high"] as const;
+export type QualityTier = (typeof QUALITY_TIERS)[number];
+
+export const POST_EFFECTS = ["bloom", "trails", "chromaticAberration", "vignette", "grain"] as const;
+export type PostEffect = (typeof POST_EFFECTS)[number];
+
+export interface EffectSettings {
+  amount: number; // 0-1; 0 turns the effect off
+  modulation: BandMapping;
+}
+
+export interface VisualPreset {
+  version: typeof PRESET_VERSION;
+  name: string;
+  sceneId: string;
+  palette: {
+    // artwork: album art colors; track: hues from the track's features;
+    // custom: `colors` as given
+    source: PaletteSource;
+    colors: string[];
+  };
+  scene: {
+    density: number | null; // bars, rings or particles; null keeps the scene default
+    // Multipliers on top of the scene defaults and the track mapping
+    speed: number;
+    intensity: number;
+    saturation: number;
+    hueSpread: number;
+  };
+  audio: {
+    fftSize: FftSize;
+    smoothing: number; // analyser smoothingTimeConstant, 0-0.99
+  };
+  camera: {
+    distance: number;
+    fov: number; // degrees
+    height: number;
+    orbitSpeed: number; // radians per second around the scene
+  };
+  postProcessing: { quality: QualityTier } & Record<PostEffect, EffectSettings>;
+  // Per-frame modulation of scene parameters by the audio
+  bands: {
+    intensity: BandMapping;
+    speed: BandMapping;
+    bloom: BandMapping;
+  };
+}
+
+export type BandTarget = keyof VisualPreset["bands"];
+
+export const DEFAULT_PRESET: VisualPreset = {
+  version: PRESET_VERSION,
+  name: "Default",
+  sceneId: DEFAULT_SCENE_ID,
+  palette: { source: "artwork", colors: ["#1db954", "#1e90ff", "#ff4fa3", "#ffd23f"] },
+  scene: { density: null, speed: 1, intensity: 1, saturation: 1, hueSpread: 1 },
+  audio: { fftSize: 256, smoothing: 0.8 },
+  camera: { distance: 5, fov: 75, height: 0, orbitSpeed: 0 },
+  postProcessing: {
+    quality: "auto",
+    bloom: { amount: 0.5, modulation: { source: "none", amount: 0.5 } },
+    trails: { amount: 0, modulation: { source: "none", amount: 0.5 } },
+    chromaticAberration: { amount: 0, modulation: { source: "beat", amount: 1 } },
+    vignette: { amount: 0.4, modulation: { source: "none", amount: 0.5 } },
+    grain: { amount: 0.15, modulation: { source: "none", amount: 0.5 } },
+  },
+  bands: {
+    intensity: { source: "none", amount: 0.5 },
+    speed: { source: "none", amount: 0.5 },
+    bloom: { source: "none", amount: 0.5 },
+  },
+};
+
+export class PresetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PresetError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function number(value: unknown, fallback: number, min: number, max: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+function oneOf<T>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+function bandMapping(value: unknown, fallback: BandMapping): BandMapping {
+  const mapping = isRecord(value) ? value : {};
+  return {
+    source: oneOf(mapping.source, MODULATION_SOURCES, fallback.source),
+    amount: number(mapping.amount, fallback.amount, 0, 2),
+  };
+}
+
+// Effects were plain numbers before they could be modulated
+function effectSettings(value: unknown, fallback: EffectSettings): EffectSettings {
+  if (typeof value === "number") return { amount: number(value, fallback.amount, 0, 1), modulation: fallback.modulation };
+  const settings = isRecord(value) ? value : {};
+  return {
+    amount: number(settings.amount, fallback.amount, 0, 1),
+    modulation: bandMapping(settings.modulation, fallback.modulation),
+  };
+}
+
+// Validates anything claiming to be a preset (imported files, URL params,
+// old localStorage entries). Missing or out-of-range fields fall back to the
+// defaults, so presets from before a field existed keep loading; anything
+// that isn't a preset at all, or is from a newer version, is rejected.
+export function parsePreset(input: unknown): VisualPreset {
+  if (!isRecord(input)) throw new PresetError("Not a preset");
+  if (typeof input.version !== "number") throw new PresetError("Preset has no version");
+  if (input.version > PRESET_VERSION) {
+    throw new PresetError(`Preset version ${input.version} is newer than this app supports`);
+  }
+
+  const defaults = DEFAULT_PRESET;
+  const palette = isRecord(input.palette) ? input.palette : {};
+  const scene = isRecord(input.scene) ? input.scene : {};
+  const audio = isRecord(input.audio) ? input.audio : {};
+  const camera = isRecord(input.camera) ? input.camera : {};
+  const postProcessing = isRecord(input.postProcessing) ? input.postProcessing : {};
+  const bands = isRecord(input.bands) ? input.bands : {};
+  const colors = Array.isArray(palette.colors)
+    ? palette.colors.filter((color): color is string => typeof color === "string" && /^#[0-9a-f]{6}$/i.test(color))
+    : [];
+
+  return {
+    version: PRESET_VERSION,
+    name: typeof input.name === "string" && input.name.trim() ? input.name.trim().slice(0, 60) : "Untitled",
+    sceneId: oneOf<string>(input.sceneId, SCENE_IDS, defaults.sceneId),
+    palette: {
+      source: oneOf<PaletteSource>(palette.source, ["artwork", "track", "custom"], defaults.palette.source),
+      colors: colors.length > 0 ? colors.slice(0, 8) : defaults.palette.colors,
+    },
+    scene: {
+      density: scene.density === null || scene.density === undefined ? null : Math.round(number(scene.density, 32, 4, 4000)),
+      speed: number(scene.speed, defaults.scene.speed, 0, 4),
+      intensity: number(scene.intensity, defaults.scene.intensity, 0, 4),
+      saturation: number(scene.saturation, defaults.scene.saturation, 0, 2),
+      hueSpread: number(scene.hueSpread, defaults.scene.hueSpread, 0, 4),
+    },
+    audio: {
+      fftSize: oneOf(audio.fftSize, FFT_SIZES, defaults.audio.fftSize),
+      smoothing: number(audio.smoothing, defaults.audio.smoothing, 0, 0.99),
+    },
+    camera: {
+      distance: number(camera.distance, defaults.camera.distance, 1, 30),
+      fov: number(camera.fov, defaults.camera.fov, 20, 120),
+      height: number(camera.height, defaults.camera.height, -10, 10),
+      orbitSpeed: number(camera.orbitSpeed, defaults.camera.orbitSpeed, -2, 2),
+    },
+    postProcessing: {
+      quality: oneOf(postProcessing.quality, QUALITY_TIERS, defaults.postProcessing.quality),
+      bloom: effectSettings(postProcessing.bloom, defaults.postProcessing.bloom),
+      trails: effectSettings(postProcessing.trails, defaults.postProcessing.trails),
+      chromaticAberration: effectSettings(postProcessing.chromaticAberration, defaults.postProcessing.chromaticAberration),
+      vignette: effectSettings(postProcessing.vignette, defaults.postProcessing.vignette),
+      grain: effectSettings(postProcessing.grain, defaults.postProcessing.grain),
+    },
+    bands: {
+      intensity: bandMapping(bands.intensity, defaults.bands.intensity),
+      speed: bandMapping(bands.speed, defaults.bands.speed),
+      bloom: bandMapping(bands.bloom, defaults.bands.bloom),
+    },
+  };
+}
+
+// Presets travel in URLs as base64url JSON
+export function encodePreset(preset: VisualPreset): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(preset));
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodePreset(encoded: string): VisualPreset {
+  let json: unknown;
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+    json = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0))));
+  } catch {
+    throw new PresetError("Shared preset link is corrupted");
+  }
+  return parsePreset(json);
+}
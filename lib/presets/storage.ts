@@ -0,0 +1,66 @@
+import { loadPreference, savePreference } from "../preferences";
+import { PresetError, parsePreset, type VisualPreset } from "./schema";
+
+// The user's saved presets, keyed by name. Entries that no longer parse are
+// dropped rather than breaking the list.
+export function loadSavedPresets(userKey: string): VisualPreset[] {
+  const stored = loadPreference<unknown[]>(userKey, "presets", []);
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap((entry) => {
+    try {
+      return [parsePreset(entry)];
+    } catch (error) {
+      console.error("Error loading saved preset:", error);
+      return [];
+    }
+  });
+}
+
+// Saving under an existing name replaces that preset
+export function savePresetToLibrary(userKey: string, preset: VisualPreset): VisualPreset[] {
+  const presets = [...loadSavedPresets(userKey).filter((saved) => saved.name !== preset.name), preset];
+  savePreference(userKey, "presets", presets);
+  return presets;
+}
+
+export function deletePresetFromLibrary(userKey: string, name: string): VisualPreset[] {
+  const presets = loadSavedPresets(userKey).filter((saved) => saved.name !== name);
+  savePreference(userKey, "presets", presets);
+  return presets;
+}
+
+// The preset being edited, restored on the next visit
+export function loadActivePreset(userKey: string, fallback: VisualPreset): VisualPreset {
+  const stored = loadPreference<unknown>(userKey, "preset", null);
+  if (stored === null) return fallback;
+  try {
+    return parsePreset(stored);
+  } catch (error) {
+    console.error("Error loading active preset:", error);
+    return fallback;
+  }
+}
+
+export function saveActivePreset(userKey: string, preset: VisualPreset) {
+  savePreference(userKey, "preset", preset);
+}
+
+export function downloadPreset(preset: VisualPreset) {
+  const blob = new Blob([JSON.stringify(preset, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${preset.name.replace(/[^a-z0-9-_ ]/gi, "").trim().replace(/\s+/g, "-") || "preset"}.vizify.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function readPresetFile(file: File): Promise<VisualPreset> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new PresetError(`${file.name} isn't valid JSON`);
+  }
+  return parsePreset(json);
+}
@@ -0,0 +1,20 @@
+// Small deterministic helpers for anything that must look random but
+// replay identically (demo audio, fallback colors).
+
+// FNV-1a; good enough to turn ids into seeds
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Stateless noise: the same (seed, x, y) always gives the same [0, 1) value
+export function hashNoise(seed: number, x: number, y = 0): number {
+  let h = seed ^ Math.imul(x | 0, 0x27d4eb2d) ^ Math.imul(y | 0, 0x165667b1);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
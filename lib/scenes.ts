@@ -0,0 +1,7 @@
+// Ids of the visualizer scenes, in the order they appear in the picker.
+// Presets and choreography validate against this list; the scene
+// components themselves register under components/scenes.
+export const SCENE_IDS = ["ring", "particle-field", "waveform-tunnel", "spectrum-terrain", "radial-bars"] as const;
+export type SceneId = (typeof SCENE_IDS)[number];
+
+export const DEFAULT_SCENE_ID: SceneId = "ring";
@@ -0,0 +1,57 @@
+import { SpotifyApiError, type SpotifyErrorCode } from "./client";
+import { renewSession, setSessionExpired } from "./session";
+import type { SpotifyErrorBody } from "../../types/spotify";
+
+// Browser-side helper for the app's /api/spotify routes. Failures are
+// rethrown as the same SpotifyApiError the server normalized them to; a 401
+// that survives renewing the session flags it as expired.
+export async function fetchSpotify<T>(path: string, query: Record<string, string | number | undefined> = {}): Promise<T> {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const search = params.toString();
+
+  const url = `/api/spotify${path}${search ? `?${search}` : ""}`;
+  let response: Response;
+  try {
+    response = await fetch(url);
+    // The route has already retried with a fresh token, so a 401 here means
+    // the session cookie itself is stale: renew it and try once more
+    if (response.status === 401 && (await renewSession())) {
+      response = await fetch(url);
+    }
+  } catch (error) {
+    throw new SpotifyApiError(0, "upstream_unavailable", `Network error: ${String(error)}`);
+  }
+  if (response.ok) {
+    return (await response.json()) as T;
+  }
+  if (response.status === 401) setSessionExpired(true);
+
+  const body = (await response.json().catch(() => null)) as SpotifyErrorBody | null;
+  throw new SpotifyApiError(
+    response.status,
+    (body?.error.code as SpotifyErrorCode | undefined) ?? "upstream_error",
+    body?.error.message ?? `Request failed (${response.status})`,
+    body?.error.retryAfter
+  );
+}
+
+export function describeSpotifyError(error: unknown) {
+  if (!(error instanceof SpotifyApiError)) return "Something went wrong talking to Spotify.";
+  switch (error.code) {
+    case "unauthorized":
+      return "Your Spotify session has expired. Reconnect to continue.";
+    case "rate_limited":
+      return error.retryAfter
+        ? `Spotify is rate limiting requests. Try again in ${Math.ceil(error.retryAfter)}s.`
+        : "Spotify is rate limiting requests. Try again shortly.";
+    case "insufficient_scope":
+      return "Vizify needs more permissions from your Spotify account for this.";
+    case "not_found":
+      return "That item isn't available on Spotify.";
+    default:
+      return error.message;
+  }
+}
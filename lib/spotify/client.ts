@@ -0,0 +1,236 @@
+import type {
+  Album,
+  Artist,
+  CurrentUser,
+  CursorPaging,
+  Paging,
+  PlayHistory,
+  Playlist,
+  PlaylistTrack,
+  SearchResponse,
+  SavedTrack,
+  SearchType,
+  SimplifiedTrack,
+  Track,
+  TrackAudioFeatures,
+} from "../../types/spotify";
+
+export const SPOTIFY_API_BASE_URL = "https://api.spotify.com/v1";
+export const SPOTIFY_ACCOUNTS_URL = "https://accounts.spotify.com";
+
+// Both can be overridden from the environment, e.g. to point the app at the
+// fake Spotify server in test/spotify
+export function spotifyApiBaseUrl() {
+  return (process.env.SPOTIFY_API_BASE_URL || SPOTIFY_API_BASE_URL).replace(/\/$/, "");
+}
+
+export function spotifyAccountsUrl() {
+  return (process.env.SPOTIFY_ACCOUNTS_URL || SPOTIFY_ACCOUNTS_URL).replace(/\/$/, "");
+}
+
+export type SpotifyErrorCode =
+  | "bad_request"
+  | "unauthorized"
+  | "forbidden"
+  | "insufficient_scope"
+  | "not_found"
+  | "rate_limited"
+  | "upstream_error"
+  | "upstream_unavailable";
+
+function codeForStatus(status: number): SpotifyErrorCode {
+  if (status === 400) return "bad_request";
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 429) return "rate_limited";
+  return "upstream_error";
+}
+
+// A failed Web API call, normalized from Spotify's `{ error: { status, message } }`
+// bodies. `retryAfter` is in seconds and only set for rate-limited calls.
+export class SpotifyApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: SpotifyErrorCode,
+    message: string,
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = "SpotifyApiError";
+  }
+}
+
+export interface SpotifyClientOptions {
+  accessToken: string;
+  baseUrl?: string;
+  // Retries for 429s and transient 5xx responses before giving up
+  maxRetries?: number;
+  // Longest Retry-After we're willing to wait out inside a single request
+  maxRetryDelayMs?: number;
+}
+
+export interface PageOptions {
+  limit?: number;
+  offset?: number;
+}
+
+type QueryValue = string | number | boolean | undefined;
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+}
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseRetryAfter(header: string | null) {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+async function readErrorMessage(response: Response) {
+  try {
+    const data = await response.json();
+    if (typeof data?.error === "string") return data.error_description ?? data.error;
+    if (typeof data?.error?.message === "string") return data.error.message;
+  } catch {
+    // Not every error carries a JSON body
+  }
+  return response.statusText || `Spotify request failed (${response.status})`;
+}
+
+// Typed wrapper over the Spotify Web API. Server-only: it's constructed per
+// request with the signed-in user's token, which never leaves the server.
+export class SpotifyClient {
+  private readonly baseUrl: string;
+  private readonly maxRetries: number;
+  private readonly maxRetryDelayMs: number;
+
+  constructor(private readonly options: SpotifyClientOptions) {
+    this.baseUrl = options.baseUrl?.replace(/\/$/, "") ?? spotifyApiBaseUrl();
+    this.maxRetries = options.maxRetries ?? 2;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 5000;
+  }
+
+  async request<T>(path: string, { method = "GET", query, body }: RequestOptions = {}): Promise<T> {
+    const url = new URL(`${this.baseUrl}${path}`);
+    Object.entries(query ?? {}).forEach(([key, value]) => {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: {
+            Authorization: `Bearer ${this.options.accessToken}`,
+            ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+          cache: "no-store",
+        });
+      } catch (error) {
+        throw new SpotifyApiError(502, "upstream_unavailable", `Could not reach Spotify: ${String(error)}`);
+      }
+
+      if (response.ok) {
+        // Player endpoints answer 202/204 with no body
+        if (response.status === 204 || response.headers.get("content-length") === "0") {
+          return undefined as T;
+        }
+        const text = await response.text();
+        return (text ? JSON.parse(text) : undefined) as T;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+      // Honour Retry-After when Spotify sends it, otherwise back off exponentially
+      const delay = retryAfter !== undefined ? retryAfter * 1000 : 500 * 2 ** attempt;
+      if (RETRYABLE_STATUSES.has(response.status) && attempt < this.maxRetries && delay <= this.maxRetryDelayMs) {
+        await sleep(delay);
+        continue;
+      }
+
+      const message = await readErrorMessage(response);
+      // Sessions from before a scope was added get 403s until they re-consent
+      const code = response.status === 403 && /scope/i.test(message) ? "insufficient_scope" : codeForStatus(response.status);
+      throw new SpotifyApiError(response.status, code, message, response.status === 429 ? retryAfter : undefined);
+    }
+  }
+
+  search(query: string, types: SearchType[], { limit = 20, offset = 0, market }: PageOptions & { market?: string } = {}) {
+    return this.request<SearchResponse>("/search", {
+      query: { q: query, type: types.join(","), limit, offset, market },
+    });
+  }
+
+  getTrack(id: string) {
+    return this.request<Track>(`/tracks/${encodeURIComponent(id)}`);
+  }
+
+  getAudioFeatures(id: string) {
+    return this.request<TrackAudioFeatures>(`/audio-features/${encodeURIComponent(id)}`);
+  }
+
+  getAlbum(id: string, market = "from_token") {
+    return this.request<Album>(`/albums/${encodeURIComponent(id)}`, { query: { market } });
+  }
+
+  getAlbumTracks(id: string, { limit = 50, offset = 0, market = "from_token" }: PageOptions & { market?: string } = {}) {
+    return this.request<Paging<SimplifiedTrack>>(`/albums/${encodeURIComponent(id)}/tracks`, {
+      query: { limit, offset, market },
+    });
+  }
+
+  getArtist(id: string) {
+    return this.request<Artist>(`/artists/${encodeURIComponent(id)}`);
+  }
+
+  getArtistTopTracks(id: string, market = "from_token") {
+    return this.request<{ tracks: Track[] }>(`/artists/${encodeURIComponent(id)}/top-tracks`, {
+      query: { market },
+    });
+  }
+
+  getCurrentUser() {
+    return this.request<CurrentUser>("/me");
+  }
+
+  getSavedTracks({ limit = 50, offset = 0, market = "from_token" }: PageOptions & { market?: string } = {}) {
+    return this.request<Paging<SavedTrack>>("/me/tracks", { query: { limit, offset, market } });
+  }
+
+  // `before` is a Unix timestamp in ms; omit it for the latest plays
+  getRecentlyPlayed({ limit = 50, before }: { limit?: number; before?: string } = {}) {
+    return this.request<CursorPaging<PlayHistory>>("/me/player/recently-played", { query: { limit, before } });
+  }
+
+  getMyPlaylists({ limit = 20, offset = 0 }: PageOptions = {}) {
+    return this.request<Paging<Playlist>>("/me/playlists", { query: { limit, offset } });
+  }
+
+  getPlaylist(id: string) {
+    return this.request<Playlist>(`/playlists/${encodeURIComponent(id)}`);
+  }
+
+  getPlaylistTracks(id: string, { limit = 50, offset = 0, market = "from_token" }: PageOptions & { market?: string } = {}) {
+    return this.request<Paging<PlaylistTrack>>(`/playlists/${encodeURIComponent(id)}/tracks`, {
+      query: { limit, offset, market },
+    });
+  }
+
+  startPlayback(deviceId: string, uris: string[]) {
+    return this.request<void>("/me/player/play", {
+      method: "PUT",
+      query: { device_id: deviceId },
+      body: { uris },
+    });
+  }
+}
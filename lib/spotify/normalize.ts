@@ -0,0 +1,69 @@
+import type {
+  Album,
+  CursorPaging,
+  Paging,
+  PlayHistory,
+  PlaylistTrack,
+  SavedTrack,
+  SimplifiedTrack,
+  Track,
+  TrackItem,
+  TrackPage,
+} from "../../types/spotify";
+
+// Spotify only sets `is_playable` when a market is given; treat a missing
+// flag as playable and local files (which can't be streamed) as not
+export function isTrackPlayable(track: SimplifiedTrack) {
+  return !track.is_local && track.is_playable !== false;
+}
+
+type ReadEntry<E, T> = (entry: E) => { track: T | null; addedAt: string | null };
+
+function toItems<E, T extends SimplifiedTrack>(entries: E[], read: ReadEntry<E, T>) {
+  const items: TrackItem<T>[] = [];
+  entries.forEach((entry) => {
+    const { track, addedAt } = read(entry);
+    if (!track || !track.id) return;
+    items.push({ track, addedAt, playable: isTrackPlayable(track) });
+  });
+  return { items, skipped: entries.length - items.length };
+}
+
+// Offset-paged lists; the cursor handed back is the next offset
+function offsetPage<E, T extends SimplifiedTrack>(page: Paging<E>, read: ReadEntry<E, T>): TrackPage<T> {
+  const nextOffset = page.offset + page.items.length;
+  return {
+    ...toItems(page.items, read),
+    total: page.total,
+    next: page.next && nextOffset < page.total ? String(nextOffset) : null,
+  };
+}
+
+export function normalizePlaylistPage(page: Paging<PlaylistTrack>): TrackPage {
+  return offsetPage(page, (entry) => ({ track: entry.track, addedAt: entry.added_at }));
+}
+
+export function normalizeSavedTracksPage(page: Paging<SavedTrack>): TrackPage {
+  return offsetPage(page, (entry) => ({ track: entry.track, addedAt: entry.added_at }));
+}
+
+// Recently played pages backwards in time; the cursor is the `before` timestamp
+export function normalizeRecentlyPlayedPage(page: CursorPaging<PlayHistory>): TrackPage {
+  return {
+    ...toItems(page.items, (entry) => ({ track: entry.track, addedAt: entry.played_at })),
+    total: page.total ?? null,
+    next: page.next && page.cursors?.before ? page.cursors.before : null,
+  };
+}
+
+export function normalizeAlbumTracksPage(page: Paging<SimplifiedTrack>): TrackPage<SimplifiedTrack> {
+  return offsetPage(page, (track) => ({ track, addedAt: null }));
+}
+
+// Album tracklists come without their album; put it back so they can be
+// played, queued and visualized like any other track
+export function withAlbum(track: SimplifiedTrack, album: Album): Track {
+  const simplified: Omit<Album, "tracks"> & Partial<Pick<Album, "tracks">> = { ...album };
+  delete simplified.tracks;
+  return { ...track, album: simplified, popularity: album.popularity ?? 0 };
+}
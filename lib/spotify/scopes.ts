@@ -0,0 +1,19 @@
+// OAuth scopes requested at sign-in. Sessions created before a scope was
+// added here won't have it until the user signs in again.
+export const SPOTIFY_SCOPES = [
+  "user-read-email",
+  "user-read-private",
+  "user-read-playback-state",
+  "user-modify-playback-state",
+  "streaming",
+  "user-read-recently-played",
+  "user-library-read",
+];
+
+// Scopes from `required` the session wasn't granted. Sessions from before
+// granted scopes were recorded report nothing missing; their calls fail with
+// `insufficient_scope` instead.
+export function missingScopes(granted: string[] | undefined, required: string[]) {
+  if (!granted) return [];
+  return required.filter((scope) => !granted.includes(scope));
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { needsRefresh, refreshAccessToken } from "../auth";
+import { SpotifyApiError, SpotifyClient } from "./client";
+import type { SpotifyErrorBody } from "../../types/spotify";
+
+// Reads the user's Spotify token from the session JWT. One that's expired or
+// about to is refreshed for this request, as is one Spotify has just
+// rejected when `forceRefresh` is set; the session cookie itself is renewed
+// by the next-auth session endpoint the client polls.
+export async function getAccessToken(request: NextRequest, { forceRefresh = false } = {}): Promise<string | null> {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || token.error) return null;
+  if (forceRefresh || needsRefresh(token.accessTokenExpires)) {
+    if (!token.refreshToken) return null;
+    const refreshed = await refreshAccessToken(token, { force: forceRefresh });
+    return refreshed.error ? null : refreshed.accessToken ?? null;
+  }
+  return token.accessToken;
+}
+
+// The error body every app route answers with, Spotify-backed or not
+export function errorJson(status: number, code: string, message: string, retryAfter?: number) {
+  const body: SpotifyErrorBody = {
+    error: { status, code, message, ...(retryAfter !== undefined ? { retryAfter } : {}) },
+  };
+  const headers: Record<string, string> = {};
+  if (retryAfter !== undefined) headers["Retry-After"] = String(retryAfter);
+  return NextResponse.json(body, { status, headers });
+}
+
+export function errorResponse(error: unknown) {
+  const apiError =
+    error instanceof SpotifyApiError
+      ? error
+      : new SpotifyApiError(500, "upstream_error", "Unexpected error talking to Spotify");
+  if (!(error instanceof SpotifyApiError)) {
+    console.error("Spotify route error:", error);
+  }
+  return errorJson(apiError.status, apiError.code, apiError.message, apiError.retryAfter);
+}
+
+type RouteContext<P> = { params: Promise<P> };
+
+// Wraps an /api/spotify route: resolves the caller's token, hands the handler
+// a client and turns any failure into the shared error body.
+export function spotifyRoute<P = Record<string, never>>(
+  handler: (client: SpotifyClient, request: NextRequest, params: P) => Promise<unknown>
+) {
+  return async (request: NextRequest, context: RouteContext<P>) => {
+    try {
+      const accessToken = await getAccessToken(request);
+      if (!accessToken) {
+        throw new SpotifyApiError(401, "unauthorized", "Not signed in to Spotify");
+      }
+      const params = await context.params;
+      // A body can only be read once, so the first attempt reads a copy and
+      // the retry still has the original
+      const firstAttempt = new NextRequest(request.clone());
+      let data: unknown;
+      try {
+        data = await handler(new SpotifyClient({ accessToken }), firstAttempt, params);
+      } catch (error) {
+        // Spotify can revoke a token before its expiry; refresh and retry once
+        if (!(error instanceof SpotifyApiError) || error.status !== 401) throw error;
+        const refreshed = await getAccessToken(request, { forceRefresh: true });
+        if (!refreshed) throw error;
+        data = await handler(new SpotifyClient({ accessToken: refreshed }), request, params);
+      }
+      return data === undefined ? new NextResponse(null, { status: 204 }) : NextResponse.json(data);
+    } catch (error) {
+      return errorResponse(error);
+    }
+  };
+}
+
+// Parses limit/offset query params, clamped to what the Web API accepts.
+// A `cursor` from a TrackPage stands in for the offset.
+export function pageParams(request: NextRequest, { limit = 20, maxLimit = 50 } = {}) {
+  const params = request.nextUrl.searchParams;
+  const parsedLimit = Number(params.get("limit") ?? limit);
+  const parsedOffset = Number(params.get("cursor") ?? params.get("offset") ?? 0);
+  return {
+    limit: Number.isFinite(parsedLimit) ? Math.min(Math.max(Math.floor(parsedLimit), 1), maxLimit) : limit,
+    offset: Number.isFinite(parsedOffset) ? Math.max(Math.floor(parsedOffset), 0) : 0,
+  };
+}
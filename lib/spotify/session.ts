@@ -0,0 +1,68 @@
+import { getSession, signIn } from "next-auth/react";
+
+// Browser-side session recovery. Polling /api/auth/session runs the jwt
+// callback, which refreshes the Spotify token and rewrites the cookie, so
+// renewing is just asking for the session again.
+
+let expired = false;
+const listeners = new Set<(expired: boolean) => void>();
+
+export function isSessionExpired() {
+  return expired;
+}
+
+export function setSessionExpired(value: boolean) {
+  if (value === expired) return;
+  expired = value;
+  listeners.forEach((listener) => listener(value));
+}
+
+export function onSessionExpiredChange(listener: (expired: boolean) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+let renewal: Promise<boolean> | null = null;
+
+// Resolves whether the session came back usable. Concurrent callers share
+// one request.
+export function renewSession(): Promise<boolean> {
+  if (!renewal) {
+    renewal = getSession()
+      .then((session) => {
+        const usable = Boolean(session) && !session?.error;
+        setSessionExpired(!usable);
+        return usable;
+      })
+      .catch((error) => {
+        console.error("Error renewing session:", error);
+        return false;
+      })
+      .finally(() => {
+        renewal = null;
+      });
+  }
+  return renewal;
+}
+
+export const RECONNECTED_MESSAGE = "vizify:reconnected";
+
+// Signs in again in a popup so the page (and whatever is playing) stays
+// put. The popup posts RECONNECTED_MESSAGE and closes; if it's blocked,
+// fall back to a full redirect that returns here.
+export function reconnectSpotify(onReconnected: () => void) {
+  const popup = window.open("/auth/reconnect", "vizify-reconnect", "width=480,height=720");
+  if (!popup) {
+    signIn("spotify", { callbackUrl: window.location.href });
+    return;
+  }
+  const onMessage = (event: MessageEvent) => {
+    if (event.origin !== window.location.origin || event.data !== RECONNECTED_MESSAGE) return;
+    window.removeEventListener("message", onMessage);
+    setSessionExpired(false);
+    onReconnected();
+  };
+  window.addEventListener("message", onMessage);
+}
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { describeSpotifyError, fetchSpotify } from "./api";
+import type {
+  Artist,
+  Playlist,
+  SearchResponse,
+  SearchType,
+  SimplifiedAlbum,
+  SimplifiedAudiobook,
+  SimplifiedShow,
+  Track,
+} from "../../types/spotify";
+
+export interface SearchItemMap {
+  track: Track;
+  album: SimplifiedAlbum;
+  artist: Artist;
+  playlist: Playlist;
+  show: SimplifiedShow;
+  audiobook: SimplifiedAudiobook;
+}
+
+const RESULT_KEYS: { [K in SearchType]: keyof SearchResponse } = {
+  track: "tracks",
+  album: "albums",
+  artist: "artists",
+  playlist: "playlists",
+  show: "shows",
+  audiobook: "audiobooks",
+};
+
+const PAGE_SIZE = 20;
+// Spotify refuses search offsets past this
+const MAX_OFFSET = 1000;
+
+export interface SearchPages<T> {
+  items: T[];
+  total: number;
+  loading: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => void;
+}
+
+// Pages through search results of a single type. A new query or type starts
+// over from the first page.
+export function useSearchPages<K extends SearchType>(query: string, type: K | null): SearchPages<SearchItemMap[K]> {
+  const [items, setItems] = useState<SearchItemMap[K][]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
+
+  const fetchPage = useCallback(async (q: string, searchType: K, offset: number) => {
+    const request = ++requestId.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchSpotify<SearchResponse>("/search", { q, type: searchType, limit: PAGE_SIZE, offset });
+      if (request !== requestId.current) return;
+      const page = data[RESULT_KEYS[searchType]];
+      // Search pages can contain null entries for withdrawn items
+      const pageItems = ((page?.items ?? []) as (SearchItemMap[K] | null)[]).filter(
+        (item): item is SearchItemMap[K] => item !== null
+      );
+      setItems((current) => (offset === 0 ? pageItems : [...current, ...pageItems]));
+      setTotal(page?.total ?? 0);
+      const next = offset + PAGE_SIZE;
+      setNextOffset(page?.next && next < MAX_OFFSET ? next : null);
+    } catch (error) {
+      if (request !== requestId.current) return;
+      console.error("Search error:", error);
+      setError(describeSpotifyError(error));
+    } finally {
+      if (request === requestId.current) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setItems([]);
+    setTotal(0);
+    setNextOffset(null);
+    if (query.trim() && type) {
+      fetchPage(query, type, 0);
+    } else {
+      requestId.current++;
+      setLoading(false);
+      setError(null);
+    }
+  }, [query, type, fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (!type || loading || nextOffset === null) return;
+    fetchPage(query, type, nextOffset);
+  }, [query, type, loading, nextOffset, fetchPage]);
+
+  return { items, total, loading, error, hasMore: nextOffset !== null, loadMore };
+}
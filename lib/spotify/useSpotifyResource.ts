@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { describeSpotifyError, fetchSpotify } from "./api";
+
+export interface SpotifyResource<T> {
+  data: T | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// Loads a single /api/spotify resource, refetching when the path changes
+export function useSpotifyResource<T>(path: string | null): SpotifyResource<T> {
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setData(null);
+    setError(null);
+    if (!path) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    fetchSpotify<T>(path)
+      .then((result) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error(`Error fetching ${path}:`, error);
+        setError(describeSpotifyError(error));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  return { data, loading, error };
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { describeSpotifyError, fetchSpotify } from "./api";
+import { SpotifyApiError, type SpotifyErrorCode } from "./client";
+import type { SimplifiedTrack, Track, TrackItem, TrackPage } from "../../types/spotify";
+
+const PAGE_SIZE = 50;
+
+export interface TrackPagesState<T extends SimplifiedTrack = Track> {
+  items: TrackItem<T>[];
+  total: number | null;
+  loading: boolean;
+  error: string | null;
+  errorCode: SpotifyErrorCode | null;
+  hasMore: boolean;
+  loadMore: () => void;
+}
+
+// Pages through a track list route (playlist, album, liked songs, recently
+// played) on demand. Switching paths drops anything still in flight for
+// the old one.
+export function useTrackPages<T extends SimplifiedTrack = Track>(path: string | null): TrackPagesState<T> {
+  const [items, setItems] = useState<TrackItem<T>[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [next, setNext] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<SpotifyApiError | Error | null>(null);
+  const requestId = useRef(0);
+
+  const fetchPage = useCallback(async (pagePath: string, cursor: string | null) => {
+    const request = ++requestId.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchSpotify<TrackPage<T>>(pagePath, { cursor: cursor ?? undefined, limit: PAGE_SIZE });
+      if (request !== requestId.current) return;
+      setItems((current) => (cursor === null ? page.items : [...current, ...page.items]));
+      setTotal(page.total);
+      setNext(page.next);
+    } catch (error) {
+      if (request !== requestId.current) return;
+      console.error(`Error fetching ${pagePath}:`, error);
+      setError(error as Error);
+    } finally {
+      if (request === requestId.current) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setItems([]);
+    setTotal(null);
+    setNext(null);
+    if (path) {
+      fetchPage(path, null);
+    } else {
+      requestId.current++;
+      setLoading(false);
+      setError(null);
+    }
+  }, [path, fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (!path || loading || next === null) return;
+    fetchPage(path, next);
+  }, [path, loading, next, fetchPage]);
+
+  return {
+    items,
+    total,
+    loading,
+    error: error ? describeSpotifyError(error) : null,
+    errorCode: error instanceof SpotifyApiError ? error.code : null,
+    hasMore: next !== null,
+    loadMore,
+  };
+}
@@ -0,0 +1,64 @@
+import type { SceneConfig } from "../components/scenes/types";
+import type { TrackFeatures } from "./audio/trackFeatures";
+
+// How a track should look, independent of which scene draws it. Everything
+// except `hue` scales the scene's own defaults, so scenes keep their
+// character and only shift with the music.
+export interface VisualMapping {
+  hue: number; // base hue, 0-1
+  saturation: number;
+  hueSpread: number;
+  speed: number;
+  intensity: number;
+  bloom: number; // 0-1, replaces the scene default
+  densityScale: number;
+}
+
+const WARM_HUE = 0.04; // orange-red
+const COOL_HUE = 0.62; // blue
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Shortest way round the hue circle
+function mixHue(from: number, to: number, amount: number) {
+  let delta = to - from;
+  if (delta > 0.5) delta -= 1;
+  if (delta < -0.5) delta += 1;
+  return (((from + delta * amount) % 1) + 1) % 1;
+}
+
+// Key picks the palette, walking the circle of fifths so related keys get
+// neighbouring colors; valence then pulls it warm (happy) or cool (sad).
+// Tempo and energy drive motion, energy and danceability drive how busy
+// and bright the scene gets, and acoustic tracks are softened throughout.
+export function mapFeaturesToVisuals(features: TrackFeatures): VisualMapping {
+  const { tempo, energy, valence, danceability, acousticness, key, mode } = features;
+  const keyHue = ((key * 7) % 12) / 12;
+  const mood = valence - 0.5 + (mode === 1 ? 0.05 : -0.05);
+  const hue = mixHue(keyHue, mood >= 0 ? WARM_HUE : COOL_HUE, clamp(Math.abs(mood) * 1.2, 0, 0.6));
+
+  return {
+    hue,
+    saturation: clamp(0.5 + energy * 0.6 - acousticness * 0.2, 0.3, 1.2),
+    hueSpread: clamp(0.3 + danceability * 1.2, 0.3, 1.5),
+    speed: clamp(tempo / 120, 0.5, 1.6) * (0.6 + energy * 0.7),
+    intensity: 0.6 + energy * 0.8,
+    bloom: clamp(energy * 0.7 + (1 - acousticness) * 0.3, 0, 1),
+    densityScale: 0.6 + (energy * 0.5 + danceability * 0.5) * 0.8,
+  };
+}
+
+export function applyVisualMapping(config: SceneConfig, mapping: VisualMapping): SceneConfig {
+  return {
+    ...config,
+    density: Math.max(1, Math.round(config.density * mapping.densityScale)),
+    speed: config.speed * mapping.speed,
+    intensity: config.intensity * mapping.intensity,
+    hue: mapping.hue,
+    saturation: config.saturation * mapping.saturation,
+    hueSpread: config.hueSpread * mapping.hueSpread,
+    bloom: mapping.bloom,
+  };
+}
@@ -0,0 +1,68 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { PUT } from "../../app/api/spotify/me/player/play/route";
+import { startFakeSpotify, type FakeSpotify, type IssuedTokens } from "../spotify/fakeServer";
+import { signedInRequest } from "../spotify/session";
+import type { SpotifyErrorBody } from "../../types/spotify";
+
+const APP_URL = "http://localhost:3000/api/spotify/me/player/play";
+
+describe("PUT /api/spotify/me/player/play", () => {
+  let spotify: FakeSpotify;
+
+  beforeAll(async () => {
+    spotify = await startFakeSpotify({
+      clientId: process.env.SPOTIFY_CLIENT_ID,
+      clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+    });
+    process.env.SPOTIFY_API_BASE_URL = spotify.apiBaseUrl;
+    process.env.SPOTIFY_ACCOUNTS_URL = spotify.accountsUrl;
+  });
+
+  afterAll(async () => {
+    await spotify.close();
+    delete process.env.SPOTIFY_API_BASE_URL;
+    delete process.env.SPOTIFY_ACCOUNTS_URL;
+  });
+
+  beforeEach(() => {
+    spotify.reset();
+  });
+
+  const put = async (tokens: IssuedTokens, body: unknown) =>
+    PUT(await signedInRequest(APP_URL, tokens, {}, { method: "PUT", body: JSON.stringify(body) }), {
+      params: Promise.resolve({}),
+    });
+  const playRequests = () => spotify.requests.filter((entry) => entry.path === "/v1/me/player/play");
+
+  it("starts playback of the URIs on the chosen device", async () => {
+    const uris = [spotify.catalog.tracks[0].uri];
+    const response = await put(spotify.issueTokens(), { deviceId: "device-1", uris });
+
+    expect(response.status).toBe(204);
+    expect(playRequests()).toEqual([
+      expect.objectContaining({ method: "PUT", query: { device_id: "device-1" }, body: { uris } }),
+    ]);
+  });
+
+  it("rejects a body without URIs before calling Spotify", async () => {
+    const response = await put(spotify.issueTokens(), { deviceId: "device-1" });
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as SpotifyErrorBody).error.code).toBe("bad_request");
+    expect(playRequests()).toHaveLength(0);
+  });
+
+  it("retries with the original body after refreshing a revoked token", async () => {
+    const tokens = spotify.issueTokens();
+    const uris = spotify.catalog.tracks.slice(0, 2).map((track) => track.uri);
+    // The session still believes the token is fresh; Spotify doesn't
+    spotify.expireAccessTokens();
+    const response = await put(tokens, { deviceId: "device-1", uris });
+
+    expect(response.status).toBe(204);
+    expect(spotify.requests.filter((entry) => entry.path === "/api/token")).toHaveLength(1);
+    const [rejected, retried] = playRequests();
+    expect(rejected.body).toEqual({ uris });
+    expect(retried).toMatchObject({ query: { device_id: "device-1" }, body: { uris } });
+  });
+});
@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "../../app/api/spotify/playlist/[id]/route";
+import { startFakeSpotify, type FakeSpotify } from "../spotify/fakeServer";
+import { signedInRequest } from "../spotify/session";
+import type { SpotifyErrorBody, TrackPage } from "../../types/spotify";
+
+const APP_URL = "http://localhost:3000/api/spotify/playlist";
+
+describe("GET /api/spotify/playlist/[id]", () => {
+  let spotify: FakeSpotify;
+  let playlistId: string;
+
+  beforeAll(async () => {
+    spotify = await startFakeSpotify({
+      clientId: process.env.SPOTIFY_CLIENT_ID,
+      clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+    });
+    process.env.SPOTIFY_API_BASE_URL = spotify.apiBaseUrl;
+    process.env.SPOTIFY_ACCOUNTS_URL = spotify.accountsUrl;
+  });
+
+  afterAll(async () => {
+    await spotify.close();
+    delete process.env.SPOTIFY_API_BASE_URL;
+    delete process.env.SPOTIFY_ACCOUNTS_URL;
+  });
+
+  beforeEach(() => {
+    spotify.reset();
+    playlistId = spotify.catalog.playlists[0].id;
+  });
+
+  const get = (request: NextRequest, id = playlistId) => GET(request, { params: Promise.resolve({ id }) });
+
+  it("rejects requests without a session", async () => {
+    const response = await get(new NextRequest(`${APP_URL}/${playlistId}`));
+
+    expect(response.status).toBe(401);
+    const body = (await response.json()) as SpotifyErrorBody;
+    expect(body.error.code).toBe("unauthorized");
+    expect(spotify.requests).toHaveLength(0);
+  });
+
+  it("returns a normalized page of the playlist's tracks", async () => {
+    const tokens = spotify.issueTokens();
+    const response = await get(await signedInRequest(`${APP_URL}/${playlistId}?limit=5`, tokens));
+
+    expect(response.status).toBe(200);
+    const page = (await response.json()) as TrackPage;
+    const fixture = spotify.catalog.playlistTracks[playlistId];
+    expect(page.items.map((item) => item.track.id)).toEqual(fixture.slice(0, 5).map((entry) => entry.track?.id));
+    expect(page.total).toBe(fixture.length);
+    expect(page.next).toBe("5");
+    expect(spotify.requests.at(-1)).toMatchObject({
+      path: `/v1/playlists/${playlistId}/tracks`,
+      query: { limit: "5", offset: "0" },
+    });
+  });
+
+  it("passes the cursor back to Spotify as the offset", async () => {
+    const tokens = spotify.issueTokens();
+    const response = await get(await signedInRequest(`${APP_URL}/${playlistId}?limit=5&cursor=15`, tokens));
+
+    const page = (await response.json()) as TrackPage;
+    expect(page.items).toHaveLength(5);
+    expect(page.next).toBeNull();
+    expect(spotify.requests.at(-1)?.query.offset).toBe("15");
+  });
+
+  it("refreshes an expired token before calling Spotify", async () => {
+    const tokens = spotify.issueTokens();
+    const request = await signedInRequest(`${APP_URL}/${playlistId}`, tokens, { accessTokenExpires: Date.now() - 1000 });
+    const response = await get(request);
+
+    expect(response.status).toBe(200);
+    expect(spotify.requests.map((entry) => entry.path)).toEqual(["/api/token", `/v1/playlists/${playlistId}/tracks`]);
+  });
+
+  it("retries once with a fresh token when Spotify rejects the current one", async () => {
+    const tokens = spotify.issueTokens();
+    spotify.failNext(`GET /v1/playlists/${playlistId}/tracks`, { status: 401, message: "The access token expired" });
+    const response = await get(await signedInRequest(`${APP_URL}/${playlistId}`, tokens));
+
+    expect(response.status).toBe(200);
+    expect(spotify.requests.map((entry) => entry.path)).toEqual([
+      `/v1/playlists/${playlistId}/tracks`,
+      "/api/token",
+      `/v1/playlists/${playlistId}/tracks`,
+    ]);
+  });
+
+  it("reports 401 when the token can't be refreshed", async () => {
+    const tokens = spotify.issueTokens();
+    spotify.expireAccessTokens();
+    spotify.revokeRefreshTokens();
+    const response = await get(await signedInRequest(`${APP_URL}/${playlistId}`, tokens));
+
+    expect(response.status).toBe(401);
+    expect(((await response.json()) as SpotifyErrorBody).error.code).toBe("unauthorized");
+  });
+
+  it("maps an upstream failure to the shared error body", async () => {
+    const tokens = spotify.issueTokens();
+    spotify.failNext(`GET /v1/playlists/${playlistId}/tracks`, { status: 500, message: "Server error" });
+    const response = await get(await signedInRequest(`${APP_URL}/${playlistId}`, tokens));
+
+    expect(response.status).toBe(500);
+    const body = (await response.json()) as SpotifyErrorBody;
+    expect(body.error).toMatchObject({ status: 500, code: "upstream_error", message: "Server error" });
+  });
+
+  it("passes rate limits through with Retry-After when they're too long to wait out", async () => {
+    const tokens = spotify.issueTokens();
+    spotify.failNext(`GET /v1/playlists/${playlistId}/tracks`, { status: 429, retryAfter: 30 });
+    const response = await get(await signedInRequest(`${APP_URL}/${playlistId}`, tokens));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("30");
+    const body = (await response.json()) as SpotifyErrorBody;
+    expect(body.error).toMatchObject({ code: "rate_limited", retryAfter: 30 });
+  });
+
+  it("returns 404 for a playlist Spotify doesn't have", async () => {
+    const tokens = spotify.issueTokens();
+    const response = await get(await signedInRequest(`${APP_URL}/missing`, tokens), "missing");
+
+    expect(response.status).toBe(404);
+    expect(((await response.json()) as SpotifyErrorBody).error.code).toBe("not_found");
+  });
+});
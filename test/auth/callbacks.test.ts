@@ -0,0 +1,147 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Account, Session } from "next-auth";
+import type { JWT } from "next-auth/jwt";
+import { authOptions, REFRESH_MARGIN_MS } from "../../lib/auth";
+import { startFakeSpotify, type FakeSpotify, type IssuedTokens } from "../spotify/fakeServer";
+
+type JwtParams = Parameters<NonNullable<NonNullable<typeof authOptions.callbacks>["jwt"]>>[0];
+type SessionParams = Parameters<NonNullable<NonNullable<typeof authOptions.callbacks>["session"]>>[0];
+
+// The callbacks only read the token and, at sign-in, the account
+const jwt = (token: JWT, account: Account | null = null) =>
+  authOptions.callbacks!.jwt!({ token, account } as JwtParams) as Promise<JWT>;
+const session = (token: JWT) =>
+  authOptions.callbacks!.session!({
+    session: { user: { name: "Vizify Tester" }, expires: new Date(Date.now() + 60_000).toISOString() },
+    token,
+  } as SessionParams) as Promise<Session>;
+
+// The session token the browser holds for `tokens`, expiring in `expiresIn` ms
+function sessionToken(tokens: IssuedTokens, expiresIn: number): JWT {
+  return {
+    name: "Vizify Tester",
+    accessToken: tokens.accessToken,
+    accessTokenExpires: Date.now() + expiresIn,
+    refreshToken: tokens.refreshToken,
+    scope: tokens.scope,
+  };
+}
+
+describe("next-auth callbacks", () => {
+  let spotify: FakeSpotify;
+  let consoleError: ReturnType<typeof vi.spyOn>;
+
+  beforeAll(async () => {
+    spotify = await startFakeSpotify({
+      clientId: process.env.SPOTIFY_CLIENT_ID,
+      clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+    });
+    process.env.SPOTIFY_ACCOUNTS_URL = spotify.accountsUrl;
+    process.env.SPOTIFY_API_BASE_URL = spotify.apiBaseUrl;
+  });
+
+  afterAll(async () => {
+    await spotify.close();
+    delete process.env.SPOTIFY_ACCOUNTS_URL;
+    delete process.env.SPOTIFY_API_BASE_URL;
+  });
+
+  beforeEach(() => {
+    spotify.reset();
+    consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  const tokenRequests = () => spotify.requests.filter((entry) => entry.path === "/api/token");
+
+  it("keeps Spotify's grant in the token at sign-in", async () => {
+    const token = await jwt(
+      { name: "Vizify Tester" },
+      {
+        provider: "spotify",
+        type: "oauth",
+        providerAccountId: "vizify-tester",
+        access_token: "access",
+        refresh_token: "refresh",
+        expires_in: 3600,
+        scope: "streaming user-read-email",
+      }
+    );
+
+    expect(token).toMatchObject({ accessToken: "access", refreshToken: "refresh", scope: "streaming user-read-email" });
+    expect(token.accessTokenExpires).toBeGreaterThan(Date.now() + 3500 * 1000);
+    expect(token.error).toBeUndefined();
+  });
+
+  it("leaves a token alone until it's within the refresh margin", async () => {
+    const token = sessionToken(spotify.issueTokens(), REFRESH_MARGIN_MS + 60_000);
+
+    expect(await jwt(token)).toBe(token);
+    expect(tokenRequests()).toHaveLength(0);
+  });
+
+  it("refreshes a token ahead of its expiry", async () => {
+    const tokens = spotify.issueTokens();
+    const refreshed = await jwt(sessionToken(tokens, REFRESH_MARGIN_MS - 60_000));
+
+    expect(tokenRequests()).toHaveLength(1);
+    expect(refreshed.accessToken).not.toBe(tokens.accessToken);
+    expect(refreshed.accessTokenExpires).toBeGreaterThan(Date.now() + REFRESH_MARGIN_MS);
+    // Spotify usually leaves the refresh token out; the old one stays
+    expect(refreshed.refreshToken).toBe(tokens.refreshToken);
+    expect(refreshed.error).toBeUndefined();
+
+    const me = await fetch(`${spotify.apiBaseUrl}/me`, {
+      headers: { Authorization: `Bearer ${refreshed.accessToken}` },
+    });
+    expect(me.status).toBe(200);
+  });
+
+  it("shares one refresh between requests carrying the same stale token", async () => {
+    const token = sessionToken(spotify.issueTokens(), -1000);
+    const results = await Promise.all([jwt(token), jwt(token), jwt(token)]);
+    // A request that arrives after the refresh, still with the old cookie
+    const late = await jwt(token);
+
+    expect(tokenRequests()).toHaveLength(1);
+    expect(new Set([...results, late].map((result) => result.accessToken)).size).toBe(1);
+  });
+
+  it("retries a refresh that failed instead of reusing the failure", async () => {
+    const token = sessionToken(spotify.issueTokens(), -1000);
+    spotify.failNext("POST /api/token", { status: 500 });
+
+    expect((await jwt(token)).error).toBe("RefreshAccessTokenError");
+    const retried = await jwt(token);
+
+    expect(tokenRequests()).toHaveLength(2);
+    expect(retried.error).toBeUndefined();
+    expect(retried.accessToken).toBeTruthy();
+  });
+
+  it("flags RefreshAccessTokenError on the session when Spotify rejects the refresh token", async () => {
+    const tokens = spotify.issueTokens();
+    spotify.revokeRefreshTokens();
+    const refreshed = await jwt(sessionToken(tokens, -1000));
+
+    expect(refreshed.error).toBe("RefreshAccessTokenError");
+    expect(await session(refreshed)).toMatchObject({ error: "RefreshAccessTokenError" });
+    // The failure is logged without the tokens
+    const logged = JSON.stringify(consoleError.mock.calls);
+    expect(logged).not.toContain(tokens.refreshToken);
+    expect(logged).not.toContain(tokens.accessToken);
+  });
+
+  it("exposes the granted scopes but never the tokens on the session", async () => {
+    const tokens = spotify.issueTokens("streaming user-read-email");
+    const result = await session(sessionToken(tokens, 60 * 60 * 1000));
+
+    expect(result.scopes).toEqual(["streaming", "user-read-email"]);
+    expect(result.error).toBeUndefined();
+    expect(JSON.stringify(result)).not.toContain(tokens.accessToken);
+    expect(JSON.stringify(result)).not.toContain(tokens.refreshToken);
+  });
+});
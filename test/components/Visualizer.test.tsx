@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import ReactThreeTestRenderer from "@react-three/test-renderer";
+import type { Mesh } from "three";
+import { Visualizer } from "../../components/Visualizer";
+import { AudioEngine } from "../../lib/audio/AudioEngine";
+import { DEFAULT_PRESET, type VisualPreset } from "../../lib/presets/schema";
+
+// Post-processing needs a real WebGL context; the scenes don't
+const PRESET: VisualPreset = {
+  ...DEFAULT_PRESET,
+  sceneId: "ring",
+  postProcessing: { ...DEFAULT_PRESET.postProcessing, quality: "off" },
+};
+const BINS = PRESET.audio.fftSize / 2;
+// Ring scene's default number of bars
+const BARS = 32;
+
+// An AudioEngine over a fake AudioContext whose analyser reports `spectrum`
+function createMockEngine(spectrum: Uint8Array) {
+  const context = {
+    state: "running",
+    sampleRate: 44100,
+    destination: {},
+    createAnalyser: () => ({
+      fftSize: PRESET.audio.fftSize,
+      smoothingTimeConstant: PRESET.audio.smoothing,
+      getByteFrequencyData: (target: Uint8Array) => target.set(spectrum.subarray(0, target.length)),
+      getByteTimeDomainData: (target: Uint8Array) => target.fill(128),
+      disconnect: () => {},
+    }),
+  };
+  const engine = new AudioEngine({ context: context as unknown as BaseAudioContext, fftSize: PRESET.audio.fftSize });
+  engine.connectSource({ connect: () => {}, disconnect: () => {} } as unknown as AudioNode);
+  return { engine, context };
+}
+
+function spectrumOf(value: (bin: number) => number) {
+  return Uint8Array.from({ length: BINS }, (_, bin) => value(bin));
+}
+
+async function renderVisualizer(engine: AudioEngine, preset = PRESET) {
+  const renderer = await ReactThreeTestRenderer.create(<Visualizer source={engine} preset={preset} />);
+  const meshes = (type: string) =>
+    renderer.scene
+      .findAll((node) => node.type === "Mesh")
+      .map((node) => node.instance as Mesh)
+      .filter((mesh) => mesh.geometry.type === type);
+  const advance = (frames = 1) => ReactThreeTestRenderer.act(() => renderer.advanceFrames(frames, 1 / 60));
+  return { renderer, advance, bars: () => meshes("BoxGeometry"), sphere: () => meshes("SphereGeometry")[0] };
+}
+
+describe("Visualizer", () => {
+  it("sizes and places each ring bar from its frequency bin", async () => {
+    const spectrum = spectrumOf((bin) => Math.min(255, bin * 8));
+    const { engine } = createMockEngine(spectrum);
+    const { advance, bars } = await renderVisualizer(engine);
+    await advance();
+
+    expect(bars()).toHaveLength(BARS);
+    bars().forEach((bar, index) => {
+      const level = spectrum[index] / 255;
+      const angle = (index / BINS) * Math.PI * 2;
+      expect(bar.scale.y).toBeCloseTo(0.1 + level * 3);
+      expect(bar.scale.x).toBeCloseTo(0.5 + level * 0.5);
+      expect(bar.position.x).toBeCloseTo(Math.cos(angle) * (2 + level));
+      expect(bar.position.z).toBeCloseTo(Math.sin(angle) * (2 + level));
+      expect(bar.position.y).toBeCloseTo(level * 2 - 1);
+    });
+  });
+
+  it("keeps silent bins at their resting size", async () => {
+    const { engine } = createMockEngine(spectrumOf(() => 0));
+    const { advance, bars, sphere } = await renderVisualizer(engine);
+    await advance();
+
+    bars().forEach((bar) => {
+      expect(bar.scale.y).toBeCloseTo(0.1);
+      expect(bar.position.y).toBeCloseTo(-1);
+    });
+    expect(sphere().scale.x).toBeCloseTo(1);
+  });
+
+  it("pulses the centre sphere with the bass bin", async () => {
+    const { engine } = createMockEngine(spectrumOf((bin) => (bin === 2 ? 200 : 0)));
+    const { advance, sphere } = await renderVisualizer(engine);
+    await advance();
+
+    expect(sphere().scale.x).toBeCloseTo(1 + 200 / 250);
+    expect(sphere().scale.y).toBeCloseTo(1 + 200 / 250);
+  });
+
+  it("scales bar heights by the preset's intensity, capped at full height", async () => {
+    const { engine } = createMockEngine(spectrumOf(() => 100));
+    const preset = { ...PRESET, scene: { ...PRESET.scene, intensity: 2 } };
+    const { advance, bars } = await renderVisualizer(engine, preset);
+    await advance();
+
+    expect(bars()[0].scale.y).toBeCloseTo(0.1 + ((100 / 255) * 2) * 3);
+
+    const { engine: loud } = createMockEngine(spectrumOf(() => 255));
+    const louder = await renderVisualizer(loud, preset);
+    await louder.advance();
+    expect(louder.bars()[0].scale.y).toBeCloseTo(3.1);
+  });
+
+  it("lets the spectrum fall away once the source goes quiet", async () => {
+    const { engine, context } = createMockEngine(spectrumOf(() => 255));
+    const { advance, bars } = await renderVisualizer(engine);
+    await advance();
+    expect(bars()[0].scale.y).toBeCloseTo(3.1);
+
+    context.state = "suspended";
+    await advance();
+    // Bins are bytes, so the 10% decay rounds down
+    expect(bars()[0].scale.y).toBeCloseTo(0.1 + (Math.floor(255 * 0.9) / 255) * 3);
+    await advance(10);
+    expect(bars()[0].scale.y).toBeLessThan(1.2);
+  });
+});
@@ -0,0 +1,174 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from "vitest";
+import { cleanup, fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import type { ReactNode } from "react";
+import Dashboard from "../../app/dashboard/page";
+import { PlayerProvider } from "../../components/PlayerProvider";
+import { createCatalog, FIXTURE_USER, type FakeCatalog } from "../spotify/fixtures";
+import type { Paging, SearchResponse } from "../../types/spotify";
+
+const SESSION = {
+  user: { name: FIXTURE_USER.display_name, email: FIXTURE_USER.email },
+  expires: "2099-01-01T00:00:00.000Z",
+  scopes: ["user-read-email", "user-library-read", "user-read-recently-played"],
+};
+
+vi.mock("next-auth/react", () => ({
+  useSession: () => ({ data: SESSION, status: "authenticated", update: vi.fn() }),
+  SessionProvider: ({ children }: { children: ReactNode }) => children,
+  getSession: vi.fn(async () => SESSION),
+  signIn: vi.fn(),
+  signOut: vi.fn(),
+}));
+
+vi.mock("next/link", () => ({
+  default: ({ href, children, ...props }: { href: string; children: ReactNode }) => (
+    <a href={href} {...props}>
+      {children}
+    </a>
+  ),
+}));
+
+// jsdom has no WebGL; the flow under test is everything around the canvas
+vi.mock("@react-three/fiber", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@react-three/fiber")>()),
+  Canvas: () => <div data-testid="visualizer-canvas" />,
+}));
+
+function paging<T>(items: T[]): Paging<T> {
+  return { href: "", items, limit: 20, next: null, offset: 0, previous: null, total: items.length };
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+describe("Dashboard search → select → play", () => {
+  let catalog: FakeCatalog;
+  let fetchMock: Mock<typeof fetch>;
+  let play: Mock<() => Promise<void>>;
+
+  beforeEach(() => {
+    catalog = createCatalog();
+    // /api/spotify/search answers from the fixtures; nothing else the
+    // dashboard asks for (audio features, stored analyses) exists
+    fetchMock = vi.fn<typeof fetch>(async (input) => {
+      const url = new URL(String(input), "http://localhost:3000");
+      if (url.pathname === "/api/spotify/search") {
+        const response: SearchResponse = {
+          tracks: paging(catalog.tracks),
+          playlists: paging(catalog.playlists),
+          albums: paging(catalog.albums),
+          artists: paging(catalog.artists),
+        };
+        return json(response);
+      }
+      return json({ error: { status: 404, code: "not_found", message: "Not found" } }, 404);
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    play = vi.fn(async function (this: HTMLMediaElement) {
+      this.dispatchEvent(new Event("play"));
+    });
+    vi.spyOn(HTMLMediaElement.prototype, "play").mockImplementation(play);
+    vi.spyOn(HTMLMediaElement.prototype, "pause").mockImplementation(() => {});
+    vi.spyOn(HTMLMediaElement.prototype, "load").mockImplementation(() => {});
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  const renderDashboard = () =>
+    render(
+      <PlayerProvider>
+        <Dashboard />
+      </PlayerProvider>
+    );
+
+  const search = async (query: string) => {
+    const input = screen.getByPlaceholderText("Search for music...");
+    fireEvent.change(input, { target: { value: query } });
+    fireEvent.keyPress(input, { key: "Enter", code: "Enter", charCode: 13 });
+    await screen.findByText("Top result");
+  };
+
+  it("sends the query to the search route", async () => {
+    renderDashboard();
+    await search("Blinding Lights");
+
+    const searchCall = fetchMock.mock.calls.find(([input]) => String(input).startsWith("/api/spotify/search"));
+    const params = new URL(String(searchCall?.[0]), "http://localhost:3000").searchParams;
+    expect(params.get("q")).toBe("Blinding Lights");
+    expect(params.get("type")).toBe("track,playlist,album,artist");
+  });
+
+  it("falls back to the demo visualization for a track without audio", async () => {
+    const [track] = catalog.tracks;
+    expect(track.preview_url).toBeNull();
+    renderDashboard();
+    await search("Blinding Lights");
+
+    const topResult = screen.getByRole("heading", { name: "Top result" }).parentElement!;
+    expect(within(topResult).getByText("SONG • Demo")).toBeTruthy();
+    fireEvent.click(within(topResult).getByText(track.name));
+
+    expect(await screen.findByText("Demo Mode")).toBeTruthy();
+    expect(screen.getByTestId("visualizer-canvas")).toBeTruthy();
+    expect(screen.getByText("Present").getAttribute("href")).toBe(`/visualize/${track.id}`);
+    expect(play).not.toHaveBeenCalled();
+    expect(document.querySelector("audio")?.getAttribute("src")).toBeNull();
+  });
+
+  it("plays a track's preview through the audio element, listed first", async () => {
+    const track = catalog.tracks[3];
+    track.preview_url = "https://p.scdn.co/mp3-preview/fixture";
+    renderDashboard();
+    await search("Blinding Lights");
+
+    const topResult = screen.getByRole("heading", { name: "Top result" }).parentElement!;
+    expect(within(topResult).getByText(track.artists[0].name)).toBeTruthy();
+    expect(within(topResult).getByText("SONG • Audio")).toBeTruthy();
+    fireEvent.click(within(topResult).getByText(track.name));
+
+    await waitFor(() => expect(play).toHaveBeenCalledTimes(1));
+    expect(document.querySelector("audio")?.getAttribute("src")).toBe(track.preview_url);
+    expect(screen.queryByText("Demo Mode")).toBeNull();
+  });
+
+  it("switches from a preview back to demo mode for the next track without audio", async () => {
+    catalog.tracks[3].preview_url = "https://p.scdn.co/mp3-preview/fixture";
+    const demoTrack = catalog.tracks[4];
+    renderDashboard();
+    await search("Blinding Lights");
+
+    const topResult = screen.getByRole("heading", { name: "Top result" }).parentElement!;
+    fireEvent.click(within(topResult).getByText(catalog.tracks[3].name));
+    await waitFor(() => expect(play).toHaveBeenCalledTimes(1));
+
+    const songs = screen.getByRole("heading", { name: "Songs" }).parentElement!;
+    fireEvent.click(within(songs).getByText(demoTrack.artists[0].name));
+
+    expect(await screen.findByText("Demo Mode")).toBeTruthy();
+    expect(document.querySelector("audio")?.getAttribute("src")).toBeNull();
+    expect(play).toHaveBeenCalledTimes(1);
+  });
+
+  it("shows a rate-limit message when search is throttled", async () => {
+    fetchMock.mockImplementation(async () =>
+      json({ error: { status: 429, code: "rate_limited", message: "Too many requests", retryAfter: 5 } }, 429)
+    );
+    renderDashboard();
+    const input = screen.getByPlaceholderText("Search for music...");
+    fireEvent.change(input, { target: { value: "Blinding Lights" } });
+    fireEvent.keyPress(input, { key: "Enter", code: "Enter", charCode: 13 });
+
+    expect(await screen.findByText("Spotify is rate limiting requests. Try again in 5s.")).toBeTruthy();
+    expect(screen.queryByText("Top result")).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import type { ReactNode } from "react";
+import Dashboard from "../../app/dashboard/page";
+import { PlayerProvider } from "../../components/PlayerProvider";
+import { DEFAULT_PRESET, encodePreset } from "../../lib/presets/schema";
+import { saveActivePreset } from "../../lib/presets/storage";
+import { FIXTURE_USER } from "../spotify/fixtures";
+
+const SESSION = {
+  user: { name: FIXTURE_USER.display_name, email: FIXTURE_USER.email },
+  expires: "2099-01-01T00:00:00.000Z",
+};
+
+// The session starts out loading, as it does on a fresh page load
+const auth = vi.hoisted(() => ({ status: "loading" as "loading" | "authenticated" }));
+
+vi.mock("next-auth/react", () => ({
+  useSession: () =>
+    auth.status === "loading"
+      ? { data: null, status: "loading", update: vi.fn() }
+      : { data: SESSION, status: "authenticated", update: vi.fn() },
+  SessionProvider: ({ children }: { children: ReactNode }) => children,
+  getSession: vi.fn(async () => SESSION),
+  signIn: vi.fn(),
+  signOut: vi.fn(),
+}));
+
+vi.mock("next/link", () => ({
+  default: ({ href, children, ...props }: { href: string; children: ReactNode }) => (
+    <a href={href} {...props}>
+      {children}
+    </a>
+  ),
+}));
+
+vi.mock("@react-three/fiber", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@react-three/fiber")>()),
+  Canvas: () => <div data-testid="visualizer-canvas" />,
+}));
+
+describe("Dashboard shared preset links", () => {
+  const shared = { ...DEFAULT_PRESET, name: "Shared Tunnel", sceneId: "waveform-tunnel" };
+
+  beforeEach(() => {
+    auth.status = "loading";
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(JSON.stringify({ error: { status: 404, code: "not_found", message: "" } }), { status: 404 }))
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // A returning user, whose own preset would otherwise load
+    saveActivePreset("tester@example.com", { ...DEFAULT_PRESET, name: "My Stored Preset", sceneId: "radial-bars" });
+    window.history.replaceState(null, "", `/dashboard?preset=${encodePreset(shared)}`);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    localStorage.clear();
+    window.history.replaceState(null, "", "/");
+  });
+
+  const tree = () => (
+    <PlayerProvider>
+      <Dashboard />
+    </PlayerProvider>
+  );
+
+  it("keeps the shared preset active once the session and the stored preset load", async () => {
+    const { rerender } = render(tree());
+    auth.status = "authenticated";
+    rerender(tree());
+
+    expect(await screen.findByText(`Loaded shared preset "${shared.name}"`)).toBeTruthy();
+    expect(screen.getByDisplayValue(shared.name)).toBeTruthy();
+    expect(screen.queryByDisplayValue("My Stored Preset")).toBeNull();
+    expect(window.location.search).toBe("");
+  });
+
+  it("loads the stored preset when there's no link", async () => {
+    window.history.replaceState(null, "", "/dashboard");
+    const { rerender } = render(tree());
+    auth.status = "authenticated";
+    rerender(tree());
+    fireEvent.click(screen.getByTitle("Edit visual preset"));
+
+    expect(await screen.findByDisplayValue("My Stored Preset")).toBeTruthy();
+  });
+});
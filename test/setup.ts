@@ -0,0 +1,2 @@
+// Lets React check that renders and effects in tests happen inside act()
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
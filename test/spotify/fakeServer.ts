@@ -0,0 +1,426 @@
+import { randomUUID } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createCatalog, type FakeCatalog } from "./fixtures";
+import type { Paging } from "../../types/spotify";
+
+// A local stand-in for the Spotify accounts service and Web API, so auth
+// callbacks, API routes and dashboard flows run without network access.
+// Point the app at it with SPOTIFY_ACCOUNTS_URL=<url> and
+// SPOTIFY_API_BASE_URL=<url>/v1; `npm run fake-spotify` starts one on its
+// own (see serve.ts).
+//
+// Accounts: GET /authorize redirects straight back with a code, and
+// POST /api/token exchanges codes and refresh tokens like Spotify does.
+// API: the read endpoints the app calls, served from the fixture catalog
+// and guarded by the access tokens this server issued.
+
+export interface FakeSpotifyOptions {
+  catalog?: FakeCatalog;
+  clientId?: string;
+  clientSecret?: string;
+  // Seconds an access token stays valid
+  tokenLifetime?: number;
+  port?: number;
+}
+
+export interface FakeFailure {
+  status: number;
+  message?: string;
+  // Seconds, sent as Retry-After; only meaningful for 429s
+  retryAfter?: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  // The parsed JSON body of Web API writes, such as starting playback
+  body?: unknown;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  scope: string;
+}
+
+export interface FakeSpotify {
+  url: string;
+  accountsUrl: string;
+  apiBaseUrl: string;
+  catalog: FakeCatalog;
+  // Every request, oldest first
+  requests: RecordedRequest[];
+  // Mints tokens without the OAuth redirect, as if the user had signed in
+  issueTokens(scope?: string): IssuedTokens;
+  // Every issued access token starts failing with 401, as on expiry
+  expireAccessTokens(): void;
+  // Refresh tokens stop working too, as when the user revokes access
+  revokeRefreshTokens(): void;
+  // The next `times` requests whose "METHOD /path" matches fail with this
+  failNext(pattern: string | RegExp, failure: FakeFailure, times?: number): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+const DEFAULT_SCOPE = "user-read-email user-read-private streaming user-library-read user-read-recently-played";
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+function send(response: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}) {
+  if (body === undefined) {
+    response.writeHead(status, headers).end();
+    return;
+  }
+  response.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(body));
+}
+
+async function readBody(request: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function pageParams(query: URLSearchParams, defaultLimit = 20) {
+  const limit = Number(query.get("limit") ?? defaultLimit);
+  const offset = Number(query.get("offset") ?? 0);
+  return {
+    limit: Number.isFinite(limit) ? Math.min(Math.max(limit, 1), 50) : defaultLimit,
+    offset: Number.isFinite(offset) ? Math.max(offset, 0) : 0,
+  };
+}
+
+export async function startFakeSpotify(options: FakeSpotifyOptions = {}): Promise<FakeSpotify> {
+  const tokenLifetime = options.tokenLifetime ?? 3600;
+  const accessTokens = new Map<string, { expires: number; scope: string }>();
+  const refreshTokens = new Map<string, string>(); // refresh token -> scope
+  const codes = new Map<string, string>(); // authorization code -> scope
+  const failures: Array<{ pattern: string | RegExp; failure: FakeFailure; remaining: number }> = [];
+  const requests: RecordedRequest[] = [];
+  let catalog = options.catalog ?? createCatalog();
+  let origin = "";
+
+  const issueAccessToken = (scope: string) => {
+    const accessToken = `access-${randomUUID()}`;
+    accessTokens.set(accessToken, { expires: Date.now() + tokenLifetime * 1000, scope });
+    return accessToken;
+  };
+
+  const issueTokens = (scope = DEFAULT_SCOPE): IssuedTokens => {
+    const refreshToken = `refresh-${randomUUID()}`;
+    refreshTokens.set(refreshToken, scope);
+    return { accessToken: issueAccessToken(scope), refreshToken, expiresIn: tokenLifetime, scope };
+  };
+
+  const page = <T>(items: T[], url: URL, defaultLimit = 20): Paging<T> => {
+    const { limit, offset } = pageParams(url.searchParams, defaultLimit);
+    const at = (start: number) => {
+      const link = new URL(url);
+      link.searchParams.set("offset", String(start));
+      link.searchParams.set("limit", String(limit));
+      return link.toString();
+    };
+    return {
+      href: at(offset),
+      items: items.slice(offset, offset + limit),
+      limit,
+      offset,
+      next: offset + limit < items.length ? at(offset + limit) : null,
+      previous: offset > 0 ? at(Math.max(0, offset - limit)) : null,
+      total: items.length,
+    };
+  };
+
+  const find = <T extends { id: string }>(items: T[], id: string, kind: string) => {
+    const item = items.find((candidate) => candidate.id === id);
+    if (!item) throw new HttpError(404, `Non existing ${kind} id`);
+    return item;
+  };
+
+  const takeFailure = (method: string, path: string) => {
+    const key = `${method} ${path}`;
+    const match = failures.find(({ pattern }) =>
+      typeof pattern === "string" ? key === pattern || path === pattern : pattern.test(key)
+    );
+    if (!match) return null;
+    match.remaining -= 1;
+    if (match.remaining <= 0) failures.splice(failures.indexOf(match), 1);
+    return match.failure;
+  };
+
+  const checkClient = (request: IncomingMessage) => {
+    if (!options.clientId) return;
+    const expected = Buffer.from(`${options.clientId}:${options.clientSecret ?? ""}`).toString("base64");
+    if (request.headers.authorization !== `Basic ${expected}`) {
+      throw new HttpError(400, "invalid_client");
+    }
+  };
+
+  const handleToken = async (request: IncomingMessage, response: ServerResponse) => {
+    checkClient(request);
+    const form = new URLSearchParams(await readBody(request));
+    const grantType = form.get("grant_type");
+
+    if (grantType === "authorization_code") {
+      const scope = codes.get(form.get("code") ?? "");
+      if (!scope) {
+        send(response, 400, { error: "invalid_grant", error_description: "Invalid authorization code" });
+        return;
+      }
+      codes.delete(form.get("code") ?? "");
+      const tokens = issueTokens(scope);
+      send(response, 200, {
+        access_token: tokens.accessToken,
+        token_type: "Bearer",
+        expires_in: tokenLifetime,
+        refresh_token: tokens.refreshToken,
+        scope,
+      });
+      return;
+    }
+
+    if (grantType === "refresh_token") {
+      const scope = refreshTokens.get(form.get("refresh_token") ?? "");
+      if (!scope) {
+        send(response, 400, { error: "invalid_grant", error_description: "Refresh token revoked" });
+        return;
+      }
+      // Like Spotify, the refresh token is usually left out and stays valid
+      send(response, 200, {
+        access_token: issueAccessToken(scope),
+        token_type: "Bearer",
+        expires_in: tokenLifetime,
+        scope,
+      });
+      return;
+    }
+
+    send(response, 400, { error: "unsupported_grant_type", error_description: `Unsupported grant ${grantType}` });
+  };
+
+  const handleAuthorize = (url: URL, response: ServerResponse) => {
+    const redirectUri = url.searchParams.get("redirect_uri");
+    if (!redirectUri) throw new HttpError(400, "Missing redirect_uri");
+    const code = `code-${randomUUID()}`;
+    codes.set(code, url.searchParams.get("scope") ?? DEFAULT_SCOPE);
+    const redirect = new URL(redirectUri);
+    redirect.searchParams.set("code", code);
+    const state = url.searchParams.get("state");
+    if (state) redirect.searchParams.set("state", state);
+    response.writeHead(302, { Location: redirect.toString() }).end();
+  };
+
+  const search = (url: URL) => {
+    const query = url.searchParams.get("q")?.trim().toLowerCase();
+    if (!query) throw new HttpError(400, "No search query");
+    const types = (url.searchParams.get("type") ?? "").split(",");
+    if (types.every((type) => !["track", "album", "artist", "playlist"].includes(type))) {
+      throw new HttpError(400, "Missing parameter type");
+    }
+    // Anything matching any word of the query, in catalog order
+    const words = query.split(/\s+/);
+    const matches = (...fields: Array<string | null | undefined>) =>
+      words.some((word) => fields.some((field) => field?.toLowerCase().includes(word)));
+    return {
+      ...(types.includes("track") && {
+        tracks: page(
+          catalog.tracks.filter((track) => matches(track.name, track.album.name, ...track.artists.map((a) => a.name))),
+          url
+        ),
+      }),
+      ...(types.includes("album") && {
+        albums: page(
+          catalog.albums.filter((album) => matches(album.name, ...album.artists.map((a) => a.name))),
+          url
+        ),
+      }),
+      ...(types.includes("artist") && {
+        artists: page(
+          catalog.artists.filter((artist) => matches(artist.name)),
+          url
+        ),
+      }),
+      ...(types.includes("playlist") && {
+        playlists: page(
+          catalog.playlists.filter((playlist) => matches(playlist.name, playlist.description)),
+          url
+        ),
+      }),
+    };
+  };
+
+  // Returns the response body, or undefined for 204
+  const routeApi = (method: string, path: string, url: URL, body: unknown): unknown => {
+    const segments = path.split("/").filter(Boolean).map(decodeURIComponent);
+    const [resource, id, sub] = segments;
+
+    if (method === "PUT" && path === "/me/player/play") {
+      const uris = (body as { uris?: unknown } | undefined)?.uris;
+      if (!Array.isArray(uris) || uris.length === 0) throw new HttpError(400, "Missing uris");
+      return undefined;
+    }
+    if (method !== "GET") throw new HttpError(405, "Method not allowed");
+
+    if (path === "/me") return catalog.user;
+    if (path === "/me/tracks") {
+      return page(
+        catalog.savedTracks.map((track) => ({ added_at: "2025-06-01T00:00:00Z", track })),
+        url
+      );
+    }
+    if (path === "/me/playlists") return page(catalog.playlists, url);
+    if (path === "/me/player/recently-played") {
+      const limit = pageParams(url.searchParams).limit;
+      return {
+        href: url.toString(),
+        items: catalog.recentlyPlayed.slice(0, limit).map((track, index) => ({
+          track,
+          played_at: new Date(Date.UTC(2025, 5, 1, 12, 0, 0) - index * 60_000).toISOString(),
+          context: null,
+        })),
+        limit,
+        next: null,
+        cursors: null,
+        total: catalog.recentlyPlayed.length,
+      };
+    }
+    if (path === "/search") return search(url);
+
+    if (resource === "tracks" && id) return find(catalog.tracks, id, "track");
+    if (resource === "albums" && id) {
+      const album = find(catalog.albums, id, "album");
+      // Album tracklists leave out the album and popularity
+      const tracks = catalog.tracks
+        .filter((track) => track.album.id === id)
+        .map(({ album: _album, popularity: _popularity, ...track }) => track);
+      if (sub === "tracks") return page(tracks, url, 50);
+      return { ...album, tracks: page(tracks, url, 50) };
+    }
+    if (resource === "artists" && id) {
+      const artist = find(catalog.artists, id, "artist");
+      const tracks = catalog.tracks.filter((track) => track.artists.some((a) => a.id === artist.id));
+      if (sub === "top-tracks") return { tracks: tracks.slice(0, 10) };
+      if (sub === "albums") {
+        return page(
+          catalog.albums.filter((album) => album.artists.some((a) => a.id === artist.id)),
+          url
+        );
+      }
+      return artist;
+    }
+    if (resource === "playlists" && id) {
+      const playlist = find(catalog.playlists, id, "playlist");
+      if (sub === "tracks") return page(catalog.playlistTracks[playlist.id] ?? [], url, 50);
+      return playlist;
+    }
+
+    throw new HttpError(404, "Service not found");
+  };
+
+  const handleApi = async (
+    request: IncomingMessage,
+    response: ServerResponse,
+    path: string,
+    url: URL,
+    recorded: RecordedRequest
+  ) => {
+    const text = await readBody(request);
+    if (text) {
+      try {
+        recorded.body = JSON.parse(text);
+      } catch {
+        throw new HttpError(400, "Malformed json");
+      }
+    }
+    const bearer = request.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    const token = bearer ? accessTokens.get(bearer) : undefined;
+    if (!token) throw new HttpError(401, "Invalid access token");
+    if (Date.now() >= token.expires) throw new HttpError(401, "The access token expired");
+
+    const body = routeApi(request.method ?? "GET", path, url, recorded.body);
+    send(response, body === undefined ? 204 : 200, body);
+  };
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url ?? "/", origin);
+    const method = request.method ?? "GET";
+    const recorded: RecordedRequest = { method, path: url.pathname, query: Object.fromEntries(url.searchParams) };
+    requests.push(recorded);
+
+    try {
+      const failure = takeFailure(method, url.pathname);
+      if (failure) {
+        send(
+          response,
+          failure.status,
+          { error: { status: failure.status, message: failure.message ?? `Injected ${failure.status}` } },
+          failure.retryAfter !== undefined ? { "Retry-After": String(failure.retryAfter) } : {}
+        );
+        return;
+      }
+
+      if (method === "GET" && url.pathname === "/authorize") return handleAuthorize(url, response);
+      if (method === "POST" && url.pathname === "/api/token") return await handleToken(request, response);
+      if (url.pathname.startsWith("/v1/")) return await handleApi(request, response, url.pathname.slice(3), url, recorded);
+      throw new HttpError(404, "Not found");
+    } catch (error) {
+      if (error instanceof HttpError) {
+        // The accounts service answers in OAuth's shape, the API in its own
+        if (url.pathname === "/api/token") {
+          send(response, error.status, { error: error.message });
+        } else {
+          send(response, error.status, { error: { status: error.status, message: error.message } });
+        }
+        return;
+      }
+      console.error("Fake Spotify error:", error);
+      send(response, 500, { error: { status: 500, message: "Fake server error" } });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: origin,
+    accountsUrl: origin,
+    apiBaseUrl: `${origin}/v1`,
+    get catalog() {
+      return catalog;
+    },
+    requests,
+    issueTokens,
+    expireAccessTokens: () => {
+      accessTokens.forEach((token) => {
+        token.expires = 0;
+      });
+    },
+    revokeRefreshTokens: () => refreshTokens.clear(),
+    failNext: (pattern, failure, times = 1) => {
+      failures.push({ pattern, failure, remaining: times });
+    },
+    reset: () => {
+      catalog = options.catalog ?? createCatalog();
+      accessTokens.clear();
+      refreshTokens.clear();
+      codes.clear();
+      failures.length = 0;
+      requests.length = 0;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
@@ -0,0 +1,72 @@
+import searchData from "../../search-data.json";
+import type {
+  Artist,
+  CurrentUser,
+  Playlist,
+  PlaylistTrack,
+  SearchResponse,
+  SimplifiedAlbum,
+  Track,
+} from "../../types/spotify";
+
+// The catalog the fake Spotify server serves, built from the captured
+// search response in search-data.json. Albums and artists come from the
+// tracks, and every playlist holds the same fixture tracks.
+export interface FakeCatalog {
+  user: CurrentUser;
+  tracks: Track[];
+  albums: SimplifiedAlbum[];
+  artists: Artist[];
+  playlists: Playlist[];
+  // Keyed by playlist id
+  playlistTracks: Record<string, PlaylistTrack[]>;
+  savedTracks: Track[];
+  recentlyPlayed: Track[];
+}
+
+export const FIXTURE_USER: CurrentUser = {
+  id: "vizify-tester",
+  display_name: "Vizify Tester",
+  email: "tester@example.com",
+  country: "US",
+  product: "premium",
+  href: "https://api.spotify.com/v1/users/vizify-tester",
+  type: "user",
+  uri: "spotify:user:vizify-tester",
+  external_urls: { spotify: "https://open.spotify.com/user/vizify-tester" },
+  images: [],
+};
+
+function uniqueById<T extends { id: string }>(items: T[]) {
+  return Array.from(new Map(items.map((item) => [item.id, item])).values());
+}
+
+export function createCatalog(): FakeCatalog {
+  // Cloned so a test that mutates its catalog can't leak into the next one
+  const data = structuredClone(searchData) as unknown as SearchResponse;
+  const tracks = (data.tracks?.items ?? []).filter((track): track is Track => track !== null);
+  const playlists = (data.playlists?.items ?? []).filter((playlist): playlist is Playlist => playlist !== null);
+  const addedAt = "2025-06-01T00:00:00Z";
+
+  return {
+    user: structuredClone(FIXTURE_USER),
+    tracks,
+    albums: uniqueById(tracks.map((track) => track.album)),
+    artists: uniqueById(tracks.flatMap((track) => track.artists)).map((artist) => ({
+      ...artist,
+      genres: [],
+      images: [],
+      followers: { href: null, total: 0 },
+      popularity: 50,
+    })),
+    playlists: playlists.map((playlist) => ({ ...playlist, tracks: { ...playlist.tracks, total: tracks.length } })),
+    playlistTracks: Object.fromEntries(
+      playlists.map((playlist) => [
+        playlist.id,
+        tracks.map((track) => ({ added_at: addedAt, is_local: false, track })),
+      ])
+    ),
+    savedTracks: tracks.slice(0, 10),
+    recentlyPlayed: tracks.slice(5, 15),
+  };
+}
@@ -0,0 +1,18 @@
+import { startFakeSpotify } from "./fakeServer";
+
+// Runs the fake Spotify server on its own, for using the app without
+// Spotify: `npm run fake-spotify`, then start the app with the printed
+// environment. Signing in lands straight on the fixture user.
+const port = Number(process.env.FAKE_SPOTIFY_PORT ?? 4010);
+const spotify = await startFakeSpotify({ port });
+
+console.log(`Fake Spotify listening on ${spotify.url}`);
+console.log("Start the app with:");
+console.log(`  SPOTIFY_ACCOUNTS_URL=${spotify.accountsUrl}`);
+console.log(`  SPOTIFY_API_BASE_URL=${spotify.apiBaseUrl}`);
+
+const stop = () => {
+  spotify.close().then(() => process.exit(0));
+};
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
@@ -0,0 +1,25 @@
+import { encode } from "next-auth/jwt";
+import { NextRequest } from "next/server";
+import type { IssuedTokens } from "./fakeServer";
+
+// A request carrying a next-auth session cookie for `tokens`, as the
+// browser would send it after signing in; GET unless `init` says otherwise
+export async function signedInRequest(
+  url: string,
+  tokens: IssuedTokens,
+  overrides: { accessTokenExpires?: number } = {},
+  init: { method?: string; body?: string } = {}
+) {
+  const sessionToken = await encode({
+    secret: process.env.NEXTAUTH_SECRET ?? "",
+    token: {
+      name: "Vizify Tester",
+      email: "tester@example.com",
+      accessToken: tokens.accessToken,
+      accessTokenExpires: overrides.accessTokenExpires ?? Date.now() + tokens.expiresIn * 1000,
+      refreshToken: tokens.refreshToken,
+      scope: tokens.scope,
+    },
+  });
+  return new NextRequest(url, { ...init, headers: { cookie: `next-auth.session-token=${sessionToken}` } });
+}
@@ -1,19 +1,24 @@
 import 'next-auth';
+import 'next-auth/jwt';
+
+// Set on the token and session when the Spotify token can't be refreshed
+type SessionError = 'RefreshAccessTokenError';
 
 declare module 'next-auth' {
   interface Session {
-    accessToken?: string;
-    error?: string;
+    error?: SessionError;
+    scopes?: string[];
   }
-  
+}
+
+declare module 'next-auth/jwt' {
+  // The Spotify grant, kept in the encrypted session cookie and never sent
+  // to the browser
   interface JWT {
     accessToken?: string;
-    accessTokenExpires?: number;
+    accessTokenExpires?: number; // ms since the epoch
     refreshToken?: string;
-    error?: string;
-  }
-  
-  interface User {
-    accessToken?: string;
+    scope?: string;
+    error?: SessionError;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,241 @@
+// Shapes returned by the Spotify Web API, trimmed to the fields the app
+// reads. See search-data.json for a captured search response.
+
+export interface ExternalUrls {
+  spotify: string;
+}
+
+export interface SpotifyImage {
+  url: string;
+  height: number | null;
+  width: number | null;
+}
+
+export interface Paging<T> {
+  href: string;
+  items: T[];
+  limit: number;
+  next: string | null;
+  offset: number;
+  previous: string | null;
+  total: number;
+}
+
+export interface SimplifiedArtist {
+  id: string;
+  name: string;
+  href: string;
+  type: "artist";
+  uri: string;
+  external_urls: ExternalUrls;
+}
+
+export interface Artist extends SimplifiedArtist {
+  followers?: { href: string | null; total: number };
+  genres?: string[];
+  images?: SpotifyImage[];
+  popularity?: number;
+}
+
+export interface SimplifiedAlbum {
+  id: string;
+  name: string;
+  album_type: "album" | "single" | "compilation";
+  artists: SimplifiedArtist[];
+  images: SpotifyImage[];
+  release_date: string;
+  release_date_precision?: "year" | "month" | "day";
+  total_tracks: number;
+  href: string;
+  type: "album";
+  uri: string;
+  external_urls: ExternalUrls;
+  is_playable?: boolean;
+}
+
+export interface SimplifiedTrack {
+  id: string;
+  name: string;
+  artists: SimplifiedArtist[];
+  duration_ms: number;
+  explicit: boolean;
+  disc_number: number;
+  track_number: number;
+  href: string;
+  type: "track";
+  uri: string;
+  external_urls: ExternalUrls;
+  preview_url: string | null;
+  is_local: boolean;
+  is_playable?: boolean;
+}
+
+export interface Track extends SimplifiedTrack {
+  album: SimplifiedAlbum;
+  popularity: number;
+  external_ids?: { isrc?: string; ean?: string; upc?: string };
+}
+
+export interface Album extends SimplifiedAlbum {
+  tracks: Paging<SimplifiedTrack>;
+  genres?: string[];
+  label?: string;
+  popularity?: number;
+}
+
+export interface PublicUser {
+  id: string;
+  display_name: string | null;
+  href: string;
+  type: "user";
+  uri: string;
+  external_urls: ExternalUrls;
+  images?: SpotifyImage[];
+  followers?: { href: string | null; total: number };
+}
+
+export interface CurrentUser extends PublicUser {
+  country?: string;
+  email?: string;
+  product?: string;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  description: string | null;
+  collaborative: boolean;
+  public: boolean | null;
+  images: SpotifyImage[] | null;
+  owner: PublicUser;
+  primary_color: string | null;
+  snapshot_id: string;
+  tracks: { href: string; total: number };
+  href: string;
+  type: "playlist";
+  uri: string;
+  external_urls: ExternalUrls;
+}
+
+export interface PlaylistTrack {
+  added_at: string | null;
+  is_local: boolean;
+  // Removed or region-locked entries come back without a track
+  track: Track | null;
+}
+
+export interface SimplifiedShow {
+  id: string;
+  name: string;
+  publisher: string;
+  description: string;
+  explicit: boolean;
+  images: SpotifyImage[];
+  media_type: string;
+  total_episodes: number;
+  href: string;
+  type: "show";
+  uri: string;
+  external_urls: ExternalUrls;
+}
+
+export interface SimplifiedAudiobook {
+  id: string;
+  name: string;
+  authors: { name: string }[];
+  narrators: { name: string }[];
+  publisher: string;
+  description: string;
+  explicit: boolean;
+  images: SpotifyImage[];
+  total_chapters: number;
+  href: string;
+  type: "audiobook";
+  uri: string;
+  external_urls: ExternalUrls;
+}
+
+// Search pages can contain null entries for items Spotify has withdrawn
+export interface SearchResponse {
+  tracks?: Paging<Track | null>;
+  albums?: Paging<SimplifiedAlbum | null>;
+  artists?: Paging<Artist | null>;
+  playlists?: Paging<Playlist | null>;
+  shows?: Paging<SimplifiedShow | null>;
+  audiobooks?: Paging<SimplifiedAudiobook | null>;
+}
+
+export type SearchType = "track" | "album" | "artist" | "playlist" | "show" | "audiobook";
+
+// Error body returned by the app's /api/spotify routes
+export interface SpotifyErrorBody {
+  error: {
+    status: number;
+    code: string;
+    message: string;
+    retryAfter?: number;
+  };
+}
+
+export interface SavedTrack {
+  added_at: string;
+  track: Track;
+}
+
+export interface PlayHistory {
+  played_at: string;
+  track: Track;
+  context: { type: string; uri: string; href: string; external_urls: ExternalUrls } | null;
+}
+
+// Paging keyed on timestamps rather than offsets, as used by recently played
+export interface CursorPaging<T> {
+  href: string;
+  items: T[];
+  limit: number;
+  next: string | null;
+  cursors: { after: string | null; before: string | null } | null;
+  total?: number;
+}
+
+// A track row in a page from the playlist and library routes. Unplayable
+// tracks are kept and flagged rather than dropped, so lists aren't silently cut.
+// Album tracklists page in without their album, so they carry simplified tracks
+export interface TrackItem<T extends SimplifiedTrack = Track> {
+  track: T;
+  // When the track was added to the playlist or library, or when it was played
+  addedAt: string | null;
+  playable: boolean;
+}
+
+export interface TrackPage<T extends SimplifiedTrack = Track> {
+  items: TrackItem<T>[];
+  // Null when the endpoint doesn't report a total
+  total: number | null;
+  // Opaque cursor for the following page, or null once the list is exhausted
+  next: string | null;
+  // Entries Spotify returned without a track (removed or region-locked)
+  skipped: number;
+}
+
+// Artist as returned by /api/spotify/artist/[id], with top tracks inlined
+export interface ArtistWithTopTracks extends Artist {
+  top_tracks: Track[];
+}
+
+// Track-level audio analysis from /audio-features. Spotify withholds this
+// endpoint from apps registered after late 2024, so callers need a fallback.
+export interface TrackAudioFeatures {
+  id: string;
+  tempo: number;
+  energy: number;
+  valence: number;
+  danceability: number;
+  acousticness: number;
+  instrumentalness: number;
+  loudness: number; // dB
+  key: number; // pitch class, -1 if none detected
+  mode: number; // 1 = major, 0 = minor
+  time_signature: number;
+  duration_ms: number;
+}
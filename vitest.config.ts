@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // tsconfig keeps JSX for Next to compile; tests need it compiled here
+  esbuild: { jsx: "automatic" },
+  test: {
+    include: ["test/**/*.test.{ts,tsx}"],
+    environment: "node",
+    setupFiles: ["test/setup.ts"],
+    env: {
+      NEXTAUTH_SECRET: "test-secret",
+      NEXTAUTH_URL: "http://localhost:3000",
+      SPOTIFY_CLIENT_ID: "test-client",
+      SPOTIFY_CLIENT_SECRET: "test-client-secret",
+    },
+  },
+});